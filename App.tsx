@@ -1,5 +1,6 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { AppState, Sponsor, Deal, PipelineStage, DiscoveredLead, DiscoverySession, AgentTask, AutomationSettings, Workflow, SocialMessage, SocialAccount, SenderProfile, ForensicDossier, Persona } from './types.ts';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { AppState, Sponsor, Deal, PipelineStage, DiscoveredLead, DiscoverySession, DiscoveryJob, AgentTask, AutomationSettings, Workflow, SocialMessage, SocialAccount, SenderProfile, ForensicDossier, Persona, Activity, FieldCorrection } from './types.ts';
+import { STAGE_LABELS } from './constants.ts';
 import Dashboard from './components/Dashboard.tsx';
 import PipelineBoard from './components/PipelineBoard.tsx';
 import DiscoveryTab from './components/DiscoveryTab.tsx';
@@ -8,89 +9,281 @@ import SponsorForm from './components/SponsorForm.tsx';
 import DealDetail from './components/DealDetail.tsx';
 import WorkflowBuilder from './components/WorkflowBuilder.tsx';
 import SocialInbox from './components/SocialInbox.tsx';
-import { discoverProspects, getIdentityKeys } from './lib/gemini.ts';
-
-const STORAGE_KEY = 'scout_crm_v5_persistent_logic';
-const CURRENT_STATE_VERSION = 2;
-
-const migrateState = (payload: any): AppState => {
-  if (!payload || !payload.stateVersion) return payload;
-  const oldState = payload.state;
-  return {
-    ...oldState,
-    personas: oldState.personas || [],
-    automationSettings: {
-      ...oldState.automationSettings,
-      apolloApiKey: oldState.automationSettings?.apolloApiKey || ''
-    }
-  };
+import CsvImportWizard from './components/CsvImportWizard.tsx';
+import VaultTab from './components/VaultTab.tsx';
+import ArchiveTab from './components/ArchiveTab.tsx';
+import SponsorsView from './components/SponsorsView.tsx';
+import DuplicatesView from './components/DuplicatesView.tsx';
+import { discoverProspectsBatched, DISCOVERY_BATCH_SIZE, getIdentityKeys, DiscoveryCancelledError, DiscoveryProgress, describeDiscoveryProgress } from './lib/gemini.ts';
+import { loadWorkspace, saveWorkspace, replaceWorkspace, readLegacyPayload, writeLegacyPayload, clearLegacyPayload, readMeta, writeMeta, applyWorkspaceChanges, PersistedState } from './lib/storage.ts';
+import { broadcastChanges, subscribeToChanges } from './lib/sync.ts';
+import { DEFAULT_LLM_SETTINGS, configureLlm, resolveTask } from './lib/llm.ts';
+import { DEFAULT_USAGE_BUDGET, subscribeToUsage, createUsageEntry, estimateDeepScanCost, checkBudget } from './lib/usage.ts';
+import { isApolloConfigured } from './lib/apollo.ts';
+import { DEFAULT_SCORING_SETTINGS } from './lib/scoring.ts';
+import { acceptCorrection } from './lib/verification.ts';
+import { applyWebsiteContacts, websiteContactsOf } from './lib/website-contacts.ts';
+import { DEFAULT_SPONSOR_RECHECK_DAYS, findSponsorsDueForRecheck, recheckSponsor, applyRecheck, findNewAlerts } from './lib/sponsor-recheck.ts';
+import { SCHEDULER_TICK_MS, DiscoveryJobInput, createDiscoveryJob, findDueJobs, findNewLeads, recordJobRun } from './lib/scheduler.ts';
+import { LlmResponseError } from './lib/structured-output.ts';
+import { RequestError, subscribeToRequestEvents } from './lib/request-executor.ts';
+import { mergeWorkspaces, restoreSecrets, ParsedArchive, ImportMode } from './lib/archive.ts';
+import { ImportRow } from './lib/csv-import.ts';
+import { DEFAULT_ARCHIVE_RETENTION_DAYS, RETENTION_PURGE_INTERVAL_MS, activeDeals, archiveDeal, restoreDeal, purgeDeals, findExpiredDeals } from './lib/retention.ts';
+import { findExistingSponsor, mergeSponsorDetails, buildRenewalDeal, dealLabel } from './lib/renewals.ts';
+import { DuplicateCluster, MergeChoices, mergeCluster } from './lib/dedupe.ts';
+import { HistoryStack, EMPTY_HISTORY, createHistoryEntry, applyHistoryEntry, pushHistory } from './lib/history.ts';
+import { runMigrations, migrateLegacyPayload, CURRENT_STATE_VERSION, MigrationResult, MigrationRecord } from './lib/migrations.ts';
+
+interface DiscoverySearch {
+  description: string;
+  location: string;
+  radius: string;
+  depth: 'STANDARD' | 'DEEP';
+  coords?: { latitude: number; longitude: number };
+  forceRefresh?: boolean;
+  targetCount?: number;
+  /** Session that "Find more" appends to */
+  sessionId?: string;
+}
+
+interface Toast {
+  message: string;
+  /** historyEntryId ties an Undo action to the command that showed the toast */
+  action?: { label: string; onClick: () => void; historyEntryId?: string };
+}
+
+const createInitialState = (): PersistedState => ({
+  sponsors: [],
+  deals: [],
+  activities: [],
+  vault: [],
+  discoveryHistory: [],
+  currentDiscoveryLeads: [],
+  workflows: [],
+  socialMessages: [],
+  socialAccounts: [
+    { platform: 'INSTAGRAM', isConnected: true, username: 'scout_hq' },
+    { platform: 'LINKEDIN', isConnected: false, username: '' }
+  ],
+  senderProfile: {
+    orgName: "My organization",
+    role: "",
+    goal: "looking to connect with high-fit partners",
+    offerOneLiner: "we offer a mutually beneficial partnership",
+    ctaStyle: "quick_chat"
+  },
+  automationSettings: {
+    n8nWebhookUrl: '',
+    apolloApiKey: '',
+    autoSignalRefresh: false,
+    notifyOnDeploy: true,
+    agentFrequency: 'DAILY',
+    archiveRetentionDays: DEFAULT_ARCHIVE_RETENTION_DAYS,
+    llm: DEFAULT_LLM_SETTINGS,
+    usageBudget: DEFAULT_USAGE_BUDGET,
+    scoring: DEFAULT_SCORING_SETTINGS,
+    sponsorRecheckDays: DEFAULT_SPONSOR_RECHECK_DAYS
+  },
+  personas: [],
+  discoveryJobs: [],
+  theme: 'light',
+  usageLedger: []
+});
+
+/**
+ * Append applied migrations to the persisted migration log
+ */
+const recordMigrations = async (applied: MigrationRecord[]) => {
+  if (applied.length === 0) return;
+  const log = (await readMeta<MigrationRecord[]>('migrationLog')) || [];
+  await writeMeta('migrationLog', [...log, ...applied]);
+  applied.forEach(m => console.log(`✅ Migrations: Applied v${m.version} (${m.description})`));
 };
 
-const App: React.FC = () => {
-  const [state, setState] = useState<AppState>(() => {
-    let baseState: any = null;
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      const parsed = saved ? JSON.parse(saved) : null;
-      baseState = parsed ? migrateState(parsed) : null;
-    } catch (e) {
-      console.warn("Failed to hydrate state from storage:", e);
-    }
+/**
+ * Workspace held in the legacy localStorage blob, or a fresh one when there is none
+ */
+const loadLegacyWorkspace = (legacy: any): { state: PersistedState; applied: MigrationRecord[] } => {
+  const migrated = migrateLegacyPayload<AppState>(legacy);
+  if (!migrated) return { state: createInitialState(), applied: [] };
+  const { activeTask, ...persistentState } = migrated.state;
+  return { state: { ...createInitialState(), ...persistentState }, applied: migrated.applied };
+};
 
-    if (!baseState) {
-      baseState = {
-        sponsors: [],
-        deals: [],
-        activities: [],
-        vault: [],
-        discoveryHistory: [],
-        currentDiscoveryLeads: [],
-        workflows: [],
-        socialMessages: [],
-        socialAccounts: [
-          { platform: 'INSTAGRAM', isConnected: true, username: 'scout_hq' },
-          { platform: 'LINKEDIN', isConnected: false, username: '' }
-        ],
-        senderProfile: {
-          orgName: "My organization",
-          role: "",
-          goal: "looking to connect with high-fit partners",
-          offerOneLiner: "we offer a mutually beneficial partnership",
-          ctaStyle: "quick_chat"
-        },
-        automationSettings: {
-          n8nWebhookUrl: '',
-          apolloApiKey: '',
-          autoSignalRefresh: false,
-          notifyOnDeploy: true,
-          agentFrequency: 'DAILY'
-        },
-        personas: [],
-        theme: 'light'
-      };
+/**
+ * Load the workspace from IndexedDB, importing the legacy localStorage blob on first launch
+ * or when it holds changes saved while the database was unavailable
+ */
+const hydrateWorkspace = async (): Promise<PersistedState> => {
+  const stored = await loadWorkspace();
+  const legacy = readLegacyPayload();
+  const lastSavedAt = stored ? await readMeta<string>('lastSavedAt') : undefined;
+  const legacyIsNewer = !!legacy?.savedAt && (!lastSavedAt || legacy.savedAt > lastSavedAt);
+
+  if (stored && !legacyIsNewer) {
+    const storedVersion = (await readMeta<number>('stateVersion')) ?? CURRENT_STATE_VERSION;
+    const result: MigrationResult<PersistedState> = runMigrations(stored, storedVersion);
+    const baseState = { ...createInitialState(), ...result.state };
+    if (result.applied.length > 0) {
+      await replaceWorkspace(baseState, result.toVersion);
+      await recordMigrations(result.applied);
     }
+    // A copy left over from a failed save that the database has since caught up with
+    if (legacy) clearLegacyPayload();
+    return baseState;
+  }
+
+  const { state: baseState, applied } = loadLegacyWorkspace(legacy);
+  await replaceWorkspace(baseState, CURRENT_STATE_VERSION);
+  if (legacy) {
+    await recordMigrations(applied);
+    clearLegacyPayload();
+  }
+  return baseState;
+};
 
-    return {
-      ...baseState,
-      activeTask: { status: 'IDLE', phase: '' }
-    } as AppState;
-  });
+const App: React.FC = () => {
+  const [state, setState] = useState<AppState>(() => ({
+    ...createInitialState(),
+    activeTask: { status: 'IDLE', phase: '' }
+  }));
+  const [isHydrated, setIsHydrated] = useState(false);
+  const persistedRef = useRef<PersistedState | null>(null);
+  /** Set when IndexedDB failed on load; saves then go to localStorage only */
+  const localStorageOnlyRef = useRef(false);
+  const [persistenceError, setPersistenceError] = useState<string | null>(null);
 
-  const [activeTab, setActiveTab] = useState<'extract' | 'signals' | 'board' | 'insights' | 'flows' | 'storage'>('extract');
+  const [activeTab, setActiveTab] = useState<'extract' | 'signals' | 'board' | 'insights' | 'flows' | 'storage' | 'archive' | 'sponsors' | 'duplicates'>('extract');
   const [isAddingSponsor, setIsAddingSponsor] = useState(false);
+  const [isImportingCsv, setIsImportingCsv] = useState(false);
   const [selectedDealId, setSelectedDealId] = useState<string | null>(null);
   const [isFocusMode, setIsFocusMode] = useState(false);
-  const [notification, setNotification] = useState<string | null>(null);
+  const [notification, setNotification] = useState<Toast | null>(null);
+  const notificationTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const [history, setHistory] = useState<HistoryStack>(EMPTY_HISTORY);
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const pendingCommandRef = useRef<{ id: string; label: string } | null>(null);
+  const commandSeqRef = useRef(0);
+  const historyBaselineRef = useRef<AppState>(state);
+  const discoveryAbortRef = useRef<AbortController | null>(null);
+  const lastSearchRef = useRef<DiscoverySearch | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const scheduledRunRef = useRef(false);
+  const sponsorRecheckRef = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    hydrateWorkspace()
+      .catch((e) => {
+        console.warn("Failed to hydrate state from storage:", e);
+        localStorageOnlyRef.current = true;
+        setPersistenceError('The browser database could not be opened. Changes are kept in local storage, which holds far less data; export an archive to be safe.');
+        return loadLegacyWorkspace(readLegacyPayload()).state;
+      })
+      .then((baseState) => {
+        if (cancelled) return;
+        persistedRef.current = baseState;
+        setState({ ...baseState, activeTask: { status: 'IDLE', phase: '' } });
+        setIsHydrated(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
 
   useEffect(() => {
+    if (!isHydrated) return;
     const { activeTask, ...persistentState } = state;
-    const payload = {
-      stateVersion: CURRENT_STATE_VERSION,
-      state: persistentState
+    const previous = persistedRef.current;
+    if (previous && ((Object.keys(persistentState) as (keyof PersistedState)[]).every(k => previous[k] === persistentState[k]))) return;
+    persistedRef.current = persistentState;
+
+    // Keep a copy in localStorage; the next launch imports it if it is newer than the database
+    const saveToLocalStorage = () => {
+      try {
+        writeLegacyPayload(persistentState, CURRENT_STATE_VERSION);
+        return true;
+      } catch (e) {
+        console.warn("Failed to persist workspace to localStorage:", e);
+        return false;
+      }
     };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
+
+    if (localStorageOnlyRef.current) {
+      if (!saveToLocalStorage()) setPersistenceError('Changes could not be saved: local storage is full or unavailable. Export an archive before closing this tab.');
+      return;
+    }
+
+    saveWorkspace(previous, persistentState)
+      .then((changes) => {
+        broadcastChanges(changes);
+        setPersistenceError(null);
+      })
+      .catch((e) => {
+        console.warn("Failed to persist workspace:", e);
+        // Rewrite everything on the next save so the failed changes are not lost
+        if (persistedRef.current === persistentState) persistedRef.current = null;
+        setPersistenceError(saveToLocalStorage()
+          ? 'The browser database rejected the last save. A copy was kept in local storage and will be restored on the next launch.'
+          : 'Changes could not be saved. Export an archive before closing this tab.');
+      });
+  }, [state, isHydrated]);
+
+  // Merge changes persisted by other open tabs; they are already in IndexedDB, so skip re-saving them
+  useEffect(() => {
+    if (!isHydrated) return;
+    return subscribeToChanges((changes) => {
+      if (persistedRef.current) persistedRef.current = applyWorkspaceChanges(persistedRef.current, changes);
+      setState(prev => applyWorkspaceChanges(prev, changes));
+      console.log('🔄 Sync: Merged changes from another tab');
+    });
+  }, [isHydrated]);
+
+  // Record the state change produced by the last labelled command
+  useEffect(() => {
+    const previous = historyBaselineRef.current;
+    historyBaselineRef.current = state;
+    const command = pendingCommandRef.current;
+    pendingCommandRef.current = null;
+    if (!command || previous === state) return;
+    const entry = createHistoryEntry(command.id, command.label, previous, state);
+    if (!entry) return;
+    setHistory(prev => pushHistory(prev, entry));
+    // An older toast's Undo would now revert this newer command instead of its own
+    setNotification(prev => prev?.action?.historyEntryId && prev.action.historyEntryId !== entry.id ? { ...prev, action: undefined } : prev);
   }, [state]);
 
+  // Purge archived deals past the retention window, on load and once a day
+  useEffect(() => {
+    if (!isHydrated) return;
+
+    const purgeExpired = () => {
+      const expired = findExpiredDeals(stateRef.current.deals, stateRef.current.automationSettings.archiveRetentionDays);
+      if (expired.length === 0) return;
+      console.log(`🗑️ Retention: Purging ${expired.length} archived deal(s)`);
+      const commandId = runCommand(`Purge ${expired.length} expired deal${expired.length === 1 ? '' : 's'}`, prev => purgeDeals(prev, expired));
+      showNotification(`${expired.length} archived deal${expired.length === 1 ? '' : 's'} past retention deleted.`, undoAction(commandId));
+    };
+
+    purgeExpired();
+    const timer = setInterval(purgeExpired, RETENTION_PURGE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isHydrated]);
+
+  useEffect(() => {
+    configureLlm(state.automationSettings.llm);
+  }, [state.automationSettings.llm]);
+
+  // Append every billable API call to the usage ledger, priced with the current budget settings
+  useEffect(() => subscribeToUsage(report => {
+    setState(prev => ({
+      ...prev,
+      usageLedger: [...prev.usageLedger, createUsageEntry(report, prev.automationSettings.usageBudget)]
+    }));
+  }), []);
+
   useEffect(() => {
     if (state.theme === 'dark') {
       document.documentElement.classList.add('dark');
@@ -106,11 +299,81 @@ const App: React.FC = () => {
     }));
   };
 
-  const showNotification = (msg: string) => {
-    setNotification(msg);
-    setTimeout(() => setNotification(null), 3000);
+  const showNotification = (msg: string, action?: Toast['action']) => {
+    if (notificationTimerRef.current) clearTimeout(notificationTimerRef.current);
+    setNotification({ message: msg, action });
+    notificationTimerRef.current = setTimeout(() => setNotification(null), action ? 6000 : 3000);
+  };
+
+  /**
+   * Label the next state change as an undoable command
+   *
+   * @returns The id its history entry will carry (pass to undoAction)
+   */
+  const recordCommand = (label: string) => {
+    const id = `cmd_${Date.now()}_${++commandSeqRef.current}`;
+    pendingCommandRef.current = { id, label };
+    return id;
   };
 
+  /**
+   * Label a state update for undo; returns the command id for undoAction
+   */
+  const runCommand = (label: string, update: (prev: AppState) => AppState) => {
+    const id = recordCommand(label);
+    setState(prev => {
+      const next = update(prev);
+      // React skips the render for an unchanged state, so the history effect would never clear the label
+      if (next === prev && pendingCommandRef.current?.id === id) pendingCommandRef.current = null;
+      return next;
+    });
+    return id;
+  };
+
+  /**
+   * Undo the newest command, or only the given one when it is still the newest
+   */
+  const handleUndo = (entryId?: string) => {
+    const entry = historyRef.current.past[historyRef.current.past.length - 1];
+    if (!entry) return;
+    if (entryId && entry.id !== entryId) {
+      showNotification('Nothing to undo for that change.');
+      return;
+    }
+    setState(prev => applyHistoryEntry(prev, entry, 'UNDO'));
+    setHistory(prev => ({ past: prev.past.slice(0, -1), future: [entry, ...prev.future] }));
+    showNotification(`Undone: ${entry.label}`);
+  };
+
+  const handleRedo = () => {
+    const entry = historyRef.current.future[0];
+    if (!entry) return;
+    setState(prev => applyHistoryEntry(prev, entry, 'REDO'));
+    setHistory(prev => ({ past: [...prev.past, entry], future: prev.future.slice(1) }));
+    showNotification(`Redone: ${entry.label}`);
+  };
+
+  const undoAction = (entryId: string) => ({ label: 'Undo', onClick: () => handleUndo(entryId), historyEntryId: entryId });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const processedKeys = useMemo(() => {
     const keys = new Set<string>();
     state.sponsors.forEach(s => getIdentityKeys(s).forEach(k => keys.add(k)));
@@ -118,82 +381,413 @@ const App: React.FC = () => {
     return Array.from(keys);
   }, [state.sponsors, state.vault]);
 
-  const startDiscoveryAgent = useCallback(async (description: string, location: string, radius: string, depth: 'STANDARD' | 'DEEP', coords?: {latitude: number, longitude: number}) => {
+  /**
+   * Run the discovery agent; `append` continues the current session instead of starting a new one
+   */
+  const runDiscovery = useCallback(async (search: DiscoverySearch, append: boolean) => {
+    const { description, location, radius, depth, coords, forceRefresh = false, targetCount } = search;
+
+    if (depth === 'DEEP') {
+      const budget = state.automationSettings.usageBudget;
+      const { provider, model } = resolveTask('DISCOVERY');
+      const batches = Math.ceil((targetCount || DISCOVERY_BATCH_SIZE.DEEP) / DISCOVERY_BATCH_SIZE.DEEP);
+      const overBudget = checkBudget(state.usageLedger, budget, batches * estimateDeepScanCost(provider.id, model, budget, isApolloConfigured()));
+      if (overBudget) {
+        if (budget.enforcement === 'BLOCK') {
+          showNotification(`Deep Scan blocked. ${overBudget}`);
+          return;
+        }
+        if (!window.confirm(`${overBudget}\n\nRun the Deep Scan anyway?`)) return;
+      }
+    }
+
+    const controller = new AbortController();
+    discoveryAbortRef.current = controller;
+
+    // "Find more" skips everything already on screen, on the board and in the vault
+    const baseLeads = append ? state.currentDiscoveryLeads : [];
+    const excludeKeys = new Set<string>(append ? processedKeys : []);
+    baseLeads.forEach(lead => getIdentityKeys(lead).forEach(key => excludeKeys.add(key)));
+    const sessionId = append && search.sessionId ? search.sessionId : `sess_${Date.now()}`;
+    lastSearchRef.current = { ...search, forceRefresh: false, sessionId };
+
+    const withLeadIds = (leads: DiscoveredLead[]) => leads.map(r => ({
+      ...r,
+      id: r.id || `prospect_${Math.random().toString(36).substr(2, 9)}`
+    }));
+
+    // Leads already streamed in keep their on-screen version (it may have been verified meanwhile)
+    const addLeads = (leads: DiscoveredLead[]) => setState(prev => {
+      const shown = new Set(prev.currentDiscoveryLeads.map(l => l.id));
+      return { ...prev, currentDiscoveryLeads: [...prev.currentDiscoveryLeads, ...leads.filter(l => !shown.has(l.id))] };
+    });
+
+    const recordSession = (history: DiscoverySession[], leads: DiscoveredLead[]): DiscoverySession[] => {
+      if (history.some(s => s.id === sessionId)) {
+        return history.map(s => s.id === sessionId ? { ...s, leads: [...s.leads, ...leads] } : s);
+      }
+      const session: DiscoverySession = { id: sessionId, query: description, location, radius, depth, date: new Date().toISOString(), leads: [...baseLeads, ...leads] };
+      return [session, ...history].slice(0, 15);
+    };
+
+    // Each progress message becomes the task phase and a line in the extraction console
+    const logProgress = (message: string) => setState(prev => prev.activeTask.status === 'SEARCHING'
+      ? {
+          ...prev,
+          activeTask: {
+            ...prev.activeTask,
+            phase: message,
+            log: [...(prev.activeTask.log || []), { at: new Date().toISOString(), message }].slice(-12)
+          }
+        }
+      : prev);
+
+    const handleProgress = (event: DiscoveryProgress) => {
+      logProgress(describeDiscoveryProgress(event));
+      if (event.type === 'LEAD_READY') addLeads(withLeadIds([event.lead]));
+      if (event.type === 'BATCH') addLeads(withLeadIds(event.leads));
+    };
+
+    const initialPhase = append
+      ? `Searching for more prospects near ${location}...`
+      : `Initiating ${depth === 'DEEP' ? 'deep' : 'standard'} scan on ${location}...`;
     setState(prev => ({
       ...prev,
-      activeTask: { status: 'SEARCHING', phase: 'Initializing Agent...', query: description, location }
+      currentDiscoveryLeads: append ? prev.currentDiscoveryLeads : [],
+      activeTask: { status: 'SEARCHING', phase: initialPhase, query: description, location, log: [{ at: new Date().toISOString(), message: initialPhase }] }
     }));
 
-    try {
-      let results;
-
-      // Use Deep Scan with Apollo enrichment if depth is DEEP
-      if (depth === 'DEEP') {
-        const { discoverProspectsDeepScan } = await import('./lib/gemini');
-        results = await discoverProspectsDeepScan(
-          description,
-          location,
-          { whoWeAre: state.senderProfile.orgName, role: state.senderProfile.role || 'Agent', targetGoal: state.senderProfile.goal },
-          radius,
-          coords
-        );
-      } else {
-        results = await discoverProspects(
-          description,
-          location,
-          { whoWeAre: state.senderProfile.orgName, role: state.senderProfile.role || 'Agent', targetGoal: state.senderProfile.goal },
-          radius,
-          depth,
-          coords
-        );
+    // Surface retries in the task phase and count enrichment calls that were dropped;
+    // retries are not failures, and a 404 is Apollo's normal "organization not found"
+    let failedEnrichments = 0;
+    const unsubscribe = subscribeToRequestEvents(event => {
+      if (event.type === 'FAILED') {
+        if (event.provider === 'APOLLO' && event.error.status !== 404) failedEnrichments++;
+        return;
       }
+      logProgress(`${event.label}: retrying (${event.attempt}/${event.maxAttempts})`);
+    });
 
-      const leadsWithIds = results.map((r: any) => ({
-        ...r,
-        id: r.id || `prospect_${Math.random().toString(36).substr(2, 9)}`
-      }));
-
-      const newSession: DiscoverySession = {
-        id: `sess_${Date.now()}`,
-        query: description,
+    try {
+      const results = await discoverProspectsBatched(
+        description,
         location,
+        { whoWeAre: state.senderProfile.orgName, role: state.senderProfile.role || 'Agent', targetGoal: state.senderProfile.goal },
         radius,
         depth,
-        date: new Date().toISOString(),
-        leads: leadsWithIds
-      };
+        coords,
+        {
+          signal: controller.signal,
+          onProgress: handleProgress,
+          forceRefresh,
+          targetCount,
+          excludeKeys,
+          excludeNames: baseLeads.map(lead => lead.companyName),
+        }
+      );
 
+      const leadsWithIds = withLeadIds(results);
+      addLeads(leadsWithIds);
       setState(prev => ({
         ...prev,
-        currentDiscoveryLeads: leadsWithIds,
-        discoveryHistory: [newSession, ...prev.discoveryHistory].slice(0, 15),
+        discoveryHistory: recordSession(prev.discoveryHistory, leadsWithIds),
         activeTask: { status: 'COMPLETED', phase: 'Extraction Complete' }
       }));
 
-      showNotification(`Agent found ${leadsWithIds.length} leads.${depth === 'DEEP' ? ' (Apollo enriched)' : ''}`);
+      const enrichmentNote = depth !== 'DEEP' ? '' : failedEnrichments > 0 ? ` (${failedEnrichments} Apollo lookups failed)` : ' (Apollo enriched)';
+      showNotification(append && leadsWithIds.length === 0
+        ? 'No new leads found for this search.'
+        : `Agent found ${leadsWithIds.length} ${append ? 'more ' : ''}leads.${enrichmentNote}`);
     } catch (error) {
+      if (error instanceof DiscoveryCancelledError) {
+        // Keep whatever finished before the abort
+        const kept = withLeadIds(error.leads);
+        setState(prev => {
+          const keepIds = new Set([...baseLeads, ...kept].map(l => l.id));
+          const shown = prev.currentDiscoveryLeads.filter(l => keepIds.has(l.id));
+          const shownIds = new Set(shown.map(l => l.id));
+          return {
+            ...prev,
+            currentDiscoveryLeads: [...shown, ...kept.filter(l => !shownIds.has(l.id))],
+            discoveryHistory: kept.length > 0 ? recordSession(prev.discoveryHistory, kept) : prev.discoveryHistory,
+            activeTask: { status: 'CANCELLED', phase: kept.length > 0 ? `Cancelled — kept ${kept.length} completed leads` : 'Cancelled', query: description, location }
+          };
+        });
+        showNotification(kept.length > 0 ? `Discovery cancelled. Kept ${kept.length} leads.` : 'Discovery cancelled.');
+        return;
+      }
       console.error(error);
-      setState(prev => ({ ...prev, activeTask: { status: 'ERROR', phase: 'Agent encountered an error' } }));
+      const phase = error instanceof LlmResponseError || error instanceof RequestError ? error.message : 'Agent encountered an error';
+      setState(prev => ({ ...prev, activeTask: { status: 'ERROR', phase } }));
+    } finally {
+      unsubscribe();
+      if (discoveryAbortRef.current === controller) discoveryAbortRef.current = null;
     }
-  }, [state.senderProfile]);
+  }, [state.senderProfile, state.usageLedger, state.automationSettings.usageBudget, state.currentDiscoveryLeads, processedKeys]);
+
+  const startDiscoveryAgent = useCallback((description: string, location: string, radius: string, depth: 'STANDARD' | 'DEEP', coords?: {latitude: number, longitude: number}, forceRefresh: boolean = false, targetCount?: number) => {
+    runDiscovery({ description, location, radius, depth, coords, forceRefresh, targetCount }, false);
+  }, [runDiscovery]);
+
+  /**
+   * Continue the current search, excluding every lead already found
+   */
+  const findMoreProspects = useCallback((targetCount?: number) => {
+    const session = state.discoveryHistory[0];
+    const search = lastSearchRef.current
+      ?? (session && { description: session.query, location: session.location, radius: session.radius, depth: session.depth, sessionId: session.id });
+    if (!search) return;
+    runDiscovery({ ...search, targetCount }, true);
+  }, [runDiscovery, state.discoveryHistory]);
+
+  const cancelDiscoveryAgent = useCallback(() => {
+    discoveryAbortRef.current?.abort();
+  }, []);
+
+  /**
+   * Run one scheduled job in the background: writes a session and announces only leads new to the job
+   */
+  const runScheduledJob = async (job: DiscoveryJob) => {
+    const { automationSettings, usageLedger, senderProfile } = stateRef.current;
+    const startedAt = new Date().toISOString();
+    const finishJob = (result: NonNullable<DiscoveryJob['lastResult']>, leads: DiscoveredLead[] = []) => setState(prev => ({
+      ...prev,
+      discoveryJobs: prev.discoveryJobs.map(j => j.id === job.id ? recordJobRun(j, result, leads, startedAt) : j)
+    }));
+
+    // Background runs cannot ask for confirmation, so any budget overrun skips the run
+    if (job.depth === 'DEEP') {
+      const budget = automationSettings.usageBudget;
+      const { provider, model } = resolveTask('DISCOVERY');
+      const overBudget = checkBudget(usageLedger, budget, estimateDeepScanCost(provider.id, model, budget, isApolloConfigured()));
+      if (overBudget) {
+        console.warn(`⚠️ Scheduler: Skipped "${job.name}": ${overBudget}`);
+        finishJob({ status: 'SKIPPED', message: overBudget, newLeads: 0 });
+        return;
+      }
+    }
+
+    // Claim the run up front so other open tabs do not start it too
+    setState(prev => ({
+      ...prev,
+      discoveryJobs: prev.discoveryJobs.map(j => j.id === job.id ? { ...j, lastRunAt: startedAt } : j)
+    }));
+    console.log(`⏰ Scheduler: Running "${job.name}"`);
+
+    try {
+      const leads = await discoverProspectsBatched(
+        job.description,
+        job.location,
+        { whoWeAre: senderProfile.orgName, role: senderProfile.role || 'Agent', targetGoal: senderProfile.goal },
+        job.radius,
+        job.depth,
+        undefined,
+        // Every run sends the same prompt, so a cached response would never contain new leads
+        { forceRefresh: true }
+      );
+      const fresh = findNewLeads(job, leads);
+      const session: DiscoverySession = {
+        id: `sess_${Date.now()}`,
+        query: job.description,
+        location: job.location,
+        radius: job.radius,
+        depth: job.depth,
+        date: startedAt,
+        leads,
+        jobId: job.id
+      };
+      setState(prev => ({ ...prev, discoveryHistory: [session, ...prev.discoveryHistory].slice(0, 15) }));
+      finishJob({ status: 'OK', message: `${leads.length} leads, ${fresh.length} new`, newLeads: fresh.length }, leads);
+
+      if (fresh.length > 0) {
+        const names = fresh.slice(0, 3).map(l => l.companyName).join(', ');
+        showNotification(`"${job.name}" found ${fresh.length} new lead${fresh.length === 1 ? '' : 's'}: ${names}${fresh.length > 3 ? '…' : ''}`);
+      }
+    } catch (error) {
+      console.error(`Scheduled discovery "${job.name}" failed:`, error);
+      finishJob({ status: 'ERROR', message: error instanceof Error ? error.message : 'Scheduled discovery failed', newLeads: 0 });
+    }
+  };
+
+  // Run due scheduled jobs on launch (catching up on runs missed while closed) and while the app is open
+  useEffect(() => {
+    if (!isHydrated || !state.automationSettings.autoSignalRefresh) return;
+
+    const runDueJobs = async () => {
+      // One job at a time, and never alongside a manual search
+      if (scheduledRunRef.current || discoveryAbortRef.current) return;
+      const due = findDueJobs(stateRef.current.discoveryJobs, stateRef.current.automationSettings);
+      if (due.length === 0) return;
+
+      scheduledRunRef.current = true;
+      try {
+        for (const job of due) await runScheduledJob(job);
+      } finally {
+        scheduledRunRef.current = false;
+      }
+    };
+
+    runDueJobs();
+    const timer = setInterval(runDueJobs, SCHEDULER_TICK_MS);
+    return () => clearInterval(timer);
+  }, [isHydrated, state.automationSettings.autoSignalRefresh]);
 
+  /**
+   * Re-check one sponsor's website and store the outcome, noting which alerts were not raised before
+   */
+  const runSponsorRecheck = async (sponsor: Sponsor) => {
+    const checkedAt = new Date().toISOString();
+    const check = await recheckSponsor(sponsor);
+    if (!check) return { alerts: [], fresh: [], inconclusive: false };
+
+    setState(prev => ({
+      ...prev,
+      sponsors: prev.sponsors.map(s => s.id === sponsor.id ? applyRecheck(s, check, checkedAt).sponsor : s)
+    }));
+    const { alerts, inconclusive } = applyRecheck(sponsor, check, checkedAt);
+    return { alerts, inconclusive, fresh: inconclusive ? [] : findNewAlerts(sponsor.dataAlerts, alerts) };
+  };
+
+  // Re-check board sponsors whose contact data is older than the configured interval
+  useEffect(() => {
+    if (!isHydrated || !state.automationSettings.autoSignalRefresh) return;
+
+    const recheckDueSponsors = async () => {
+      if (sponsorRecheckRef.current) return;
+      const due = findSponsorsDueForRecheck(stateRef.current.sponsors, stateRef.current.automationSettings);
+      if (due.length === 0) return;
+
+      sponsorRecheckRef.current = true;
+      const changed: string[] = [];
+      try {
+        for (const sponsor of due) {
+          const { fresh } = await runSponsorRecheck(sponsor);
+          if (fresh.length > 0) changed.push(sponsor.companyName);
+        }
+      } catch (error) {
+        console.error('Sponsor re-check failed:', error);
+      } finally {
+        sponsorRecheckRef.current = false;
+      }
+
+      if (changed.length > 0) {
+        showNotification(`Contact data changed for ${changed.slice(0, 3).join(', ')}${changed.length > 3 ? '…' : ''}`);
+      }
+    };
+
+    recheckDueSponsors();
+    const timer = setInterval(recheckDueSponsors, SCHEDULER_TICK_MS);
+    return () => clearInterval(timer);
+  }, [isHydrated, state.automationSettings.autoSignalRefresh]);
+
+  const handleRecheckSponsor = async (sponsorId: string) => {
+    const sponsor = stateRef.current.sponsors.find(s => s.id === sponsorId);
+    if (!sponsor) return;
+    try {
+      const { alerts, inconclusive } = await runSponsorRecheck(sponsor);
+      if (inconclusive) {
+        showNotification(`Could not reach ${sponsor.companyName}'s website. Try again later.`);
+        return;
+      }
+      showNotification(alerts.length === 0
+        ? `${sponsor.companyName}: contact data still matches the website.`
+        : `${sponsor.companyName}: ${alerts.length} data change${alerts.length === 1 ? '' : 's'} found.`);
+    } catch (error) {
+      console.error('Sponsor re-check failed:', error);
+      showNotification('Re-check failed. Please try again.');
+    }
+  };
+
+  /**
+   * Create a deal; reuses the sponsor when the company is already known (new season / new package)
+   */
   const handleAddSponsor = (sponsorData: Omit<Sponsor, 'id'>, dealData: Omit<Deal, 'id' | 'sponsorId'>) => {
-    const sponsorId = `sp_${Date.now()}`;
-    const dealId = `dl_${Date.now()}`;
+    const stamp = Date.now();
+    const dealId = `dl_${stamp}`;
+    const existing = findExistingSponsor(state.sponsors, sponsorData);
     
-    setState(prev => ({
+    runCommand(`Add ${sponsorData.companyName}`, prev => {
+      const match = findExistingSponsor(prev.sponsors, sponsorData);
+      const sponsorId = match?.id ?? `sp_${stamp}`;
+      return {
+        ...prev,
+        sponsors: match
+          ? prev.sponsors.map(s => s.id === match.id ? mergeSponsorDetails(s, sponsorData) : s)
+          : [...prev.sponsors, { ...sponsorData, id: sponsorId }],
+        deals: [...prev.deals, { ...dealData, id: dealId, sponsorId, currentSequenceStep: 1 }],
+        activities: [
+          ...prev.activities, 
+          { id: `act_${stamp}`, dealId, type: 'NOTE', content: 'Lead incorporated', date: new Date().toISOString() }
+        ],
+      };
+    });
+    showNotification(existing ? `New deal added to ${existing.companyName}` : `${sponsorData.companyName} Added to Board`);
+  };
+
+  const handleCreateRenewal = (dealId: string) => {
+    const source = state.deals.find(d => d.id === dealId);
+    if (!source) return;
+    const stamp = Date.now();
+    const renewal: Deal = { ...buildRenewalDeal(source), id: `dl_${stamp}` };
+
+    const commandId = runCommand(`Create ${dealLabel(renewal)} renewal`, prev => ({
       ...prev,
-      sponsors: [...prev.sponsors, { ...sponsorData, id: sponsorId }],
-      deals: [...prev.deals, { ...dealData, id: dealId, sponsorId, currentSequenceStep: 1 }],
+      deals: [...prev.deals, renewal],
       activities: [
-        ...prev.activities, 
-        { id: `act_${Date.now()}`, dealId, type: 'NOTE', content: 'Lead incorporated', date: new Date().toISOString() }
+        ...prev.activities,
+        { id: `act_${stamp}`, dealId: renewal.id, type: 'NOTE', content: `Renewal created from ${dealLabel(source)}`, date: new Date().toISOString() }
       ],
     }));
-    showNotification(`${sponsorData.companyName} Added to Board`);
+    setSelectedDealId(renewal.id);
+    showNotification(`${dealLabel(renewal)} renewal created`, undoAction(commandId));
+  };
+
+  const handleImportSponsors = (rows: ImportRow[]) => {
+    const stamp = Date.now();
+    const now = new Date().toISOString();
+    const sponsors: Sponsor[] = [];
+    const deals: Deal[] = [];
+    const activities: Activity[] = [];
+    const reused = new Set<string>();
+
+    rows.forEach((row, idx) => {
+      const existing = findExistingSponsor([...state.sponsors, ...sponsors], row.sponsor);
+      const sponsorId = existing?.id ?? `sp_${stamp}_${idx}`;
+      const dealId = `dl_${stamp}_${idx}`;
+      if (existing) reused.add(existing.id);
+      else sponsors.push({ ...row.sponsor, id: sponsorId });
+      deals.push({ ...row.deal, id: dealId, sponsorId, currentSequenceStep: 1 });
+      activities.push({ id: `act_${stamp}_${idx}`, dealId, type: 'NOTE', content: 'Lead incorporated', date: now });
+    });
+
+    runCommand(`Import ${rows.length} sponsor${rows.length === 1 ? '' : 's'}`, prev => ({
+      ...prev,
+      sponsors: [...prev.sponsors.map(s => reused.has(s.id) && s.archivedAt ? { ...s, archivedAt: undefined } : s), ...sponsors],
+      deals: [...prev.deals, ...deals],
+      activities: [...prev.activities, ...activities],
+    }));
+    showNotification(`${rows.length} Sponsor${rows.length === 1 ? '' : 's'} Imported to Board`);
   };
 
+  /**
+   * Write an accepted verifier correction onto sponsors incorporated from that lead
+   */
+  const applyCorrectionToBoard = useCallback((leadId: string, correction: FieldCorrection) => {
+    setState(prev => {
+      const sponsorIds = new Set(prev.deals.filter(d => d.forensicDossier?.sourceLeadId === leadId).map(d => d.sponsorId));
+      if (sponsorIds.size === 0) return prev;
+      return {
+        ...prev,
+        sponsors: prev.sponsors.map(s => sponsorIds.has(s.id) ? acceptCorrection(s, correction) : s)
+      };
+    });
+  }, []);
+
   const syncForensicDossierFromLead = useCallback((updatedLead: DiscoveredLead) => {
+    // Most verified leads were never added to the board; there is nothing to sync or announce
+    const linkedDeals = stateRef.current.deals.filter(deal => deal.forensicDossier?.sourceLeadId === updatedLead.id).length;
+    if (linkedDeals === 0) return;
+
     setState(prev => {
       const updatedDeals = prev.deals.map(deal => {
         if (deal.forensicDossier?.sourceLeadId !== updatedLead.id) {
@@ -218,7 +812,8 @@ const App: React.FC = () => {
         const associatedDeal = updatedDeals.find(d => d.sponsorId === sponsor.id && d.forensicDossier?.sourceLeadId === updatedLead.id);
         if (!associatedDeal) return sponsor;
 
-        return {
+        // Website-backed phone, address and staff follow the same rules as on the lead
+        return applyWebsiteContacts({
           ...sponsor,
           website: updatedLead.website || sponsor.website,
           email: updatedLead.email || sponsor.email,
@@ -226,7 +821,7 @@ const App: React.FC = () => {
             ...sponsor.socialLinks,
             ...updatedLead.socialLinks
           }
-        };
+        }, websiteContactsOf(updatedLead));
       });
 
       return {
@@ -235,14 +830,14 @@ const App: React.FC = () => {
         sponsors: updatedSponsors
       };
     });
-    showNotification(`Forensic sync complete for ${updatedLead.companyName}`);
+    showNotification(`Forensic sync updated ${linkedDeals} deal${linkedDeals === 1 ? '' : 's'} for ${updatedLead.companyName}`);
   }, []);
 
   const handleUpdateDeal = useCallback(async (dealId: string, updates: Partial<Deal>) => {
     const currentDeal = state.deals.find(d => d.id === dealId);
     if (!currentDeal) return;
 
-    setState(prev => ({
+    runCommand('Update deal', prev => ({
       ...prev,
       deals: prev.deals.map(d => d.id === dealId ? { ...d, ...updates } : d)
     }));
@@ -276,7 +871,7 @@ const App: React.FC = () => {
 
   const handleAddPersona = (persona: Omit<Persona, 'id'>) => {
     const newPersona = { ...persona, id: `persona_${Date.now()}` };
-    setState(prev => ({
+    runCommand(`Save persona "${persona.name}"`, prev => ({
       ...prev,
       personas: [...prev.personas, newPersona]
     }));
@@ -284,10 +879,11 @@ const App: React.FC = () => {
   };
 
   const handleRemovePersona = (id: string) => {
-    setState(prev => ({
+    const commandId = runCommand('Remove persona', prev => ({
       ...prev,
       personas: prev.personas.filter(p => p.id !== id)
     }));
+    showNotification('Persona removed', undoAction(commandId));
   };
 
   const handleUpdateSenderProfile = (updates: Partial<SenderProfile>) => {
@@ -297,6 +893,26 @@ const App: React.FC = () => {
     }));
   };
 
+  const handleScheduleSearch = (input: DiscoveryJobInput) => {
+    const job = createDiscoveryJob(input);
+    setState(prev => ({ ...prev, discoveryJobs: [...prev.discoveryJobs, job] }));
+    showNotification(state.automationSettings.autoSignalRefresh
+      ? `Scheduled "${job.name}" (${state.automationSettings.agentFrequency.toLowerCase()})`
+      : `Saved "${job.name}". Enable Auto-Signal Refresh to run it on schedule.`);
+  };
+
+  const handleUpdateJob = (id: string, updates: Partial<DiscoveryJob>) => {
+    setState(prev => ({
+      ...prev,
+      discoveryJobs: prev.discoveryJobs.map(j => j.id === id ? { ...j, ...updates } : j)
+    }));
+  };
+
+  const handleRemoveJob = (id: string) => {
+    setState(prev => ({ ...prev, discoveryJobs: prev.discoveryJobs.filter(j => j.id !== id) }));
+    showNotification('Scheduled search removed');
+  };
+
   const handleUpdateAutomation = (settings: Partial<AutomationSettings>) => {
     setState(prev => ({
       ...prev,
@@ -305,57 +921,128 @@ const App: React.FC = () => {
     showNotification('Gateway Configuration Updated');
   };
 
+  const handleImportWorkspace = (mode: ImportMode, archive: ParsedArchive) => {
+    if (mode === 'REPLACE') {
+      setState(prev => {
+        const next = { ...createInitialState(), ...archive.state, activeTask: prev.activeTask };
+        return { ...next, automationSettings: restoreSecrets(next.automationSettings, prev.automationSettings) };
+      });
+      setHistory(EMPTY_HISTORY);
+      showNotification('Workspace replaced from archive');
+      return;
+    }
+
+    const { activeTask, ...current } = state;
+    const { state: merged, stats } = mergeWorkspaces(current, archive.state);
+    runCommand('Merge archive', prev => ({ ...merged, activeTask: prev.activeTask }));
+    showNotification(`Archive merged: ${stats.added} added, ${stats.duplicates} duplicates skipped`);
+  };
+
   const handleLogActivity = (dealId: string, type: 'EMAIL' | 'DM' | 'CALL' | 'NOTE', content: string) => {
-    setState(prev => ({
+    runCommand('Log activity', prev => ({
       ...prev,
       activities: [...prev.activities, { id: `act_${Date.now()}`, dealId, type, content, date: new Date().toISOString() }]
     }));
   };
 
   const handleUpdateStage = (dealId: string, newStage: PipelineStage) => {
-    setState(prev => ({
+    runCommand(`Move deal to ${STAGE_LABELS[newStage]}`, prev => ({
       ...prev,
       deals: prev.deals.map(d => d.id === dealId ? { ...d, stage: newStage } : d)
     }));
   };
 
   const handleUpdateSponsor = (sponsorId: string, updates: Partial<Sponsor>) => {
-    setState(prev => ({
+    runCommand('Update sponsor', prev => ({
       ...prev,
       sponsors: prev.sponsors.map(s => s.id === sponsorId ? { ...s, ...updates } : s)
     }));
   };
 
-  const handleRemoveDeal = (dealId: string) => {
-    setState(prev => {
-      const deal = prev.deals.find(d => d.id === dealId);
-      if (!deal) return prev;
-      return {
-        ...prev,
-        deals: prev.deals.filter(d => d.id !== dealId),
-        sponsors: prev.sponsors.filter(s => s.id !== deal.sponsorId),
-        activities: prev.activities.filter(a => a.dealId !== dealId)
-      };
-    });
+  const handleArchiveDeal = (dealId: string) => {
+    const commandId = runCommand('Archive deal', prev => archiveDeal(prev, dealId));
     setSelectedDealId(null);
-    showNotification('Deal archived.');
+    showNotification('Deal archived.', undoAction(commandId));
+  };
+
+  const handleRestoreDeal = (dealId: string) => {
+    const commandId = runCommand('Restore deal', prev => restoreDeal(prev, dealId));
+    showNotification('Deal restored to board.', undoAction(commandId));
+  };
+
+  /**
+   * Change the retention window; a shorter one purges what it expires only after confirmation
+   */
+  const handleUpdateRetention = (days: number) => {
+    const expired = findExpiredDeals(state.deals, days);
+    if (expired.length > 0 && !window.confirm(`This permanently deletes ${expired.length} archived deal${expired.length === 1 ? '' : 's'} older than ${days} days. Continue?`)) return;
+
+    const updateRetention = (prev: AppState) => {
+      const next = { ...prev, automationSettings: { ...prev.automationSettings, archiveRetentionDays: days } };
+      return expired.length > 0 ? purgeDeals(next, expired) : next;
+    };
+    const commandId = expired.length > 0 ? runCommand(`Purge ${expired.length} expired deal${expired.length === 1 ? '' : 's'}`, updateRetention) : null;
+    if (!commandId) setState(updateRetention);
+    showNotification(commandId ? `Retention updated; ${expired.length} deal${expired.length === 1 ? '' : 's'} deleted.` : 'Retention updated.', commandId ? undoAction(commandId) : undefined);
+  };
+
+  const handlePurgeDeal = (dealId: string) => {
+    const commandId = runCommand('Delete deal permanently', prev => purgeDeals(prev, [dealId]));
+    showNotification('Deal permanently deleted.', undoAction(commandId));
+  };
+
+  const handleMergeDuplicates = (cluster: DuplicateCluster, primaryId: string, choices: MergeChoices) => {
+    const noun = cluster.kind === 'SPONSOR' ? 'sponsors' : cluster.kind === 'DEAL' ? 'deals' : 'leads';
+    const commandId = runCommand(`Merge ${cluster.recordIds.length} ${noun}`, prev => mergeCluster(prev, cluster, primaryId, choices));
+    showNotification(`Merged ${cluster.recordIds.length} ${noun}.`, undoAction(commandId));
   };
 
   const selectedDeal = useMemo(() => state.deals.find(d => d.id === selectedDealId), [state.deals, selectedDealId]);
   const selectedSponsor = useMemo(() => selectedDeal ? state.sponsors.find(s => s.id === selectedDeal.sponsorId) : null, [selectedDeal, state.sponsors]);
   const dealActivities = useMemo(() => state.activities.filter(a => a.dealId === selectedDealId), [state.activities, selectedDealId]);
 
+  if (!isHydrated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-[var(--page-bg)] text-[var(--text-main)]">
+        <div className="flex items-center gap-4">
+          <div className="w-2 h-2 rounded-full bg-[#2563EB] animate-pulse"></div>
+          <span className="text-[11px] font-black uppercase tracking-[0.3em] text-slate-400">Loading Workspace...</span>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex flex-col bg-[var(--page-bg)] text-[var(--text-main)] transition-colors duration-300">
       {notification && (
         <div className="fixed top-8 left-1/2 -translate-x-1/2 z-[100] animate-in slide-in-from-top-4">
           <div className="bg-slate-900 dark:bg-slate-800 text-white px-8 py-3.5 rounded-2xl shadow-2xl flex items-center gap-4 border border-white/10">
             <div className="w-2 h-2 rounded-full bg-[#2563EB] animate-pulse"></div>
-            <span className="text-[11px] font-black uppercase tracking-[0.2em]">{notification}</span>
+            <span className="text-[11px] font-black uppercase tracking-[0.2em]">{notification.message}</span>
+            {notification.action && (
+              <button
+                onClick={notification.action.onClick}
+                className="ml-2 px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-[10px] font-black uppercase tracking-widest text-blue-300 transition-all"
+              >
+                {notification.action.label}
+              </button>
+            )}
           </div>
         </div>
       )}
 
+      {persistenceError && (
+        <div className="bg-red-600 text-white px-10 py-3 flex items-center justify-between gap-6">
+          <span className="text-[10px] font-black uppercase tracking-widest">{persistenceError}</span>
+          <button
+            onClick={() => setPersistenceError(null)}
+            className="px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-[10px] font-black uppercase tracking-widest transition-all"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
       <header className="border-b border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 sticky top-0 z-40 px-10 py-5 flex items-center justify-between shadow-sm transition-colors duration-300">
         <div className="flex items-center gap-10">
           <div className="flex items-center gap-3.5 group cursor-pointer" onClick={() => setActiveTab('extract')}>
@@ -371,7 +1058,10 @@ const App: React.FC = () => {
               { id: 'board', label: 'Pipeline' },
               { id: 'insights', label: 'Insights' },
               { id: 'flows', label: 'Flows' },
-              { id: 'storage', label: 'Vault' }
+              { id: 'storage', label: 'Vault' },
+              { id: 'sponsors', label: 'Sponsors' },
+              { id: 'duplicates', label: 'Duplicates' },
+              { id: 'archive', label: 'Archive' }
             ].map((tab) => (
               <button
                 key={tab.id}
@@ -387,6 +1077,25 @@ const App: React.FC = () => {
         </div>
 
         <div className="flex items-center gap-4">
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => handleUndo()}
+              disabled={history.past.length === 0}
+              title={history.past.length ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+              className="p-2.5 rounded-xl text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M3 10h10a5 5 0 010 10h-3M3 10l5-5M3 10l5 5"/></svg>
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={history.future.length === 0}
+              title={history.future.length ? `Redo ${history.future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              className="p-2.5 rounded-xl text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M21 10H11a5 5 0 000 10h3m7-10l-5-5m5 5l-5 5"/></svg>
+            </button>
+          </div>
+
           <button 
             onClick={toggleTheme} 
             className="p-2.5 rounded-xl border border-slate-200 dark:border-slate-800 text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800 transition-all shadow-sm"
@@ -411,7 +1120,11 @@ const App: React.FC = () => {
         {activeTab === 'extract' && (
           <DiscoveryTab 
             currentLeads={state.currentDiscoveryLeads}
-            onUpdateLeads={(leads) => setState(prev => ({ ...prev, currentDiscoveryLeads: leads }))}
+            scoring={state.automationSettings.scoring}
+            onUpdateLead={(leadId, update) => setState(prev => ({
+              ...prev,
+              currentDiscoveryLeads: prev.currentDiscoveryLeads.map(l => l.id === leadId ? update(l) : l)
+            }))}
             onAddAsLead={(lead) => {
               const forensicDossier: ForensicDossier = {
                 sourceLeadId: lead.id,
@@ -431,6 +1144,10 @@ const App: React.FC = () => {
                   website: lead.website,
                   socialLinks: lead.socialLinks,
                   address: lead.address,
+                  phoneField: lead.phoneField,
+                  addressField: lead.addressField,
+                  websiteStaff: lead.websiteStaff,
+                  openingHours: lead.openingHours,
                   latestSignal: lead.latestSignal,
                   primarySignalSource: 'Discovery Agent'
                 },
@@ -444,14 +1161,20 @@ const App: React.FC = () => {
                 }
               );
             }}
-            onSaveToVault={(lead) => setState(prev => ({ ...prev, vault: [...prev.vault, { ...lead, savedAt: new Date().toISOString() }] }))}
+            onSaveToVault={(lead) => {
+              runCommand(`Save ${lead.companyName} to vault`, prev => ({ ...prev, vault: [...prev.vault, { ...lead, savedAt: new Date().toISOString() }] }));
+            }}
             onStartSearch={startDiscoveryAgent}
+            onFindMore={findMoreProspects}
+            onCancelSearch={cancelDiscoveryAgent}
             activeTask={state.activeTask}
             history={state.discoveryHistory}
             onClearSession={() => setState(prev => ({ ...prev, currentDiscoveryLeads: [], activeTask: { status: 'IDLE', phase: '' } }))}
             processedIds={processedKeys}
             onLeadVerified={syncForensicDossierFromLead}
+            onCorrectionAccepted={applyCorrectionToBoard}
             personas={state.personas}
+            onScheduleSearch={handleScheduleSearch}
             onSavePersona={handleAddPersona}
             onRemovePersona={handleRemovePersona}
             onShowNotification={showNotification}
@@ -501,14 +1224,17 @@ const App: React.FC = () => {
         )}
 
         {activeTab === 'board' && (
-          <PipelineBoard state={state} onUpdateStage={handleUpdateStage} onSelectDeal={setSelectedDealId} />
+          <PipelineBoard state={state} onUpdateStage={handleUpdateStage} onSelectDeal={setSelectedDealId} onImportCsv={() => setIsImportingCsv(true)} />
         )}
 
         {activeTab === 'insights' && (
           <Dashboard 
             state={state} 
             onUpdateAutomation={handleUpdateAutomation} 
+            onUpdateJob={handleUpdateJob}
+            onRemoveJob={handleRemoveJob}
             onNavigateToFlows={() => setActiveTab('flows')} 
+            onImportWorkspace={handleImportWorkspace}
           />
         )}
 
@@ -521,46 +1247,43 @@ const App: React.FC = () => {
         )}
 
         {activeTab === 'storage' && (
-          <div className="space-y-12 animate-fade-in max-w-[1400px] mx-auto">
-             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-               {state.vault.map(v => (
-                 <div key={v.id} className="bg-white dark:bg-slate-900 p-10 rounded-[2.5rem] border border-slate-100 dark:border-slate-800 shadow-sm flex flex-col justify-between group transition-colors">
-                    <div>
-                      <div className="flex justify-between items-start mb-6">
-                        <h4 className="text-3xl font-black text-slate-900 dark:text-white brand-font uppercase tracking-tight">{v.companyName}</h4>
-                        <span className="text-[10px] font-black text-slate-300 dark:text-slate-600 uppercase tracking-widest">Saved {new Date(v.savedAt || '').toLocaleDateString()}</span>
-                      </div>
-                      <p className="text-sm font-medium text-slate-600 dark:text-slate-400 leading-relaxed mb-8">{v.matchReasoning}</p>
-                    </div>
-                    <div className="flex gap-4">
-                      <button 
-                        onClick={() => {
-                          setState(prev => ({ ...prev, vault: prev.vault.filter(item => item.id !== v.id) }));
-                          handleAddSponsor(
-                            { companyName: v.companyName, contactName: '', email: v.email || '', industry: 'From Vault', website: v.website, socialLinks: v.socialLinks, address: v.address, latestSignal: v.latestSignal, primarySignalSource: 'Vault' },
-                            { stage: PipelineStage.DISCOVERY, amount: 1000, tier: 'Vault Prospect', notes: 'Pulled from cold vault.', currentSequenceStep: 1 }
-                          );
-                        }}
-                        className="flex-grow py-4 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-blue-700 transition-all shadow-lg shadow-blue-500/10"
-                      >
-                        Push to Board
-                      </button>
-                      <button 
-                        onClick={() => setState(prev => ({ ...prev, vault: prev.vault.filter(item => item.id !== v.id) }))}
-                        className="px-8 py-4 bg-slate-50 dark:bg-slate-800 text-red-500 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-red-50 dark:hover:bg-red-900/20 transition-all"
-                      >
-                        Delete
-                      </button>
-                    </div>
-                 </div>
-               ))}
-               {state.vault.length === 0 && (
-                 <div className="col-span-full py-40 text-center opacity-20">
-                    <p className="text-[12px] font-black uppercase tracking-[0.5em]">The Vault is currently empty.</p>
-                 </div>
-               )}
-             </div>
-          </div>
+          <VaultTab
+            vault={state.vault}
+            scoring={state.automationSettings.scoring}
+            onPushToBoard={(v) => {
+              setState(prev => ({ ...prev, vault: prev.vault.filter(item => item.id !== v.id) }));
+              handleAddSponsor(
+                { companyName: v.companyName, contactName: '', email: v.email || '', industry: 'From Vault', website: v.website, socialLinks: v.socialLinks, address: v.address, latestSignal: v.latestSignal, primarySignalSource: 'Vault' },
+                { stage: PipelineStage.DISCOVERY, amount: 1000, tier: 'Vault Prospect', notes: 'Pulled from cold vault.', currentSequenceStep: 1 }
+              );
+              recordCommand(`Push ${v.companyName} to board`);
+            }}
+            onDelete={(id) => {
+              const commandId = runCommand('Delete vault lead', prev => ({ ...prev, vault: prev.vault.filter(item => item.id !== id) }));
+              showNotification('Vault lead deleted.', undoAction(commandId));
+            }}
+          />
+        )}
+
+        {activeTab === 'sponsors' && (
+          <SponsorsView
+            state={state}
+            onSelectDeal={setSelectedDealId}
+            onCreateRenewal={handleCreateRenewal}
+          />
+        )}
+
+        {activeTab === 'duplicates' && (
+          <DuplicatesView state={state} onMerge={handleMergeDuplicates} />
+        )}
+
+        {activeTab === 'archive' && (
+          <ArchiveTab
+            state={state}
+            onRestore={handleRestoreDeal}
+            onPurge={handlePurgeDeal}
+            onUpdateRetention={handleUpdateRetention}
+          />
         )}
       </main>
 
@@ -568,6 +1291,15 @@ const App: React.FC = () => {
         <SponsorForm onSave={handleAddSponsor} onClose={() => setIsAddingSponsor(false)} />
       )}
 
+      {isImportingCsv && (
+        <CsvImportWizard
+          sponsors={state.sponsors}
+          vault={state.vault}
+          onImport={handleImportSponsors}
+          onClose={() => setIsImportingCsv(false)}
+        />
+      )}
+
       {selectedDeal && selectedSponsor && (
         <DealDetail 
           deal={selectedDeal}
@@ -578,7 +1310,11 @@ const App: React.FC = () => {
           onLogActivity={handleLogActivity}
           onUpdateSponsor={handleUpdateSponsor}
           onUpdateDeal={handleUpdateDeal}
-          onRemoveDeal={handleRemoveDeal}
+          onArchiveDeal={handleArchiveDeal}
+          sponsorDeals={state.deals.filter(d => d.sponsorId === selectedDeal.sponsorId && d.id !== selectedDeal.id)}
+          onSelectDeal={setSelectedDealId}
+          onCreateRenewal={handleCreateRenewal}
+          onRecheckSponsor={handleRecheckSponsor}
           automationSettings={state.automationSettings}
           senderProfile={state.senderProfile}
         />
@@ -586,7 +1322,7 @@ const App: React.FC = () => {
 
       {isFocusMode && (
         <FocusMode 
-          deals={state.deals.filter(d => d.stage === PipelineStage.DISCOVERY || d.stage === PipelineStage.OUTREACH_STARTED)}
+          deals={activeDeals(state.deals).filter(d => d.stage === PipelineStage.DISCOVERY || d.stage === PipelineStage.OUTREACH_STARTED)}
           sponsors={state.sponsors}
           senderProfile={state.senderProfile}
           onLogActivity={handleLogActivity}
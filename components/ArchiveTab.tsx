@@ -0,0 +1,92 @@
+import React from 'react';
+import { AppState } from '../types';
+import { STAGE_LABELS, STAGE_COLORS } from '../constants';
+import { RETENTION_OPTIONS, daysUntilPurge } from '../lib/retention';
+
+interface ArchiveTabProps {
+  state: AppState;
+  onRestore: (dealId: string) => void;
+  onPurge: (dealId: string) => void;
+  onUpdateRetention: (days: number) => void;
+}
+
+const ArchiveTab: React.FC<ArchiveTabProps> = ({ state, onRestore, onPurge, onUpdateRetention }) => {
+  const retentionDays = state.automationSettings.archiveRetentionDays;
+  const archivedDeals = state.deals
+    .filter(d => d.archivedAt)
+    .sort((a, b) => (b.archivedAt || '').localeCompare(a.archivedAt || ''));
+
+  return (
+    <div className="space-y-10 animate-fade-in max-w-[1400px] mx-auto">
+      <div className="flex flex-wrap items-end justify-between gap-6">
+        <div>
+          <h2 className="text-4xl font-black text-slate-900 dark:text-white brand-font tracking-tight uppercase leading-none">Archive</h2>
+          <p className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.4em] mt-3">Lost & Paused Sponsorships</p>
+        </div>
+        <label className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest text-slate-500">
+          Purge After
+          <select
+            value={retentionDays}
+            onChange={(e) => onUpdateRetention(Number(e.target.value))}
+            className="px-4 py-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 outline-none focus:border-blue-600"
+          >
+            {RETENTION_OPTIONS.map(days => (
+              <option key={days} value={days}>{days === 0 ? 'Never' : `${days} Days`}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {archivedDeals.map(deal => {
+          const sponsor = state.sponsors.find(s => s.id === deal.sponsorId);
+          const activityCount = state.activities.filter(a => a.dealId === deal.id).length;
+          const remaining = daysUntilPurge(deal, retentionDays);
+
+          return (
+            <div key={deal.id} className="bg-white dark:bg-slate-900 p-10 rounded-[2.5rem] border border-slate-100 dark:border-slate-800 shadow-sm flex flex-col justify-between transition-colors">
+              <div>
+                <div className="flex justify-between items-start mb-4">
+                  <span className={`text-[8px] font-black uppercase tracking-widest px-2 py-1 rounded ${STAGE_COLORS[deal.stage]}`}>
+                    {STAGE_LABELS[deal.stage]}
+                  </span>
+                  <span className="text-[10px] font-black text-slate-300 dark:text-slate-600 uppercase tracking-widest">
+                    Archived {new Date(deal.archivedAt || '').toLocaleDateString()}
+                  </span>
+                </div>
+                <h4 className="text-3xl font-black text-slate-900 dark:text-white brand-font uppercase tracking-tight mb-2">{sponsor?.companyName || 'Unknown Entity'}</h4>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-8">
+                  ${deal.amount.toLocaleString()} • {deal.tier} • {activityCount} activit{activityCount === 1 ? 'y' : 'ies'}
+                  {remaining !== null && <span className="text-orange-500"> • Purged in {remaining}d</span>}
+                </p>
+              </div>
+              <div className="flex gap-4">
+                <button
+                  onClick={() => onRestore(deal.id)}
+                  className="flex-grow py-4 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-blue-700 transition-all shadow-lg shadow-blue-500/10"
+                >
+                  Restore to Board
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Permanently delete ${sponsor?.companyName || 'this deal'} and its history?`)) onPurge(deal.id);
+                  }}
+                  className="px-8 py-4 bg-slate-50 dark:bg-slate-800 text-red-500 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-red-50 dark:hover:bg-red-900/20 transition-all"
+                >
+                  Delete Forever
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        {archivedDeals.length === 0 && (
+          <div className="col-span-full py-40 text-center opacity-20">
+            <p className="text-[12px] font-black uppercase tracking-[0.5em]">No archived deals.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ArchiveTab;
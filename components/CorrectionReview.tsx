@@ -0,0 +1,59 @@
+import React from 'react';
+import { FieldCorrection } from '../types';
+import { CORRECTION_FIELD_LABELS } from '../lib/verification';
+
+interface CorrectionReviewProps {
+  corrections: FieldCorrection[];
+  onAccept: (correction: FieldCorrection) => void;
+  onReject: (correction: FieldCorrection) => void;
+}
+
+const CorrectionReview: React.FC<CorrectionReviewProps> = ({ corrections, onAccept, onReject }) => (
+  <div className="space-y-3">
+    <div className="grid grid-cols-[7rem_1fr_1fr_auto] gap-4 px-4 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+      <span>Field</span>
+      <span>Claimed</span>
+      <span>Verified</span>
+      {corrections.length > 1 ? (
+        <button onClick={() => corrections.forEach(onAccept)} className="text-emerald-600 dark:text-emerald-400 hover:underline uppercase">
+          Accept all
+        </button>
+      ) : <span />}
+    </div>
+    {corrections.map(correction => (
+      <div key={correction.field} className="grid grid-cols-[7rem_1fr_1fr_auto] gap-4 items-center p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl border border-slate-100 dark:border-slate-800">
+        <span className="text-[10px] font-black text-slate-900 dark:text-white uppercase">{CORRECTION_FIELD_LABELS[correction.field]}</span>
+        <span className="text-[11px] font-bold text-slate-400 line-through break-all">
+          {correction.from || <span className="italic no-underline">empty</span>}
+        </span>
+        <div className="min-w-0">
+          <p className="text-[11px] font-bold text-emerald-600 dark:text-emerald-400 break-all">{correction.to}</p>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+            {correction.evidence.source.replace(/_/g, ' ')} · {Math.round(correction.evidence.confidence * 100)}%
+            {correction.evidence.sourceUrl && (
+              <a href={correction.evidence.sourceUrl} target="_blank" rel="noopener noreferrer" className="ml-2 text-blue-600 dark:text-blue-400 hover:underline">
+                Source
+              </a>
+            )}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onAccept(correction)}
+            className="px-3 py-2 bg-emerald-600 text-white rounded-lg text-[9px] font-black uppercase tracking-widest hover:bg-emerald-700 transition-all active:scale-95"
+          >
+            Accept
+          </button>
+          <button
+            onClick={() => onReject(correction)}
+            className="px-3 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-slate-500 rounded-lg text-[9px] font-black uppercase tracking-widest hover:text-red-500 transition-all active:scale-95"
+          >
+            Reject
+          </button>
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+export default CorrectionReview;
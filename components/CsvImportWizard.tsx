@@ -0,0 +1,224 @@
+import React, { useState, useMemo } from 'react';
+import { Sponsor, DiscoveredLead } from '../types';
+import { STAGE_LABELS } from '../constants';
+import { parseCsv } from '../lib/csv';
+import { IMPORT_FIELDS, ColumnMapping, ImportRow, guessColumnMapping, buildImportRows } from '../lib/csv-import';
+
+interface CsvImportWizardProps {
+  sponsors: Sponsor[];
+  vault: DiscoveredLead[];
+  onImport: (rows: ImportRow[]) => void;
+  onClose: () => void;
+}
+
+type WizardStep = 'UPLOAD' | 'MAP' | 'PREVIEW';
+
+const COLLISION_LABELS = {
+  SPONSOR: 'On board',
+  VAULT: 'In vault',
+  FILE: 'Repeated in file',
+};
+
+const CsvImportWizard: React.FC<CsvImportWizardProps> = ({ sponsors, vault, onImport, onClose }) => {
+  const [step, setStep] = useState<WizardStep>('UPLOAD');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [skipCollisions, setSkipCollisions] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const previewRows = useMemo(
+    () => (mapping && step === 'PREVIEW' ? buildImportRows(dataRows, mapping, { sponsors, vault }) : []),
+    [dataRows, mapping, step, sponsors, vault]
+  );
+
+  const importable = previewRows.filter(r => r.errors.length === 0 && !(skipCollisions && r.collision));
+  const invalidCount = previewRows.filter(r => r.errors.length > 0).length;
+  const collisionCount = previewRows.filter(r => r.collision).length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setError(null);
+
+    try {
+      const [headerRow, ...rows] = parseCsv(await file.text());
+      if (!headerRow || rows.length === 0) {
+        setError('The file needs a header row and at least one data row.');
+        return;
+      }
+      setHeaders(headerRow.map(h => h.trim()));
+      setDataRows(rows);
+      setMapping(guessColumnMapping(headerRow));
+      setStep('MAP');
+    } catch (err) {
+      console.error('CSV import error:', err);
+      setError('Could not read CSV file.');
+    }
+  };
+
+  const handleConfirm = () => {
+    if (importable.length === 0) return;
+    onImport(importable);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[100] flex items-center justify-center p-6 animate-fade-in">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-4xl rounded-[2.5rem] p-10 shadow-2xl space-y-8 border border-slate-100 dark:border-slate-800 transition-colors max-h-[90vh] overflow-y-auto custom-scrollbar">
+        <div className="flex justify-between items-start">
+          <div>
+            <h4 className="text-2xl font-black text-slate-900 dark:text-white brand-font uppercase tracking-tight">CSV Import</h4>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-2">
+              {step === 'UPLOAD' ? 'Step 1 • Select File' : step === 'MAP' ? `Step 2 • Map Columns • ${fileName}` : `Step 3 • Review ${dataRows.length} Rows`}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-300 dark:text-slate-600 hover:text-slate-900 dark:hover:text-white transition-all">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"></path></svg>
+          </button>
+        </div>
+
+        {step === 'UPLOAD' && (
+          <div className="p-6 bg-slate-50 dark:bg-slate-800/50 rounded-2xl space-y-4">
+            <p className="text-[9px] text-slate-400 font-bold uppercase">
+              First row must contain column names. Stages accept board labels (e.g. "{STAGE_LABELS.NEGOTIATION}").
+            </p>
+            <label className="block w-full py-4 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-2xl text-[10px] font-black uppercase tracking-widest text-center text-slate-600 dark:text-slate-300 hover:border-blue-600 transition-all cursor-pointer">
+              Choose CSV File
+              <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+            </label>
+            {error && (
+              <p className="text-[10px] font-black uppercase tracking-widest text-red-500">{error}</p>
+            )}
+          </div>
+        )}
+
+        {step === 'MAP' && mapping && (
+          <div className="space-y-6 animate-fade-in">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map(field => (
+                <div key={field.key} className="flex items-center justify-between gap-4 px-4 py-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl">
+                  <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-400">
+                    {field.label}{field.required && <span className="text-red-500"> *</span>}
+                    <span className="ml-2 text-slate-300 dark:text-slate-600">{field.target === 'DEAL' ? 'Deal' : 'Sponsor'}</span>
+                  </span>
+                  <select
+                    value={mapping[field.key]}
+                    onChange={(e) => setMapping({ ...mapping, [field.key]: Number(e.target.value) })}
+                    className="w-44 px-3 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-[10px] font-bold text-slate-900 dark:text-white outline-none focus:border-blue-600"
+                  >
+                    <option value={-1}>— Skip —</option>
+                    {headers.map((h, idx) => (
+                      <option key={idx} value={idx}>{h || `Column ${idx + 1}`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-4">
+              <button
+                onClick={() => setStep('UPLOAD')}
+                className="px-8 py-4 bg-slate-50 dark:bg-slate-800 text-slate-500 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all"
+              >
+                Back
+              </button>
+              <button
+                onClick={() => setStep('PREVIEW')}
+                disabled={mapping.companyName < 0}
+                className="flex-grow py-4 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-blue-700 transition-all shadow-lg shadow-blue-500/10 active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {mapping.companyName < 0 ? 'Map Company Name to Continue' : 'Preview Rows'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'PREVIEW' && (
+          <div className="space-y-6 animate-fade-in">
+            <div className="grid grid-cols-3 gap-2">
+              <div className="flex justify-between px-3 py-2 bg-slate-50 dark:bg-slate-800/50 rounded-lg">
+                <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Ready</span>
+                <span className="text-[10px] font-black text-emerald-600">{importable.length}</span>
+              </div>
+              <div className="flex justify-between px-3 py-2 bg-slate-50 dark:bg-slate-800/50 rounded-lg">
+                <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Duplicates</span>
+                <span className="text-[10px] font-black text-orange-500">{collisionCount}</span>
+              </div>
+              <div className="flex justify-between px-3 py-2 bg-slate-50 dark:bg-slate-800/50 rounded-lg">
+                <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Invalid</span>
+                <span className="text-[10px] font-black text-red-500">{invalidCount}</span>
+              </div>
+            </div>
+
+            <div className="border border-slate-100 dark:border-slate-800 rounded-2xl max-h-[40vh] overflow-y-auto custom-scrollbar">
+              <table className="w-full text-left">
+                <thead className="sticky top-0 bg-white dark:bg-slate-900">
+                  <tr className="text-[8px] font-black uppercase tracking-widest text-slate-400">
+                    <th className="px-4 py-3">#</th>
+                    <th className="px-4 py-3">Company</th>
+                    <th className="px-4 py-3">Contact</th>
+                    <th className="px-4 py-3">Stage</th>
+                    <th className="px-4 py-3">Amount</th>
+                    <th className="px-4 py-3">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {previewRows.map(row => {
+                    const skipped = row.errors.length > 0 || (skipCollisions && !!row.collision);
+                    return (
+                      <tr key={row.rowNumber} className={`border-t border-slate-50 dark:border-slate-800 text-[10px] font-bold ${skipped ? 'opacity-50' : ''}`}>
+                        <td className="px-4 py-3 text-slate-300">{row.rowNumber}</td>
+                        <td className="px-4 py-3 text-slate-900 dark:text-white uppercase">{row.sponsor.companyName || '—'}</td>
+                        <td className="px-4 py-3 text-slate-500">{row.sponsor.contactName || row.sponsor.email || '—'}</td>
+                        <td className="px-4 py-3 text-slate-500">{STAGE_LABELS[row.deal.stage]}</td>
+                        <td className="px-4 py-3 text-slate-500">${row.deal.amount.toLocaleString()}</td>
+                        <td className="px-4 py-3">
+                          {row.errors.length > 0 ? (
+                            <span className="text-red-500">{row.errors.join('; ')}</span>
+                          ) : row.collision ? (
+                            <span className="text-orange-500">{COLLISION_LABELS[row.collision.kind]}: {row.collision.name}</span>
+                          ) : (
+                            <span className="text-emerald-600">New</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {collisionCount > 0 && (
+              <label className="flex items-center gap-3 text-[9px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+                <input type="checkbox" checked={skipCollisions} onChange={(e) => setSkipCollisions(e.target.checked)} className="accent-blue-600" />
+                Skip rows flagged as duplicates
+              </label>
+            )}
+
+            <div className="flex gap-4">
+              <button
+                onClick={() => setStep('MAP')}
+                className="px-8 py-4 bg-slate-50 dark:bg-slate-800 text-slate-500 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={importable.length === 0}
+                className="flex-grow py-4 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Import {importable.length} Sponsor{importable.length === 1 ? '' : 's'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportWizard;
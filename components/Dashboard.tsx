@@ -1,24 +1,47 @@
 import React, { useState } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { AppState, PipelineStage, AutomationSettings } from '../types';
+import { AppState, PipelineStage, AutomationSettings, LlmTask, LlmTaskSetting, DiscoveryJob, ScoreComponentId, ScoringSettings } from '../types';
 import { STAGE_LABELS } from '../constants';
+import { ParsedArchive, ImportMode } from '../lib/archive';
+import { activeDeals } from '../lib/retention';
+import { LLM_TASKS, LLM_PROVIDERS, DEFAULT_MODELS, DEFAULT_LLM_SETTINGS } from '../lib/llm';
+import { DEFAULT_SCORING_SETTINGS, SCORE_COMPONENT_LABELS } from '../lib/scoring';
+import WorkspaceArchive from './WorkspaceArchive';
+import UsagePanel from './UsagePanel';
+import DiscoveryJobList from './DiscoveryJobList';
 
 interface DashboardProps {
   state: AppState;
   onUpdateAutomation?: (settings: Partial<AutomationSettings>) => void;
   onNavigateToFlows?: () => void;
+  onImportWorkspace?: (mode: ImportMode, archive: ParsedArchive) => void;
+  onUpdateJob?: (id: string, updates: Partial<DiscoveryJob>) => void;
+  onRemoveJob?: (id: string) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ state, onUpdateAutomation, onNavigateToFlows }) => {
-  const [configTarget, setConfigTarget] = useState<'N8N' | 'AGENT' | 'APOLLO' | null>(null);
+const Dashboard: React.FC<DashboardProps> = ({ state, onUpdateAutomation, onNavigateToFlows, onImportWorkspace, onUpdateJob, onRemoveJob }) => {
+  const [configTarget, setConfigTarget] = useState<'N8N' | 'AGENT' | 'APOLLO' | 'LLM' | 'SCORING' | 'ARCHIVE' | null>(null);
   const isDark = state.theme === 'dark';
+  const llm = state.automationSettings?.llm || DEFAULT_LLM_SETTINGS;
+  const llmProviders = Array.from(new Set(LLM_TASKS.map(({ task }) => llm.tasks[task].provider)));
+  const usesOpenAi = llmProviders.includes('OPENAI');
+  const scoring = state.automationSettings?.scoring || DEFAULT_SCORING_SETTINGS;
+
+  const updateScoring = (updates: Partial<ScoringSettings>) => {
+    onUpdateAutomation?.({ scoring: { ...scoring, ...updates } });
+  };
+
+  const updateLlmTask = (task: LlmTask, updates: Partial<LlmTaskSetting>) => {
+    onUpdateAutomation?.({ llm: { ...llm, tasks: { ...llm.tasks, [task]: { ...llm.tasks[task], ...updates } } } });
+  };
   
-  const pipelineValue = state.deals.reduce((acc, deal) => acc + deal.amount, 0);
-  const signedDeals = state.deals.filter(d => d.stage === PipelineStage.SIGNED || d.stage === PipelineStage.ACTIVE);
+  const deals = activeDeals(state.deals);
+  const pipelineValue = deals.reduce((acc, deal) => acc + deal.amount, 0);
+  const signedDeals = deals.filter(d => d.stage === PipelineStage.SIGNED || d.stage === PipelineStage.ACTIVE);
   const totalRevenue = signedDeals.reduce((acc, deal) => acc + deal.amount, 0);
   
   const stageData = Object.values(PipelineStage).map(stage => {
-    const value = state.deals
+    const value = deals
       .filter(d => d.stage === stage)
       .reduce((acc, d) => acc + d.amount, 0);
     return { name: STAGE_LABELS[stage], value };
@@ -113,6 +136,38 @@ const Dashboard: React.FC<DashboardProps> = ({ state, onUpdateAutomation, onNavi
               <svg className="w-4 h-4 text-slate-600 group-hover/node:text-white transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M9 5l7 7-7 7"/></svg>
             </div>
 
+            {/* LLM Providers Node */}
+            <div 
+              onClick={() => setConfigTarget('LLM')}
+              className="p-6 bg-white/5 border border-white/10 rounded-3xl flex items-center justify-between group/node hover:bg-white/10 hover:border-white/20 transition-all cursor-pointer"
+            >
+              <div className="flex items-center gap-5">
+                <div className="w-12 h-12 rounded-2xl bg-purple-500/20 text-purple-400 flex items-center justify-center font-black text-xs shadow-inner">AI</div>
+                <div>
+                  <p className="text-[12px] font-black uppercase tracking-widest mb-0.5">AI Providers</p>
+                  <p className="text-[9px] font-bold text-slate-500 uppercase">
+                    {llmProviders.length === 1 ? LLM_PROVIDERS.find(p => p.id === llmProviders[0])?.label : 'Mixed Providers'}
+                  </p>
+                </div>
+              </div>
+              <svg className="w-4 h-4 text-slate-600 group-hover/node:text-white transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M9 5l7 7-7 7"/></svg>
+            </div>
+
+            {/* Lead Scoring Node */}
+            <div 
+              onClick={() => setConfigTarget('SCORING')}
+              className="p-6 bg-white/5 border border-white/10 rounded-3xl flex items-center justify-between group/node hover:bg-white/10 hover:border-white/20 transition-all cursor-pointer"
+            >
+              <div className="flex items-center gap-5">
+                <div className="w-12 h-12 rounded-2xl bg-amber-500/20 text-amber-400 flex items-center justify-center font-black text-xs shadow-inner">%</div>
+                <div>
+                  <p className="text-[12px] font-black uppercase tracking-widest mb-0.5">Lead Scoring</p>
+                  <p className="text-[9px] font-bold text-slate-500 uppercase">Composite Score Weights</p>
+                </div>
+              </div>
+              <svg className="w-4 h-4 text-slate-600 group-hover/node:text-white transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M9 5l7 7-7 7"/></svg>
+            </div>
+
             {/* Agentic Scout Node */}
             <div 
               onClick={() => setConfigTarget('AGENT')}
@@ -125,12 +180,29 @@ const Dashboard: React.FC<DashboardProps> = ({ state, onUpdateAutomation, onNavi
                 <div>
                   <p className="text-[12px] font-black uppercase tracking-widest mb-0.5">Intelligence Agent</p>
                   <p className="text-[9px] font-bold text-slate-500 uppercase">
-                    {state.automationSettings?.autoSignalRefresh ? 'Autonomy: Enabled' : 'Autonomy: Disabled'}
+                    {state.automationSettings?.autoSignalRefresh ? 'Autonomy: Enabled' : 'Autonomy: Disabled'} • {(state.discoveryJobs || []).filter(j => j.enabled).length} Scheduled
                   </p>
                 </div>
               </div>
               <svg className="w-4 h-4 text-slate-600 group-hover/node:text-white transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M9 5l7 7-7 7"/></svg>
             </div>
+
+            {/* Workspace Archive Node */}
+            <div 
+              onClick={() => setConfigTarget('ARCHIVE')}
+              className="p-6 bg-white/5 border border-white/10 rounded-3xl flex items-center justify-between group/node hover:bg-white/10 hover:border-white/20 transition-all cursor-pointer"
+            >
+              <div className="flex items-center gap-5">
+                <div className="w-12 h-12 rounded-2xl bg-emerald-500/20 text-emerald-400 flex items-center justify-center shadow-inner">
+                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12"/></svg>
+                </div>
+                <div>
+                  <p className="text-[12px] font-black uppercase tracking-widest mb-0.5">Workspace Archive</p>
+                  <p className="text-[9px] font-bold text-slate-500 uppercase">Export / Import</p>
+                </div>
+              </div>
+              <svg className="w-4 h-4 text-slate-600 group-hover/node:text-white transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M9 5l7 7-7 7"/></svg>
+            </div>
           </div>
 
           <button className="mt-8 w-full py-5 bg-white text-[#0F172A] rounded-2xl text-[11px] font-black uppercase tracking-[0.4em] hover:bg-blue-50 transition-all shadow-xl active:scale-95">
@@ -139,6 +211,12 @@ const Dashboard: React.FC<DashboardProps> = ({ state, onUpdateAutomation, onNavi
         </div>
       </div>
 
+      <UsagePanel
+        ledger={state.usageLedger || []}
+        budget={state.automationSettings?.usageBudget}
+        onUpdateBudget={(usageBudget) => onUpdateAutomation?.({ usageBudget })}
+      />
+
       {/* Configuration Modals */}
       {configTarget === 'N8N' && (
         <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[100] flex items-center justify-center p-6 animate-fade-in">
@@ -188,6 +266,117 @@ const Dashboard: React.FC<DashboardProps> = ({ state, onUpdateAutomation, onNavi
         </div>
       )}
 
+      {configTarget === 'LLM' && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[100] flex items-center justify-center p-6 animate-fade-in">
+          <div className="bg-white dark:bg-slate-900 w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-[2.5rem] p-10 shadow-2xl space-y-8 border border-slate-100 dark:border-slate-800 transition-colors">
+            <div>
+              <h4 className="text-2xl font-black text-slate-900 dark:text-white brand-font uppercase tracking-tight">AI Providers</h4>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-2">Model Routing Per Task</p>
+            </div>
+            <div className="space-y-3">
+              {LLM_TASKS.map(({ task, label }) => {
+                const setting = llm.tasks[task];
+                return (
+                  <div key={task} className="grid grid-cols-[120px_1fr_1fr] gap-3 items-center">
+                    <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">{label}</label>
+                    <select
+                      value={setting.provider}
+                      onChange={(e) => updateLlmTask(task, { provider: e.target.value as LlmTaskSetting['provider'], model: undefined })}
+                      className="h-12 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 text-[10px] font-black uppercase text-slate-900 dark:text-white outline-none focus:border-blue-600"
+                    >
+                      {LLM_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                    </select>
+                    <input
+                      value={setting.model || ''}
+                      onChange={(e) => updateLlmTask(task, { model: e.target.value || undefined })}
+                      placeholder={DEFAULT_MODELS[setting.provider][task]}
+                      className="h-12 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 text-xs font-bold text-slate-900 dark:text-white outline-none focus:border-blue-600 shadow-inner"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+            {usesOpenAi && (
+              <div className="space-y-4 pt-6 border-t border-slate-100 dark:border-slate-800">
+                <div className="space-y-2">
+                  <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">OpenAI-compatible Base URL</label>
+                  <input
+                    value={llm.openAiBaseUrl}
+                    onChange={(e) => onUpdateAutomation?.({ llm: { ...llm, openAiBaseUrl: e.target.value } })}
+                    placeholder="https://api.openai.com/v1"
+                    className="w-full h-14 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl px-6 text-xs font-bold text-slate-900 dark:text-white outline-none focus:border-blue-600 shadow-inner"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">API Key</label>
+                  <input
+                    type="password"
+                    value={llm.openAiApiKey}
+                    onChange={(e) => onUpdateAutomation?.({ llm: { ...llm, openAiApiKey: e.target.value } })}
+                    placeholder="sk-..."
+                    className="w-full h-14 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl px-6 text-xs font-bold text-slate-900 dark:text-white outline-none focus:border-blue-600 shadow-inner"
+                  />
+                  <p className="text-[8px] font-bold text-slate-500 uppercase mt-1 px-2">Key is stored locally in your browser cache. Web search grounding is Gemini-only.</p>
+                </div>
+              </div>
+            )}
+            <button onClick={() => setConfigTarget(null)} className="w-full py-5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-2xl text-[10px] font-black uppercase tracking-widest">Save Routing</button>
+          </div>
+        </div>
+      )}
+
+      {configTarget === 'SCORING' && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[100] flex items-center justify-center p-6 animate-fade-in">
+          <div className="bg-white dark:bg-slate-900 w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-[2.5rem] p-10 shadow-2xl space-y-8 border border-slate-100 dark:border-slate-800 transition-colors">
+            <div>
+              <h4 className="text-2xl font-black text-slate-900 dark:text-white brand-font uppercase tracking-tight">Lead Scoring</h4>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-2">Relative Weight Per Component</p>
+            </div>
+            <div className="space-y-4">
+              {(Object.keys(SCORE_COMPONENT_LABELS) as ScoreComponentId[]).map(id => (
+                <div key={id} className="grid grid-cols-[160px_1fr_32px] gap-3 items-center">
+                  <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">{SCORE_COMPONENT_LABELS[id]}</label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={50}
+                    value={scoring.weights[id]}
+                    onChange={(e) => updateScoring({ weights: { ...scoring.weights, [id]: Number(e.target.value) } })}
+                    className="accent-blue-600"
+                  />
+                  <span className="text-[10px] font-black text-slate-900 dark:text-white text-right">{scoring.weights[id]}</span>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-4 pt-6 border-t border-slate-100 dark:border-slate-800">
+              <div className="space-y-2">
+                <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Max Distance (mi)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={scoring.maxDistanceMiles}
+                  onChange={(e) => updateScoring({ maxDistanceMiles: Math.max(1, Number(e.target.value) || 1) })}
+                  className="w-full h-12 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 text-xs font-bold text-slate-900 dark:text-white outline-none focus:border-blue-600 shadow-inner"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Preferred Industries</label>
+                <input
+                  value={scoring.preferredIndustries.join(',')}
+                  onChange={(e) => updateScoring({ preferredIndustries: e.target.value.split(',') })}
+                  placeholder="sporting goods, fitness"
+                  className="w-full h-12 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 text-xs font-bold text-slate-900 dark:text-white outline-none focus:border-blue-600 shadow-inner"
+                />
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <button onClick={() => onUpdateAutomation?.({ scoring: DEFAULT_SCORING_SETTINGS })} className="px-6 py-5 border border-slate-200 dark:border-slate-700 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-500">Reset</button>
+              <button onClick={() => setConfigTarget(null)} className="flex-1 py-5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-2xl text-[10px] font-black uppercase tracking-widest">Save Weights</button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {configTarget === 'AGENT' && (
         <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[100] flex items-center justify-center p-6 animate-fade-in">
           <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-[2.5rem] p-10 shadow-2xl space-y-8 border border-slate-100 dark:border-slate-800 transition-colors">
@@ -199,7 +388,7 @@ const Dashboard: React.FC<DashboardProps> = ({ state, onUpdateAutomation, onNavi
               <div className="flex items-center justify-between p-5 bg-slate-50 dark:bg-slate-800/50 rounded-2xl">
                  <div>
                    <p className="text-[11px] font-black uppercase text-slate-900 dark:text-white">Auto-Signal Refresh</p>
-                   <p className="text-[9px] text-slate-400 font-bold uppercase">Perform forensic background scans</p>
+                   <p className="text-[9px] text-slate-400 font-bold uppercase">Run scheduled searches in the background</p>
                  </div>
                  <input 
                   type="checkbox" 
@@ -222,11 +411,41 @@ const Dashboard: React.FC<DashboardProps> = ({ state, onUpdateAutomation, onNavi
                    ))}
                 </div>
               </div>
+              <div className="space-y-3">
+                <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest pl-1">Re-check Board Contacts</label>
+                <select
+                  value={state.automationSettings?.sponsorRecheckDays ?? 0}
+                  onChange={(e) => onUpdateAutomation?.({ sponsorRecheckDays: Number(e.target.value) })}
+                  className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 outline-none focus:border-blue-600"
+                >
+                  {[0, 7, 30, 90].map(days => (
+                    <option key={days} value={days}>{days === 0 ? 'Off' : `Every ${days} days`}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-3">
+                <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest pl-1">Scheduled Searches</label>
+                <DiscoveryJobList
+                  jobs={state.discoveryJobs || []}
+                  personas={state.personas}
+                  settings={state.automationSettings}
+                  onUpdateJob={(id, updates) => onUpdateJob?.(id, updates)}
+                  onRemoveJob={(id) => onRemoveJob?.(id)}
+                />
+              </div>
             </div>
             <button onClick={() => setConfigTarget(null)} className="w-full py-5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-2xl text-[10px] font-black uppercase tracking-widest">Update Autonomy</button>
           </div>
         </div>
       )}
+
+      {configTarget === 'ARCHIVE' && (
+        <WorkspaceArchive
+          state={state}
+          onImport={(mode, archive) => onImportWorkspace?.(mode, archive)}
+          onClose={() => setConfigTarget(null)}
+        />
+      )}
     </div>
   );
 };
@@ -2,6 +2,9 @@ import React, { useState, useEffect } from 'react';
 import { Sponsor, Deal, Activity, PipelineStage, AutomationSettings, SenderProfile } from '../types';
 import { STAGE_COLORS, STAGE_LABELS } from '../constants';
 import { generateOutreachDraft, performDeepSignalSearch, generateOutreachDrafts } from '../lib/gemini';
+import { dealLabel, hasRenewal } from '../lib/renewals';
+import { LlmResponseError } from '../lib/structured-output';
+import { resolveDataAlert } from '../lib/sponsor-recheck';
 
 interface DealDetailProps {
   deal: Deal;
@@ -12,20 +15,28 @@ interface DealDetailProps {
   onLogActivity: (dealId: string, type: 'EMAIL' | 'DM' | 'CALL' | 'NOTE', content: string) => void;
   onUpdateDeal?: (dealId: string, updates: Partial<Deal>) => void;
   onUpdateSponsor?: (sponsorId: string, updates: Partial<Sponsor>) => void;
-  onRemoveDeal?: (dealId: string) => void;
+  onArchiveDeal?: (dealId: string) => void;
+  /** Other deals held by the same sponsor (previous/next seasons) */
+  sponsorDeals?: Deal[];
+  onSelectDeal?: (dealId: string) => void;
+  onCreateRenewal?: (dealId: string) => void;
+  /** Re-fetch the sponsor's website now and refresh its data-decay alerts */
+  onRecheckSponsor?: (sponsorId: string) => Promise<void>;
   automationSettings?: AutomationSettings;
   senderProfile: SenderProfile;
 }
 
 const DealDetail: React.FC<DealDetailProps> = ({ 
-  deal, sponsor, activities, onClose, onUpdateStage, onLogActivity, onUpdateDeal, onUpdateSponsor, onRemoveDeal, automationSettings, senderProfile
+  deal, sponsor, activities, onClose, onUpdateStage, onLogActivity, onUpdateDeal, onUpdateSponsor, onArchiveDeal, sponsorDeals = [], onSelectDeal, onCreateRenewal, onRecheckSponsor, automationSettings, senderProfile
 }) => {
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isRechecking, setIsRechecking] = useState(false);
   const [isGenerating, setIsGenerating] = useState<false | 'EMAIL' | 'IG' | 'LI' | 'X' | 'IQ' | 'VALUE_PROP'>(false);
   const [draftedContent, setDraftedContent] = useState('');
   const [draftPlatform, setDraftPlatform] = useState<'EMAIL' | 'IG' | 'LI' | 'X' | null>(null);
   const [isDeploying, setIsDeploying] = useState(false);
   const [deploymentStatus, setDeploymentStatus] = useState('');
+  const [iqError, setIqError] = useState<string | null>(null);
 
   // Perform IQ State (Synced with local inputs for editing before save)
   const [emailDraft, setEmailDraft] = useState(deal.emailDraft || '');
@@ -33,6 +44,9 @@ const DealDetail: React.FC<DealDetailProps> = ({
   const [nextFollowUp, setNextFollowUp] = useState(deal.nextFollowUp || '');
   const [followUpNote, setFollowUpNote] = useState(deal.followUpNote || '');
   const [valueProp, setValueProp] = useState(deal.valueProp || '');
+  const [season, setSeason] = useState(deal.season || '');
+  const [contractEndDate, setContractEndDate] = useState(deal.contractEndDate || '');
+  const isRenewed = hasRenewal(deal, sponsorDeals);
 
   // Ensure local state updates if deal prop changes (e.g. from global state update)
   useEffect(() => {
@@ -41,7 +55,9 @@ const DealDetail: React.FC<DealDetailProps> = ({
     setNextFollowUp(deal.nextFollowUp || '');
     setFollowUpNote(deal.followUpNote || '');
     setValueProp(deal.valueProp || '');
-  }, [deal.id, deal.emailDraft, deal.dmDraft, deal.nextFollowUp, deal.followUpNote, deal.valueProp]);
+    setSeason(deal.season || '');
+    setContractEndDate(deal.contractEndDate || '');
+  }, [deal.id, deal.emailDraft, deal.dmDraft, deal.nextFollowUp, deal.followUpNote, deal.valueProp, deal.season, deal.contractEndDate]);
 
   const handleDeepRefresh = async () => {
     if (!onUpdateSponsor) return;
@@ -60,11 +76,22 @@ const DealDetail: React.FC<DealDetailProps> = ({
     }
   };
 
+  const handleRecheck = async () => {
+    if (!onRecheckSponsor) return;
+    setIsRechecking(true);
+    try {
+      await onRecheckSponsor(sponsor.id);
+    } finally {
+      setIsRechecking(false);
+    }
+  };
+
   /**
    * PERFORM IQ: Generate strategic multi-channel drafts
    */
   const handleGenerateIQ = async () => {
     setIsGenerating('IQ');
+    setIqError(null);
     const persona = {
       teamName: senderProfile.orgName,
       role: senderProfile.role || "Growth Partner",
@@ -72,20 +99,25 @@ const DealDetail: React.FC<DealDetailProps> = ({
       companyIntel: senderProfile.companyIntel
     };
     
-    const drafts = await generateOutreachDrafts(deal, sponsor, persona);
-    
-    setEmailDraft(drafts.emailDraft);
-    setDmDraft(drafts.dmDraft);
-    
-    if (onUpdateDeal) {
-      onUpdateDeal(deal.id, {
-        emailDraft: drafts.emailDraft,
-        dmDraft: drafts.dmDraft
-      });
+    try {
+      const drafts = await generateOutreachDrafts(deal, sponsor, persona);
+
+      setEmailDraft(drafts.emailDraft);
+      setDmDraft(drafts.dmDraft);
+
+      if (onUpdateDeal) {
+        onUpdateDeal(deal.id, {
+          emailDraft: drafts.emailDraft,
+          dmDraft: drafts.dmDraft
+        });
+      }
+
+      onLogActivity(deal.id, 'NOTE', "Perform IQ: Generated structured outreach drafts.");
+    } catch (error) {
+      setIqError(error instanceof LlmResponseError ? error.message : 'Failed to generate drafts. Please try again.');
+    } finally {
+      setIsGenerating(false);
     }
-    
-    setIsGenerating(false);
-    onLogActivity(deal.id, 'NOTE', "Perform IQ: Generated structured outreach drafts.");
   };
 
   /**
@@ -289,6 +321,57 @@ const DealDetail: React.FC<DealDetailProps> = ({
         </header>
 
         <div className="flex-grow overflow-y-auto p-10 space-y-12 bg-slate-50/20 dark:bg-slate-950/20 custom-scrollbar">
+          {/* Contact Data Check */}
+          {(!!sponsor.dataAlerts?.length || (onRecheckSponsor && sponsor.website)) && (
+            <section className={`p-8 rounded-[2.5rem] border space-y-4 transition-all ${sponsor.dataAlerts?.length ? 'bg-amber-50 dark:bg-amber-900/10 border-amber-200 dark:border-amber-800/40' : 'bg-white dark:bg-slate-800/80 border-slate-200 dark:border-slate-800'}`}>
+              <div className="flex justify-between items-center gap-4">
+                <div>
+                  <h3 className={`text-[10px] font-black uppercase tracking-[0.3em] ${sponsor.dataAlerts?.length ? 'text-amber-600 dark:text-amber-400' : 'text-slate-400'}`}>
+                    {sponsor.dataAlerts?.length ? 'Contact Data Changed' : 'Contact Data Check'}
+                  </h3>
+                  <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+                    {sponsor.contactsCheckedAt ? `Checked ${new Date(sponsor.contactsCheckedAt).toLocaleDateString()}` : 'Never checked'}
+                  </p>
+                </div>
+                {onRecheckSponsor && sponsor.website && (
+                  <button
+                    onClick={handleRecheck}
+                    disabled={isRechecking}
+                    className="px-4 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:border-blue-600 hover:text-blue-600 transition-all disabled:opacity-50"
+                  >
+                    {isRechecking ? 'Checking...' : 'Re-check Now'}
+                  </button>
+                )}
+              </div>
+              {sponsor.dataAlerts?.map(alert => (
+                <div key={`${alert.field}:${alert.kind}`} className="flex items-center justify-between gap-4 p-4 bg-white dark:bg-slate-900 rounded-2xl border border-amber-100 dark:border-amber-900/30">
+                  <div className="min-w-0">
+                    <p className="text-[11px] font-bold text-slate-900 dark:text-white">{alert.message}</p>
+                    <p className="text-[9px] font-bold text-slate-400 break-all mt-1">On file: {alert.stored}</p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    {alert.found && onUpdateSponsor && (
+                      <button
+                        onClick={() => onUpdateSponsor(sponsor.id, resolveDataAlert(sponsor, alert, true))}
+                        className="px-3 py-2 bg-emerald-600 text-white rounded-lg text-[9px] font-black uppercase tracking-widest hover:bg-emerald-700 transition-all"
+                      >
+                        Use New
+                      </button>
+                    )}
+                    {onUpdateSponsor && (
+                      <button
+                        onClick={() => onUpdateSponsor(sponsor.id, resolveDataAlert(sponsor, alert, false))}
+                        className="px-3 py-2 border border-slate-200 dark:border-slate-700 text-slate-500 rounded-lg text-[9px] font-black uppercase tracking-widest hover:text-slate-900 dark:hover:text-white transition-all"
+                      >
+                        Dismiss
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </section>
+          )}
+
           {/* Forensic Dossier (Pro Tier) */}
           {deal.forensicDossier && (
             <section className="bg-slate-900 dark:bg-black p-8 rounded-[2.5rem] text-white border border-white/5 shadow-2xl relative overflow-hidden group">
@@ -389,6 +472,71 @@ const DealDetail: React.FC<DealDetailProps> = ({
             </section>
           )}
 
+          {/* Contract & Seasons */}
+          <section className="bg-white dark:bg-slate-800/80 p-8 rounded-[2.5rem] border border-slate-200 dark:border-slate-800 shadow-lg space-y-6 transition-all">
+            <div className="flex justify-between items-center">
+              <div>
+                <h3 className="text-[11px] font-black text-emerald-600 dark:text-emerald-500 uppercase tracking-[0.3em]">Contract & Seasons</h3>
+                <p className="text-[9px] font-bold text-slate-400 dark:text-slate-500 uppercase mt-1">{dealLabel(deal)} • ${deal.amount.toLocaleString()}</p>
+              </div>
+              {onCreateRenewal && (
+                <button
+                  onClick={() => onCreateRenewal(deal.id)}
+                  disabled={isRenewed}
+                  className="px-5 py-2.5 bg-emerald-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-500/10 active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {isRenewed ? 'Renewal Created' : 'Create Renewal Deal'}
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest pl-1">Season</label>
+                <input
+                  type="text"
+                  value={season}
+                  onChange={(e) => setSeason(e.target.value)}
+                  onBlur={() => season !== (deal.season || '') && onUpdateDeal?.(deal.id, { season: season || undefined })}
+                  placeholder={String(new Date().getFullYear())}
+                  className="w-full h-12 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl px-4 text-xs font-bold text-slate-700 dark:text-slate-300 outline-none focus:border-emerald-500 transition-all"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest pl-1">Contract End</label>
+                <input
+                  type="date"
+                  value={contractEndDate}
+                  onChange={(e) => {
+                    setContractEndDate(e.target.value);
+                    onUpdateDeal?.(deal.id, { contractEndDate: e.target.value || undefined });
+                  }}
+                  className="w-full h-12 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl px-4 text-xs font-bold text-slate-700 dark:text-slate-300 outline-none focus:border-emerald-500 transition-all"
+                />
+              </div>
+            </div>
+
+            {sponsorDeals.length > 0 && (
+              <div className="space-y-2 pt-4 border-t border-slate-100 dark:border-slate-700">
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Other Deals with {sponsor.companyName}</p>
+                {sponsorDeals.map(other => (
+                  <button
+                    key={other.id}
+                    onClick={() => onSelectDeal?.(other.id)}
+                    className="w-full flex items-center justify-between px-4 py-3 bg-slate-50 dark:bg-slate-900/50 rounded-xl border border-slate-100 dark:border-slate-700 hover:border-emerald-500 transition-all"
+                  >
+                    <span className="text-[10px] font-black text-slate-700 dark:text-slate-300 uppercase">
+                      {dealLabel(other)}{other.archivedAt ? ' • Archived' : ''}
+                    </span>
+                    <span className={`text-[8px] font-black uppercase tracking-widest px-2 py-1 rounded ${STAGE_COLORS[other.stage]}`}>
+                      {STAGE_LABELS[other.stage]}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </section>
+
           {/* Perform IQ: Outreach & Follow-up Section */}
           <section className="bg-white dark:bg-slate-800/80 p-8 rounded-[2.5rem] border border-slate-200 dark:border-slate-800 shadow-lg space-y-8 transition-all">
             <div className="flex justify-between items-center">
@@ -410,6 +558,10 @@ const DealDetail: React.FC<DealDetailProps> = ({
               </button>
             </div>
 
+            {iqError && (
+              <p className="px-4 py-3 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/40 rounded-xl text-[10px] font-bold text-red-600 dark:text-red-400">{iqError}</p>
+            )}
+
             <div className="space-y-6">
               <div className="space-y-2">
                 <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest pl-1">Email Master Draft</label>
@@ -618,7 +770,7 @@ const DealDetail: React.FC<DealDetailProps> = ({
             {Object.values(PipelineStage).map(s => <option key={s} value={s}>{STAGE_LABELS[s]}</option>)}
           </select>
           <button 
-            onClick={() => onRemoveDeal && onRemoveDeal(deal.id)}
+            onClick={() => onArchiveDeal && onArchiveDeal(deal.id)}
             className="px-10 h-16 bg-red-50 dark:bg-red-950/20 border border-red-100 dark:border-red-900/30 text-red-600 dark:text-red-400 rounded-2xl text-[11px] font-black uppercase tracking-widest hover:bg-red-600 hover:text-white transition-all shadow-sm active:scale-95"
           >
             Archive
@@ -0,0 +1,66 @@
+import React from 'react';
+import { AutomationSettings, DiscoveryJob, Persona } from '../types';
+import { describeJobSchedule } from '../lib/scheduler';
+
+interface DiscoveryJobListProps {
+  jobs: DiscoveryJob[];
+  personas: Persona[];
+  settings: AutomationSettings;
+  onUpdateJob: (id: string, updates: Partial<DiscoveryJob>) => void;
+  onRemoveJob: (id: string) => void;
+}
+
+const RESULT_STYLES: Record<NonNullable<DiscoveryJob['lastResult']>['status'], string> = {
+  OK: 'text-emerald-600 dark:text-emerald-400',
+  ERROR: 'text-red-600 dark:text-red-400',
+  SKIPPED: 'text-amber-600 dark:text-amber-400',
+};
+
+const DiscoveryJobList: React.FC<DiscoveryJobListProps> = ({ jobs, personas, settings, onUpdateJob, onRemoveJob }) => {
+  if (jobs.length === 0) {
+    return (
+      <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest text-center py-4">
+        No scheduled searches. Use "Schedule" in the Discovery Hub.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2 max-h-64 overflow-y-auto custom-scrollbar">
+      {jobs.map(job => {
+        const persona = personas.find(p => p.id === job.personaId);
+        return (
+          <div key={job.id} className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-[11px] font-black uppercase text-slate-900 dark:text-white truncate">{job.name}</p>
+                <p className="text-[9px] font-bold text-slate-400 uppercase truncate">
+                  {job.depth === 'DEEP' ? 'Deep' : 'Standard'}{persona ? ` • ${persona.name}` : ''} • {describeJobSchedule(job, settings)}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <input
+                  type="checkbox"
+                  checked={job.enabled}
+                  onChange={(e) => onUpdateJob(job.id, { enabled: e.target.checked })}
+                  title={job.enabled ? 'Pause' : 'Resume'}
+                  className="w-5 h-5 accent-blue-600"
+                />
+                <button onClick={() => onRemoveJob(job.id)} className="text-[9px] font-black uppercase text-red-500 hover:underline">
+                  Remove
+                </button>
+              </div>
+            </div>
+            {job.lastResult && job.lastRunAt && (
+              <p className={`text-[9px] font-bold ${RESULT_STYLES[job.lastResult.status]}`} title={job.lastResult.message}>
+                {new Date(job.lastRunAt).toLocaleString()}: <span className="truncate">{job.lastResult.message}</span>
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DiscoveryJobList;
@@ -1,53 +1,86 @@
-import React, { useState, useEffect } from 'react';
-import { DiscoveredLead, DiscoverySession, AgentTask, Persona, SenderProfile } from '../types';
-import { getIdentityKeys, verifyLeadForensically } from '../lib/gemini';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { DiscoveredLead, DiscoverySession, AgentTask, Persona, SenderProfile, ScoringSettings, FieldCorrection } from '../types';
+import { getIdentityKeys, verifyLeadForensically, DISCOVERY_BATCH_SIZE } from '../lib/gemini';
+import { LlmResponseError } from '../lib/structured-output';
+import { LeadFilters, DEFAULT_LEAD_FILTERS, filterLeads, sessionSheet } from '../lib/exports';
+import { downloadSheet, exportFileName, SpreadsheetFormat } from '../lib/spreadsheet';
+import { CACHE_SOURCE_LABELS, describeCacheAge } from '../lib/response-cache';
+import { DiscoveryJobInput } from '../lib/scheduler';
+import { scoreLead, sortByScore } from '../lib/scoring';
+import { CORRECTION_FIELD_LABELS, VerificationSummary, acceptCorrection, applyVerificationResult, rejectCorrection, verifyLeads } from '../lib/verification';
+import CorrectionReview from './CorrectionReview';
+import ScoreBreakdown from './ScoreBreakdown';
 
 interface DiscoveryTabProps {
   currentLeads: DiscoveredLead[];
-  onUpdateLeads: (leads: DiscoveredLead[]) => void;
+  /** Update one lead from its latest state (safe while several verifications run) */
+  onUpdateLead: (leadId: string, update: (lead: DiscoveredLead) => DiscoveredLead) => void;
   onAddAsLead: (lead: DiscoveredLead) => void;
   onSaveToVault: (lead: DiscoveredLead) => void;
-  onStartSearch: (description: string, location: string, radius: string, depth: 'STANDARD' | 'DEEP', coords?: {latitude: number, longitude: number}) => void;
+  onStartSearch: (description: string, location: string, radius: string, depth: 'STANDARD' | 'DEEP', coords?: {latitude: number, longitude: number}, forceRefresh?: boolean, targetCount?: number) => void;
+  /** Continue the current search for more leads, skipping those already found */
+  onFindMore: (targetCount?: number) => void;
+  onCancelSearch: () => void;
+  /** Save the current search as a recurring discovery job */
+  onScheduleSearch: (job: DiscoveryJobInput) => void;
   activeTask: AgentTask;
   history: DiscoverySession[];
   onClearSession: () => void;
   processedIds: string[];
   onLeadVerified?: (lead: DiscoveredLead) => void;
+  /** An accepted verifier correction, to apply to the lead's sponsor on the board */
+  onCorrectionAccepted?: (leadId: string, correction: FieldCorrection) => void;
   personas: Persona[];
   onSavePersona: (persona: Omit<Persona, 'id'>) => void;
   onRemovePersona: (id: string) => void;
   onShowNotification?: (msg: string) => void;
   senderProfile: SenderProfile;
   onUpdateSenderProfile: (updates: Partial<SenderProfile>) => void;
+  scoring: ScoringSettings;
 }
 
 const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
   currentLeads,
-  onUpdateLeads,
+  onUpdateLead,
   onAddAsLead,
   onSaveToVault,
   onStartSearch,
+  onFindMore,
+  onCancelSearch,
+  onScheduleSearch,
   activeTask,
   history,
   onClearSession,
   processedIds,
   onLeadVerified,
+  onCorrectionAccepted,
   personas,
   onSavePersona,
   onRemovePersona,
   onShowNotification,
   senderProfile,
-  onUpdateSenderProfile
+  onUpdateSenderProfile,
+  scoring
 }) => {
   const [description, setDescription] = useState(activeTask.query || '');
   const [location, setLocation] = useState(activeTask.location || '');
   const [radius, setRadius] = useState('25');
   const [depth, setDepth] = useState<'STANDARD' | 'DEEP'>('STANDARD');
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [targetCount, setTargetCount] = useState(0);
+  const [activePersonaId, setActivePersonaId] = useState<string | undefined>(undefined);
+  const rankedLeads = useMemo(() => sortByScore(currentLeads, scoring), [currentLeads, scoring]);
+  const [verifyAllProgress, setVerifyAllProgress] = useState<{ done: number; total: number } | null>(null);
+  const [verificationSummary, setVerificationSummary] = useState<VerificationSummary | null>(null);
+  const verifyAllAbortRef = useRef<AbortController | null>(null);
+  const pendingLeads = currentLeads.filter(l => !l.verificationStatus || l.verificationStatus === 'PENDING');
   const [showHistory, setShowHistory] = useState(false);
-  const [searchLogs, setSearchLogs] = useState<string[]>([]);
+  const [historyFilters, setHistoryFilters] = useState<LeadFilters>(DEFAULT_LEAD_FILTERS);
   const [dnaPreview, setDnaPreview] = useState<string | null>(null);
   const [userCoords, setUserCoords] = useState<{latitude: number, longitude: number} | null>(null);
-  const [selectedProspect, setSelectedProspect] = useState<DiscoveredLead | null>(null);
+  const [selectedProspectId, setSelectedProspectId] = useState<string | null>(null);
+  // Looked up each render so verification and review updates show in the open modal
+  const selectedProspect = currentLeads.find(l => l.id === selectedProspectId) || null;
   const [personaName, setPersonaName] = useState('');
   const [isAnalyzingWebsite, setIsAnalyzingWebsite] = useState(false);
   const [websiteUrl, setWebsiteUrl] = useState(senderProfile.companyWebsite || '');
@@ -77,18 +110,7 @@ const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
   useEffect(() => {
     if (activeTask.query && !description) setDescription(activeTask.query);
     if (activeTask.location && !location) setLocation(activeTask.location);
-    
-    if (activeTask.status === 'SEARCHING') {
-      const sources = ['LinkedIn', 'Google Maps', 'Apollo Hub', 'Instagram', 'Twitter'];
-      setSearchLogs([`[SIGNAL] Initiating forensic scan on ${location}...`]);
-      const interval = setInterval(() => {
-        const source = sources[Math.floor(Math.random() * sources.length)];
-        const action = ['Intercepting', 'Grounding', 'Validating', 'Enriching', 'Mapping'][Math.floor(Math.random() * 5)];
-        setSearchLogs(prev => [...prev, `[${action.toUpperCase()}] ${source} data node...`].slice(-6));
-      }, 1500);
-      return () => clearInterval(interval);
-    }
-  }, [activeTask.status, location]);
+  }, [activeTask.query, activeTask.location]);
 
   const handleBuildDNA = () => {
     const selectedChannels = Object.entries(builder.channels)
@@ -135,6 +157,7 @@ const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
       intent: p.intent,
       channels: p.channels
     });
+    setActivePersonaId(p.id);
     onShowNotification?.(`Loaded Persona: ${p.name}`);
   };
 
@@ -152,25 +175,19 @@ const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
       const { analyzeCompanyWebsite } = await import('../lib/gemini');
       const intel = await analyzeCompanyWebsite(websiteUrl);
 
-      if (intel) {
-        onUpdateSenderProfile({
-          companyWebsite: websiteUrl,
-          companyIntel: intel,
-          intelLastUpdated: new Date().toISOString()
-        });
-
-        if (onShowNotification) {
-          onShowNotification('✅ Company intelligence extracted successfully!');
-        }
-      } else {
-        if (onShowNotification) {
-          onShowNotification('Failed to analyze website. Please try again.');
-        }
+      onUpdateSenderProfile({
+        companyWebsite: websiteUrl,
+        companyIntel: intel,
+        intelLastUpdated: new Date().toISOString()
+      });
+
+      if (onShowNotification) {
+        onShowNotification('✅ Company intelligence extracted successfully!');
       }
     } catch (error) {
       console.error('Website analysis error:', error);
       if (onShowNotification) {
-        onShowNotification('Error analyzing website');
+        onShowNotification(error instanceof LlmResponseError ? error.message : 'Error analyzing website');
       }
     } finally {
       setIsAnalyzingWebsite(false);
@@ -179,7 +196,7 @@ const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onStartSearch(description, location, radius, depth, userCoords || undefined);
+    onStartSearch(description, location, radius, depth, userCoords || undefined, forceRefresh, targetCount || undefined);
   };
 
   const isProcessed = (lead: DiscoveredLead) => {
@@ -197,38 +214,61 @@ const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
     }));
   };
 
-  const handleVerifyLead = async (leadId: string) => {
+  const handleVerifyLead = async (leadId: string, refresh: boolean = forceRefresh) => {
     const lead = currentLeads.find(l => l.id === leadId);
     if (!lead) return;
 
-    onUpdateLeads(currentLeads.map(l => l.id === leadId ? { ...l, verificationStatus: 'VERIFYING' } : l));
+    onUpdateLead(leadId, l => ({ ...l, verificationStatus: 'VERIFYING' }));
 
-    const result = await verifyLeadForensically(lead);
-    
-    if (result) {
-      const updatedLead: DiscoveredLead = { 
-        ...lead, 
-        verificationStatus: result.status, 
-        verificationReasoning: result.reasoning,
-        forensicAuditTrail: result.auditTrail,
-        website: result.correctedData?.website || lead.website,
-        email: result.correctedData?.email || lead.email,
-        socialLinks: {
-          ...lead.socialLinks,
-          ...result.correctedData?.socialLinks
-        }
-      };
-      
-      onUpdateLeads(currentLeads.map(l => l.id === leadId ? updatedLead : l));
-      
-      if (onLeadVerified) {
-        onLeadVerified(updatedLead);
-      }
-    } else {
-      onUpdateLeads(currentLeads.map(l => l.id === leadId ? { ...l, verificationStatus: 'FAILED' } : l));
+    try {
+      const result = await verifyLeadForensically(lead, { forceRefresh: refresh });
+      onUpdateLead(leadId, l => applyVerificationResult(l, result));
+      onLeadVerified?.(applyVerificationResult(lead, result));
+    } catch (error) {
+      // The audit itself failed; restore the previous status so it can be retried
+      onUpdateLead(leadId, l => ({ ...l, verificationStatus: lead.verificationStatus }));
+      onShowNotification?.(error instanceof LlmResponseError ? error.message : 'Verification failed. Please try again.');
     }
   };
 
+  const handleAcceptCorrection = (leadId: string, correction: FieldCorrection) => {
+    onUpdateLead(leadId, l => acceptCorrection(l, correction));
+    onCorrectionAccepted?.(leadId, correction);
+  };
+
+  /**
+   * Queue every pending lead for forensic verification and summarise the corrections
+   */
+  const handleVerifyAll = async () => {
+    const queue = pendingLeads;
+    if (queue.length === 0) return;
+
+    const controller = new AbortController();
+    verifyAllAbortRef.current = controller;
+    setVerificationSummary(null);
+    setVerifyAllProgress({ done: 0, total: queue.length });
+    const finishOne = () => setVerifyAllProgress(prev => prev && { ...prev, done: prev.done + 1 });
+
+    const summary = await verifyLeads(queue, {
+      forceRefresh,
+      signal: controller.signal,
+      onStart: lead => onUpdateLead(lead.id, l => ({ ...l, verificationStatus: 'VERIFYING' })),
+      onVerified: (lead, result) => {
+        onUpdateLead(lead.id, l => applyVerificationResult(l, result));
+        onLeadVerified?.(applyVerificationResult(lead, result));
+        finishOne();
+      },
+      onFailed: lead => {
+        onUpdateLead(lead.id, l => ({ ...l, verificationStatus: lead.verificationStatus }));
+        finishOne();
+      },
+    });
+
+    verifyAllAbortRef.current = null;
+    setVerifyAllProgress(null);
+    setVerificationSummary(summary);
+  };
+
   const getStatusBadge = (status?: string) => {
     switch (status) {
       case 'VERIFIED': return <div className="px-2 py-0.5 bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400 text-[8px] font-black rounded uppercase tracking-widest border border-emerald-200 dark:border-emerald-800">Verified</div>;
@@ -239,6 +279,17 @@ const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
     }
   };
 
+  const getCacheBadge = (lead: DiscoveredLead) => {
+    if (!lead.cacheHits?.length) return null;
+    const details = lead.cacheHits.map(hit => `${CACHE_SOURCE_LABELS[hit.source]} · ${describeCacheAge(hit.cachedAt)}`).join('\n');
+    return <div title={`Served from cache:\n${details}`} className="px-2 py-0.5 bg-amber-50 dark:bg-amber-900/20 text-amber-600 dark:text-amber-400 text-[8px] font-black rounded uppercase tracking-widest border border-amber-200 dark:border-amber-800">Cached</div>;
+  };
+
+  const handleExportSession = (session: DiscoverySession, format: SpreadsheetFormat) => {
+    const leads = filterLeads(session.leads, historyFilters);
+    downloadSheet(sessionSheet(session, leads), format, exportFileName(`session-${session.query}`));
+  };
+
   return (
     <div className="flex flex-col gap-10 animate-fade-in max-w-[1400px] mx-auto pb-40">
       <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-200 dark:border-slate-800 p-10 shadow-soft relative overflow-hidden transition-all">
@@ -265,6 +316,64 @@ const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
           </div>
         </div>
 
+        {/* Discovery Session History */}
+        {showHistory && (
+          <div className="mb-10 p-6 bg-slate-50 dark:bg-slate-800/50 rounded-[2rem] border border-slate-100 dark:border-slate-800 space-y-4 animate-fade-in">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h3 className="text-[11px] font-black text-slate-900 dark:text-white uppercase tracking-[0.3em]">Session History</h3>
+              <div className="flex gap-3">
+                <input
+                  type="text"
+                  value={historyFilters.query}
+                  onChange={(e) => setHistoryFilters({ ...historyFilters, query: e.target.value })}
+                  placeholder="Filter leads..."
+                  className="w-48 px-4 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl text-[10px] font-bold text-slate-900 dark:text-white outline-none focus:border-blue-600"
+                />
+                <select
+                  value={historyFilters.minDnaScore}
+                  onChange={(e) => setHistoryFilters({ ...historyFilters, minDnaScore: Number(e.target.value) })}
+                  className="px-3 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 outline-none focus:border-blue-600"
+                >
+                  {[0, 50, 70, 85].map(score => (
+                    <option key={score} value={score}>{score === 0 ? 'Any DNA Score' : `DNA ≥ ${score}`}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {history.length === 0 ? (
+              <p className="text-[10px] font-black text-slate-300 dark:text-slate-600 uppercase tracking-[0.2em] py-4 text-center">No discovery sessions yet.</p>
+            ) : (
+              <div className="space-y-2 max-h-72 overflow-y-auto custom-scrollbar">
+                {history.map(session => {
+                  const matching = filterLeads(session.leads, historyFilters).length;
+                  return (
+                    <div key={session.id} className="flex items-center justify-between gap-4 px-4 py-3 bg-white dark:bg-slate-900 rounded-xl border border-slate-100 dark:border-slate-800">
+                      <div className="min-w-0">
+                        <p className="text-[11px] font-black text-slate-900 dark:text-white uppercase truncate">{session.query}</p>
+                        <p className="text-[9px] font-bold text-slate-400 uppercase">
+                          {session.location} • {new Date(session.date).toLocaleDateString()} • {matching}/{session.leads.length} leads{session.depth === 'DEEP' ? ' • Deep' : ''}{session.jobId ? ' • Scheduled' : ''}
+                        </p>
+                      </div>
+                      <div className="flex gap-2 flex-shrink-0">
+                        {(['CSV', 'XLSX'] as const).map(format => (
+                          <button
+                            key={format}
+                            onClick={() => handleExportSession(session, format)}
+                            disabled={matching === 0}
+                            className="px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-[9px] font-black uppercase tracking-widest text-slate-500 hover:border-blue-600 hover:text-blue-600 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                          >
+                            {format}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Company Website Intelligence */}
         <div className="mb-10 p-6 bg-gradient-to-br from-purple-50 to-indigo-50 dark:from-purple-950/20 dark:to-indigo-950/20 rounded-[2rem] border border-purple-200 dark:border-purple-800/50 space-y-4">
           <div className="flex items-center justify-between">
@@ -537,39 +646,163 @@ const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
               <p className="text-[9px] font-bold text-slate-400 uppercase tracking-tight pl-1">Use the builder above or write it in your own words.</p>
             </div>
             <textarea required disabled={activeTask.status === 'SEARCHING'} value={description} onChange={e => setDescription(e.target.value)} placeholder="Describe your ideal partner..." className="w-full h-40 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-[2rem] p-8 text-lg font-medium outline-none focus:border-blue-600 transition-all resize-none shadow-inner" />
+            <div className="flex flex-wrap items-center gap-6 pl-1 pt-1">
+              <label className="flex items-center gap-2 text-[9px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest cursor-pointer w-fit">
+                <input type="checkbox" disabled={activeTask.status === 'SEARCHING'} checked={forceRefresh} onChange={e => setForceRefresh(e.target.checked)} className="accent-blue-600" />
+                Force refresh (ignore cached results)
+              </label>
+              <label className="flex items-center gap-2 text-[9px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+                Lead target
+                <select disabled={activeTask.status === 'SEARCHING'} value={targetCount} onChange={e => setTargetCount(Number(e.target.value))} className="bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1 text-[9px] font-black uppercase outline-none cursor-pointer">
+                  <option value={0}>One batch ({DISCOVERY_BATCH_SIZE[depth]})</option>
+                  {[25, 50, 100].map(count => <option key={count} value={count}>{count} leads</option>)}
+                </select>
+              </label>
+            </div>
           </div>
 
           {activeTask.status === 'SEARCHING' && (
             <div className="bg-[#0B1222] rounded-3xl p-6 font-mono text-[10px] text-emerald-500/80 border border-white/5 shadow-2xl space-y-1.5 transition-colors">
-              {searchLogs.map((log, idx) => <p key={idx}><span className="text-slate-500 mr-2">[{new Date().toLocaleTimeString()}]</span> {log}</p>)}
+              {(activeTask.log || []).slice(0, -1).map((entry, idx) => <p key={idx}><span className="text-slate-500 mr-2">[{new Date(entry.at).toLocaleTimeString()}]</span> {entry.message}</p>)}
+              <div className="flex items-center justify-between gap-4 pt-1.5 border-t border-white/5">
+                <p className="text-amber-400/90">{activeTask.phase}</p>
+                <button
+                  type="button"
+                  onClick={onCancelSearch}
+                  className="shrink-0 px-4 py-1.5 rounded-lg border border-red-500/40 text-red-400 font-black uppercase tracking-widest hover:bg-red-500/10 transition-all"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {activeTask.status === 'CANCELLED' && (
+            <div className="px-6 py-4 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl text-[10px] font-bold text-slate-500 dark:text-slate-400">
+              {activeTask.phase}
+            </div>
+          )}
+
+          {activeTask.status === 'ERROR' && (
+            <div className="px-6 py-4 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/40 rounded-2xl text-[10px] font-bold text-red-600 dark:text-red-400">
+              {activeTask.phase}
             </div>
           )}
 
-          <button type="submit" disabled={activeTask.status === 'SEARCHING'} className="w-full h-14 bg-blue-600 text-white rounded-2xl text-[11px] font-black uppercase tracking-[0.4em] shadow-lg hover:shadow-blue-600/30 transition-all flex items-center justify-center gap-4 active:scale-95">
-            {activeTask.status === 'SEARCHING' ? 'Forensic Scan in Progress...' : 'Start Discovery Agent'}
-          </button>
+          <div className="flex gap-4">
+            <button type="submit" disabled={activeTask.status === 'SEARCHING'} className="flex-1 h-14 bg-blue-600 text-white rounded-2xl text-[11px] font-black uppercase tracking-[0.4em] shadow-lg hover:shadow-blue-600/30 transition-all flex items-center justify-center gap-4 active:scale-95">
+              {activeTask.status === 'SEARCHING' ? 'Forensic Scan in Progress...' : 'Start Discovery Agent'}
+            </button>
+            <button
+              type="button"
+              disabled={!description.trim() || !location.trim()}
+              onClick={() => onScheduleSearch({ description, location, radius, depth, personaId: activePersonaId })}
+              title="Re-run this search on the agent schedule"
+              className="px-8 h-14 border border-slate-200 dark:border-slate-700 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:border-blue-600 hover:text-blue-600 transition-all active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Schedule
+            </button>
+          </div>
         </form>
       </div>
 
+      {currentLeads.length > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-4 px-2">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+            {currentLeads.length} leads · {pendingLeads.length} pending verification
+          </p>
+          {verifyAllProgress ? (
+            <div className="flex items-center gap-4">
+              <span className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest animate-pulse">
+                Verifying {verifyAllProgress.done}/{verifyAllProgress.total}...
+              </span>
+              <button
+                onClick={() => verifyAllAbortRef.current?.abort()}
+                className="px-5 py-2.5 rounded-xl border border-red-200 dark:border-red-900/40 text-[9px] font-black uppercase tracking-widest text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-all"
+              >
+                Stop
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={handleVerifyAll}
+              disabled={pendingLeads.length === 0 || activeTask.status === 'SEARCHING'}
+              className="px-6 py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-blue-600 dark:hover:bg-blue-600 dark:hover:text-white transition-all active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Verify All ({pendingLeads.length})
+            </button>
+          )}
+        </div>
+      )}
+
+      {verificationSummary && (
+        <div className="bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-200 dark:border-slate-800 p-8 shadow-soft space-y-4 animate-fade-in">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="text-[11px] font-black text-slate-900 dark:text-white uppercase tracking-[0.3em]">
+                Verification {verificationSummary.cancelled ? 'Stopped' : 'Complete'}
+              </h3>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-2">
+                {verificationSummary.counts.VERIFIED} verified · {verificationSummary.counts.FAILED} rejected · {verificationSummary.counts.COLLISION_DETECTED} collisions
+                {verificationSummary.counts.ERROR > 0 && ` · ${verificationSummary.counts.ERROR} errors`}
+                {verificationSummary.skipped > 0 && ` · ${verificationSummary.skipped} not started`}
+              </p>
+            </div>
+            <button onClick={() => setVerificationSummary(null)} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-900 dark:hover:text-white">
+              Dismiss
+            </button>
+          </div>
+          {verificationSummary.outcomes.some(o => o.corrections.length > 0) ? (
+            <div className="space-y-2 max-h-64 overflow-y-auto custom-scrollbar">
+              {verificationSummary.outcomes.filter(o => o.corrections.length > 0).map(outcome => (
+                <div key={outcome.leadId} className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl space-y-1">
+                  <p className="text-[10px] font-black text-slate-900 dark:text-white uppercase">{outcome.companyName}</p>
+                  {outcome.corrections.map(correction => (
+                    <p key={correction.field} className="text-[10px] font-bold text-slate-500 dark:text-slate-400 break-all">
+                      <span className="uppercase text-slate-400 mr-2">{CORRECTION_FIELD_LABELS[correction.field]}</span>
+                      {correction.from ? <span className="line-through mr-2">{correction.from}</span> : <span className="italic mr-2">empty</span>}
+                      → <span className="text-emerald-600 dark:text-emerald-400 ml-1">{correction.to}</span>
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">No corrections proposed.</p>
+          )}
+          {verificationSummary.outcomes.filter(o => o.status === 'ERROR').map(outcome => (
+            <p key={outcome.leadId} className="text-[10px] font-bold text-red-600 dark:text-red-400">
+              {outcome.companyName}: {outcome.error}
+            </p>
+          ))}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {currentLeads.map(lead => {
+        {rankedLeads.map(lead => {
           const processed = isProcessed(lead);
           const isVerifying = lead.verificationStatus === 'VERIFYING';
 
           return (
             <div 
               key={lead.id} 
-              onClick={() => setSelectedProspect(lead)}
+              onClick={() => setSelectedProspectId(lead.id)}
               className={`bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-200 dark:border-slate-800 p-6 flex flex-col shadow-soft hover:border-blue-400 transition-all group overflow-hidden relative cursor-pointer ${processed ? 'opacity-60 grayscale-[0.5]' : ''}`}
             >
               <div className="flex justify-between items-start mb-4">
                 <div className="min-w-0 flex-1">
                   <div className="flex items-center gap-2 mb-1">
                     {getStatusBadge(lead.verificationStatus)}
+                    {getCacheBadge(lead)}
+                    {!!lead.pendingCorrections?.length && (
+                      <span className="text-[8px] font-black uppercase text-amber-600 dark:text-amber-400">
+                        {lead.pendingCorrections.length} to review
+                      </span>
+                    )}
                     {lead.verificationStatus !== 'VERIFIED' && lead.verificationStatus !== 'COLLISION_DETECTED' && !processed && (
                       <button 
                         onClick={(e) => { e.stopPropagation(); handleVerifyLead(lead.id); }}
-                        disabled={isVerifying}
+                        disabled={isVerifying || !!verifyAllProgress}
                         className="text-[8px] font-black uppercase text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
                       >
                         {isVerifying ? 'Running Pro...' : 'Verify'}
@@ -579,7 +812,7 @@ const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
                   <h3 className="text-lg font-black text-slate-900 dark:text-white brand-font uppercase truncate">{lead.companyName}</h3>
                   <p className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase truncate mt-0.5">{lead.website}</p>
                 </div>
-                <div className="bg-slate-900 dark:bg-blue-600 px-3 py-1 rounded-lg text-white text-[10px] font-black brand-font ml-3">{lead.dnaScore}%</div>
+                <div title={`Composite score · DNA ${lead.dnaScore}%`} className="bg-slate-900 dark:bg-blue-600 px-3 py-1 rounded-lg text-white text-[10px] font-black brand-font ml-3">{scoreLead(lead, scoring).total}</div>
               </div>
               
               <div className="flex-grow space-y-4">
@@ -617,8 +850,17 @@ const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
         })}
       </div>
 
+      {currentLeads.length > 0 && activeTask.status !== 'SEARCHING' && (
+        <button
+          onClick={() => onFindMore(targetCount || undefined)}
+          className="self-center px-10 py-4 border border-blue-200 dark:border-blue-900/40 rounded-2xl text-[10px] font-black uppercase tracking-[0.3em] text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-all active:scale-95"
+        >
+          Find More {targetCount > 0 ? `(${targetCount})` : ''}
+        </button>
+      )}
+
       {selectedProspect && (
-        <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-md z-[100] flex items-center justify-center p-6 animate-fade-in" onClick={() => setSelectedProspect(null)}>
+        <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-md z-[100] flex items-center justify-center p-6 animate-fade-in" onClick={() => setSelectedProspectId(null)}>
           <div 
             className="bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-200 dark:border-slate-800 shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col transition-all" 
             onClick={e => e.stopPropagation()}
@@ -627,6 +869,16 @@ const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
               <div>
                 <div className="flex items-center gap-2 mb-2">
                   {getStatusBadge(selectedProspect.verificationStatus)}
+                  {getCacheBadge(selectedProspect)}
+                  {!!selectedProspect.cacheHits?.length && !isProcessed(selectedProspect) && (
+                    <button
+                      onClick={() => handleVerifyLead(selectedProspect!.id, true)}
+                      disabled={selectedProspect.verificationStatus === 'VERIFYING'}
+                      className="text-[8px] font-black uppercase text-amber-600 dark:text-amber-400 hover:underline disabled:opacity-50"
+                    >
+                      Force refresh
+                    </button>
+                  )}
                 </div>
                 <h2 className="text-3xl font-black text-slate-900 dark:text-white brand-font tracking-tight uppercase leading-none">{selectedProspect.companyName}</h2>
                 <a href={selectedProspect.website} target="_blank" rel="noopener noreferrer" className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-[0.2em] mt-3 block hover:underline">
@@ -634,8 +886,11 @@ const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
                 </a>
               </div>
               <div className="flex items-center gap-4">
-                <div className="bg-slate-900 dark:bg-blue-600 px-5 py-2 rounded-xl text-white text-lg font-black brand-font">{selectedProspect.dnaScore}% Match</div>
-                <button onClick={() => setSelectedProspect(null)} className="p-2 text-slate-300 dark:text-slate-600 hover:text-slate-900 dark:hover:text-white transition-all">
+                <div className="bg-slate-900 dark:bg-blue-600 px-5 py-2 rounded-xl text-white text-center brand-font">
+                  <p className="text-lg font-black leading-none">{scoreLead(selectedProspect, scoring).total}</p>
+                  <p className="text-[8px] font-black uppercase tracking-widest opacity-70 mt-1">DNA {selectedProspect.dnaScore}%</p>
+                </div>
+                <button onClick={() => setSelectedProspectId(null)} className="p-2 text-slate-300 dark:text-slate-600 hover:text-slate-900 dark:hover:text-white transition-all">
                   <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"></path></svg>
                 </button>
               </div>
@@ -653,6 +908,17 @@ const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
                 </div>
               )}
 
+              {!!selectedProspect.pendingCorrections?.length && (
+                <div className="space-y-4">
+                  <h3 className="text-[10px] font-black text-amber-600 dark:text-amber-400 uppercase tracking-[0.3em]">Verifier Corrections · Claimed vs Verified</h3>
+                  <CorrectionReview
+                    corrections={selectedProspect.pendingCorrections}
+                    onAccept={(correction) => handleAcceptCorrection(selectedProspect.id, correction)}
+                    onReject={(correction) => onUpdateLead(selectedProspect.id, l => rejectCorrection(l, correction.field))}
+                  />
+                </div>
+              )}
+
               <div className="space-y-4">
                 <h3 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.3em]">Match Profile (Flash)</h3>
                 <div className="p-8 bg-blue-50 dark:bg-blue-900/10 rounded-[2rem] border border-blue-100 dark:border-blue-800/50">
@@ -662,6 +928,11 @@ const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
                 </div>
               </div>
 
+              <div className="space-y-4">
+                <h3 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.3em]">Score Breakdown</h3>
+                <ScoreBreakdown score={scoreLead(selectedProspect, scoring)} />
+              </div>
+
               {selectedProspect.forensicAuditTrail && (
                 <div className="space-y-4">
                    <h3 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.3em]">Audit Trail</h3>
@@ -729,7 +1000,7 @@ const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
             <div className="p-10 border-t border-slate-100 dark:border-slate-800 bg-white dark:bg-slate-900 flex gap-4 sticky bottom-0 z-10 transition-colors">
                <button 
                 disabled={isProcessed(selectedProspect) || selectedProspect.verificationStatus === 'VERIFYING'} 
-                onClick={() => { onAddAsLead(selectedProspect!); setSelectedProspect(null); }}
+                onClick={() => { onAddAsLead(selectedProspect!); setSelectedProspectId(null); }}
                 className="flex-grow py-5 bg-blue-600 text-white rounded-2xl text-[11px] font-black uppercase tracking-[0.4em] hover:bg-blue-700 transition-all shadow-xl shadow-blue-500/20 active:scale-95 disabled:opacity-50"
                >
                  {isProcessed(selectedProspect) ? 'Already in Pipeline' : 'Incorporate Prospect'}
@@ -745,7 +1016,7 @@ const DiscoveryTab: React.FC<DiscoveryTabProps> = ({
                )}
                <button 
                 disabled={isProcessed(selectedProspect) || selectedProspect.verificationStatus === 'VERIFYING'} 
-                onClick={() => { onSaveToVault(selectedProspect!); setSelectedProspect(null); }}
+                onClick={() => { onSaveToVault(selectedProspect!); setSelectedProspectId(null); }}
                 className="px-10 py-5 bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-2xl text-[10px] font-black uppercase tracking-widest border border-slate-200 dark:border-slate-700 hover:bg-white transition-all active:scale-95 disabled:opacity-50"
                >
                  Save to Vault
@@ -0,0 +1,204 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { AppState, Sponsor, Deal, DiscoveredLead } from '../types';
+import { STAGE_LABELS } from '../constants';
+import { dealLabel } from '../lib/renewals';
+import {
+  DuplicateCluster,
+  MergeChoices,
+  MergeField,
+  MERGE_FIELDS,
+  findSponsorDuplicates,
+  findDealDuplicates,
+  findLeadDuplicates,
+  clusterRecordsOf,
+  suggestPrimary,
+  suggestChoices,
+} from '../lib/dedupe';
+
+interface DuplicatesViewProps {
+  state: AppState;
+  onMerge: (cluster: DuplicateCluster, primaryId: string, choices: MergeChoices) => void;
+}
+
+type AnyRecord = Sponsor | Deal | DiscoveredLead;
+
+const KIND_LABELS = {
+  SPONSOR: 'Sponsors',
+  DEAL: 'Deals',
+  LEAD: 'Vault Leads',
+};
+
+const DuplicatesView: React.FC<DuplicatesViewProps> = ({ state, onMerge }) => {
+  // Fuzzy matching is quadratic, so each kind is re-clustered only when its own collection changes
+  const sponsorClusters = useMemo(() => findSponsorDuplicates(state.sponsors), [state.sponsors]);
+  const dealClusters = useMemo(() => findDealDuplicates(state.deals), [state.deals]);
+  const leadClusters = useMemo(() => findLeadDuplicates(state.vault), [state.vault]);
+  const clusters = useMemo(() => [...sponsorClusters, ...dealClusters, ...leadClusters], [sponsorClusters, dealClusters, leadClusters]);
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [primaryId, setPrimaryId] = useState<string>('');
+  const [choices, setChoices] = useState<MergeChoices>({});
+
+  const visibleClusters = clusters.filter(c => !dismissed.includes(c.id));
+  const selected = visibleClusters.find(c => c.id === selectedId) || visibleClusters[0] || null;
+  const records = selected ? clusterRecordsOf(state, selected) : [];
+  const fields = (selected ? MERGE_FIELDS[selected.kind] : []) as MergeField<AnyRecord>[];
+
+  // Reset suggestions whenever a different cluster is opened
+  useEffect(() => {
+    if (!selected) return;
+    const primary = suggestPrimary(state, selected);
+    setPrimaryId(primary);
+    setChoices(suggestChoices(clusterRecordsOf(state, selected), MERGE_FIELDS[selected.kind] as MergeField<AnyRecord>[], primary));
+  }, [selected?.id]);
+
+  const recordTitle = (record: AnyRecord) => {
+    if (selected?.kind === 'DEAL') {
+      const deal = record as Deal;
+      const sponsor = state.sponsors.find(s => s.id === deal.sponsorId);
+      return `${sponsor?.companyName || 'Unknown'} • ${dealLabel(deal)}`;
+    }
+    return (record as Sponsor | DiscoveredLead).companyName;
+  };
+
+  const recordMeta = (record: AnyRecord) => {
+    if (selected?.kind === 'SPONSOR') return `${state.deals.filter(d => d.sponsorId === record.id).length} deal(s)`;
+    if (selected?.kind === 'DEAL') return `${STAGE_LABELS[(record as Deal).stage]} • ${state.activities.filter(a => a.dealId === record.id).length} activities`;
+    return `DNA ${(record as DiscoveredLead).dnaScore}`;
+  };
+
+  const formatValue = (field: MergeField<AnyRecord>, value: string | number | undefined) => {
+    if (value === undefined || value === '') return '—';
+    if (field.key === 'stage') return STAGE_LABELS[value as Deal['stage']] || value;
+    if (field.key === 'amount') return `$${Number(value).toLocaleString()}`;
+    return String(value);
+  };
+
+  const handleMerge = () => {
+    if (!selected || !primaryId) return;
+    onMerge(selected, primaryId, choices);
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="space-y-10 animate-fade-in max-w-[1400px] mx-auto">
+      <div>
+        <h2 className="text-4xl font-black text-slate-900 dark:text-white brand-font tracking-tight uppercase leading-none">Duplicates</h2>
+        <p className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.4em] mt-3">
+          {visibleClusters.length} cluster{visibleClusters.length === 1 ? '' : 's'} found via identity keys & name matching
+        </p>
+      </div>
+
+      {visibleClusters.length === 0 ? (
+        <div className="py-40 text-center opacity-20">
+          <p className="text-[12px] font-black uppercase tracking-[0.5em]">No duplicates detected.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-[320px_1fr] gap-8">
+          {/* Cluster List */}
+          <div className="space-y-3">
+            {visibleClusters.map(cluster => {
+              const names = clusterRecordsOf(state, cluster).map(r => (cluster.kind === 'DEAL' ? dealLabel(r as Deal) : (r as Sponsor).companyName));
+              const isActive = selected?.id === cluster.id;
+              return (
+                <button
+                  key={cluster.id}
+                  onClick={() => setSelectedId(cluster.id)}
+                  className={`w-full text-left p-5 rounded-2xl border transition-all ${isActive ? 'bg-blue-600 border-blue-600 text-white shadow-lg' : 'bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 hover:border-blue-600/40'}`}
+                >
+                  <div className="flex justify-between items-center mb-2">
+                    <span className={`text-[8px] font-black uppercase tracking-widest ${isActive ? 'text-blue-100' : 'text-slate-400'}`}>{KIND_LABELS[cluster.kind]}</span>
+                    <span className={`text-[9px] font-black ${isActive ? 'text-white' : 'text-slate-900 dark:text-white'}`}>×{cluster.recordIds.length}</span>
+                  </div>
+                  <p className={`text-[11px] font-black uppercase truncate ${isActive ? 'text-white' : 'text-slate-900 dark:text-white'}`}>{names.join(' / ')}</p>
+                  <p className={`text-[9px] font-bold mt-1 truncate ${isActive ? 'text-blue-100' : 'text-slate-400'}`}>{cluster.reasons.join(' • ')}</p>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Field-by-field Diff */}
+          {selected && (
+            <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-100 dark:border-slate-800 p-8 shadow-sm space-y-6 overflow-x-auto">
+              <table className="w-full text-left">
+                <thead>
+                  <tr>
+                    <th className="pb-4 pr-4 text-[9px] font-black uppercase tracking-widest text-slate-400 align-bottom">Field</th>
+                    {records.map(record => (
+                      <th key={record.id} className="pb-4 pr-4 align-bottom min-w-[180px]">
+                        <label className="flex items-start gap-2 cursor-pointer">
+                          <input type="radio" checked={primaryId === record.id} onChange={() => setPrimaryId(record.id)} className="mt-1 accent-blue-600" />
+                          <span>
+                            <span className="block text-[11px] font-black uppercase text-slate-900 dark:text-white">{recordTitle(record)}</span>
+                            <span className="block text-[8px] font-black uppercase tracking-widest text-slate-400">
+                              {primaryId === record.id ? 'Keep • ' : ''}{recordMeta(record)}
+                            </span>
+                          </span>
+                        </label>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {fields.map(field => {
+                    const values = records.map(r => field.read(r));
+                    const differs = new Set(values.map(v => String(v ?? ''))).size > 1;
+                    return (
+                      <tr key={field.key} className="border-t border-slate-50 dark:border-slate-800">
+                        <td className={`py-3 pr-4 text-[9px] font-black uppercase tracking-widest ${differs ? 'text-orange-500' : 'text-slate-400'}`}>{field.label}</td>
+                        {records.map((record, idx) => {
+                          const evidence = field.evidence?.(record);
+                          return (
+                            <td key={record.id} className="py-3 pr-4 align-top">
+                              <label className={`flex items-start gap-2 ${differs ? 'cursor-pointer' : ''}`}>
+                                {differs && (
+                                  <input
+                                    type="radio"
+                                    name={field.key}
+                                    checked={choices[field.key] === record.id}
+                                    onChange={() => setChoices({ ...choices, [field.key]: record.id })}
+                                    className="mt-0.5 accent-blue-600"
+                                  />
+                                )}
+                                <span className="min-w-0">
+                                  <span className="block text-[10px] font-bold text-slate-700 dark:text-slate-300 break-words line-clamp-3">{formatValue(field, values[idx])}</span>
+                                  {evidence && (
+                                    <span className="block text-[8px] font-black uppercase tracking-widest text-slate-400 mt-0.5">
+                                      {Math.round(evidence.confidence * 100)}% • {evidence.source.replace(/_/g, ' ')}
+                                    </span>
+                                  )}
+                                </span>
+                              </label>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <div className="flex gap-4 pt-4 border-t border-slate-100 dark:border-slate-800">
+                <button
+                  onClick={() => setDismissed([...dismissed, selected.id])}
+                  className="px-8 py-4 bg-slate-50 dark:bg-slate-800 text-slate-500 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all"
+                >
+                  Not Duplicates
+                </button>
+                <button
+                  onClick={handleMerge}
+                  className="flex-grow py-4 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-blue-700 transition-all shadow-lg shadow-blue-500/10 active:scale-95"
+                >
+                  Merge {records.length} {KIND_LABELS[selected.kind]}
+                  {selected.kind === 'SPONSOR' ? ' & Re-point Deals' : selected.kind === 'DEAL' ? ' & Re-point Activities' : ''}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicatesView;
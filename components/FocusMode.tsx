@@ -45,11 +45,16 @@ const FocusMode: React.FC<FocusModeProps> = ({ deals, sponsors, senderProfile, o
       
       const [newDraft, newStrategy] = await Promise.all([
         generateOutreachDraft(platform, currentSponsor.companyName, currentSponsor.contactName || 'Valued Partner', currentDeal.tier, senderProfile, currentSponsor.latestSignal),
+        // A failed angle lookup should not discard the draft
         getSocialAngle(currentSponsor.companyName, currentSponsor.socialLinks?.instagram || currentSponsor.socialLinks?.linkedIn || '')
+          .catch((error) => {
+            console.warn("Social angle unavailable:", error);
+            return null;
+          })
       ]);
       
       setDraft(newDraft);
-      setStrategy(newStrategy as SocialStrategy);
+      setStrategy(newStrategy);
     } catch (e) {
       console.error("Preparation failed", e);
     }
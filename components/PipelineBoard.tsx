@@ -1,19 +1,33 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { AppState, PipelineStage, Deal, Sponsor } from '../types';
 import { STAGE_LABELS, STAGE_COLORS } from '../constants';
+import { PipelineFilters, DEFAULT_PIPELINE_FILTERS, filterDeals, pipelineSheet } from '../lib/exports';
+import { activeDeals } from '../lib/retention';
+import { dealLabel } from '../lib/renewals';
+import { downloadSheet, exportFileName, SpreadsheetFormat } from '../lib/spreadsheet';
 
 interface PipelineBoardProps {
   state: AppState;
   onUpdateStage: (dealId: string, newStage: PipelineStage) => void;
   onSelectDeal: (dealId: string) => void;
+  onImportCsv?: () => void;
 }
 
-const PipelineBoard: React.FC<PipelineBoardProps> = ({ state, onUpdateStage, onSelectDeal }) => {
+const PipelineBoard: React.FC<PipelineBoardProps> = ({ state, onUpdateStage, onSelectDeal, onImportCsv }) => {
   const stages = Object.values(PipelineStage);
+  const [filters, setFilters] = useState<PipelineFilters>(DEFAULT_PIPELINE_FILTERS);
+  const boardDeals = activeDeals(state.deals);
+  const tiers = Array.from(new Set(boardDeals.map(d => d.tier))).sort();
+  const visibleDeals = filterDeals(boardDeals, state.sponsors, filters);
+  const isFiltered = filters !== DEFAULT_PIPELINE_FILTERS;
+
+  const handleExport = (format: SpreadsheetFormat) => {
+    downloadSheet(pipelineSheet(visibleDeals, state.sponsors), format, exportFileName('pipeline'));
+  };
   
   // Logic: Identify follow-ups due today or overdue
   const today = new Date().toISOString().split('T')[0];
-  const dueDeals = state.deals.filter(deal => 
+  const dueDeals = visibleDeals.filter(deal => 
     deal.nextFollowUp && 
     deal.nextFollowUp <= today &&
     deal.stage !== PipelineStage.SIGNED && 
@@ -22,6 +36,59 @@ const PipelineBoard: React.FC<PipelineBoardProps> = ({ state, onUpdateStage, onS
 
   return (
     <div className="space-y-10 animate-fade-in">
+      {/* Toolbar: Filters, Export & Import */}
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="text"
+          value={filters.query}
+          onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+          placeholder="Search sponsors..."
+          className="flex-grow min-w-[200px] px-5 py-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl text-[11px] font-bold text-slate-900 dark:text-white outline-none focus:border-blue-600 transition-all"
+        />
+        <select
+          value={filters.stage}
+          onChange={(e) => setFilters({ ...filters, stage: e.target.value as PipelineFilters['stage'] })}
+          className="px-4 py-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 outline-none focus:border-blue-600"
+        >
+          <option value="ALL">All Stages</option>
+          {stages.map(stage => <option key={stage} value={stage}>{STAGE_LABELS[stage]}</option>)}
+        </select>
+        <select
+          value={filters.tier}
+          onChange={(e) => setFilters({ ...filters, tier: e.target.value })}
+          className="px-4 py-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 outline-none focus:border-blue-600"
+        >
+          <option value="ALL">All Tiers</option>
+          {tiers.map(tier => <option key={tier} value={tier}>{tier}</option>)}
+        </select>
+        {isFiltered && (
+          <button
+            onClick={() => setFilters(DEFAULT_PIPELINE_FILTERS)}
+            className="px-4 py-3 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-900 dark:hover:text-white transition-all"
+          >
+            Reset
+          </button>
+        )}
+        {(['CSV', 'XLSX'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={visibleDeals.length === 0}
+            className="px-5 py-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:border-blue-600 hover:text-blue-600 transition-all shadow-sm disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Export {format}
+          </button>
+        ))}
+        {onImportCsv && (
+          <button
+            onClick={onImportCsv}
+            className="px-6 py-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:border-blue-600 hover:text-blue-600 transition-all shadow-sm"
+          >
+            Import CSV
+          </button>
+        )}
+      </div>
+
       {/* Triage Section: Follow-ups Today */}
       <section className="bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-200 dark:border-slate-800 p-8 shadow-sm transition-colors">
         <h3 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.4em] mb-6 pl-2">Follow-ups Today</h3>
@@ -68,7 +135,7 @@ const PipelineBoard: React.FC<PipelineBoardProps> = ({ state, onUpdateStage, onS
       {/* Main Board View */}
       <div className="flex overflow-x-auto pb-10 space-x-6 min-h-[calc(100vh-450px)] scrollbar-hide">
         {stages.map((stage) => {
-          const stageDeals = state.deals.filter(d => d.stage === stage);
+          const stageDeals = visibleDeals.filter(d => d.stage === stage);
           const stageValue = stageDeals.reduce((sum, d) => sum + d.amount, 0);
 
           return (
@@ -104,7 +171,7 @@ const PipelineBoard: React.FC<PipelineBoardProps> = ({ state, onUpdateStage, onS
                       } hover:border-blue-600/60 dark:hover:border-blue-500/60 hover:shadow-xl hover:shadow-slate-900/5 dark:hover:shadow-black/20 hover:-translate-y-1`}
                     >
                       <div className="flex justify-between items-start mb-3">
-                        <span className="text-[9px] font-black uppercase tracking-[0.2em] text-slate-400 dark:text-slate-500 group-hover/card:text-blue-600 dark:group-hover/card:text-blue-500 transition-colors">{deal.tier}</span>
+                        <span className="text-[9px] font-black uppercase tracking-[0.2em] text-slate-400 dark:text-slate-500 group-hover/card:text-blue-600 dark:group-hover/card:text-blue-500 transition-colors">{dealLabel(deal)}</span>
                         <span className="text-sm font-black text-slate-900 dark:text-white">${deal.amount.toLocaleString()}</span>
                       </div>
                       <h4 className="font-bold text-slate-900 dark:text-white text-lg mb-1 leading-tight uppercase brand-font">{sponsor?.companyName}</h4>
@@ -122,6 +189,16 @@ const PipelineBoard: React.FC<PipelineBoardProps> = ({ state, onUpdateStage, onS
                         )}
                       </div>
 
+                      {!!sponsor?.dataAlerts?.length && (
+                        <div
+                          title={sponsor.dataAlerts.map(a => a.message).join('\n')}
+                          className="mb-3 flex items-center gap-1.5 text-[9px] font-black text-amber-600 dark:text-amber-400 uppercase"
+                        >
+                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M12 9v2m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z"/></svg>
+                          Data Changed ({sponsor.dataAlerts.length})
+                        </div>
+                      )}
+
                       {isDueToday && (
                          <div className="mt-2 flex items-center gap-1.5 text-[9px] font-black text-blue-600 dark:text-blue-400 uppercase">
                             <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"/></svg>
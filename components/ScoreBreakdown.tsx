@@ -0,0 +1,38 @@
+import React from 'react';
+import { LeadScore } from '../lib/scoring';
+
+interface ScoreBreakdownProps {
+  score: LeadScore;
+}
+
+const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ score }) => {
+  const components = score.components.filter(c => c.weight > 0);
+
+  return (
+    <div className="space-y-3">
+      {components.map(component => (
+        <div key={component.id} className="space-y-1">
+          <div className="flex items-center justify-between gap-4 text-[10px] font-black uppercase tracking-widest">
+            <span className={component.value === null ? 'text-slate-300 dark:text-slate-600' : 'text-slate-600 dark:text-slate-300'}>
+              {component.label}
+            </span>
+            <span className="text-slate-400">
+              {component.value === null ? 'n/a' : `+${component.points.toFixed(1)}`}
+            </span>
+          </div>
+          <div className="h-1.5 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+            {component.value !== null && (
+              <div className="h-full bg-blue-600" style={{ width: `${component.value * 100}%` }} />
+            )}
+          </div>
+          <p className="text-[9px] font-bold text-slate-400 normal-case">{component.detail}</p>
+        </div>
+      ))}
+      <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest pt-2 border-t border-slate-100 dark:border-slate-800">
+        Components marked n/a have no data and are left out of the total
+      </p>
+    </div>
+  );
+};
+
+export default ScoreBreakdown;
@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { SocialMessage, SocialAccount } from '../types';
 import { interceptPublicSignal } from '../lib/gemini';
+import { LlmResponseError } from '../lib/structured-output';
 
 interface SocialInboxProps {
   accounts: SocialAccount[];
@@ -16,6 +17,7 @@ const SocialInbox: React.FC<SocialInboxProps> = ({ accounts, messages, onConnect
   const [isSyncing, setIsSyncing] = useState(false);
   const [interceptInput, setInterceptInput] = useState('');
   const [isIntercepting, setIsIntercepting] = useState(false);
+  const [interceptError, setInterceptError] = useState<string | null>(null);
   const [lastSynced, setLastSynced] = useState(new Date());
 
   const filteredMessages = messages.filter(m => filter === 'ALL' || m.platform === filter);
@@ -35,11 +37,12 @@ const SocialInbox: React.FC<SocialInboxProps> = ({ accounts, messages, onConnect
     if (!interceptInput || !onAddIntercept) return;
     
     setIsIntercepting(true);
+    setInterceptError(null);
     // Determine platform based on input or toggle
     const platform = interceptInput.includes('linkedin') ? 'LINKEDIN' : 'INSTAGRAM';
-    const result = await interceptPublicSignal(interceptInput, platform);
-    
-    if (result) {
+
+    try {
+      const result = await interceptPublicSignal(interceptInput, platform);
       onAddIntercept({
         id: `int_${Date.now()}`,
         senderName: result.senderName,
@@ -52,8 +55,11 @@ const SocialInbox: React.FC<SocialInboxProps> = ({ accounts, messages, onConnect
         suggestedAction: result.suggestedAction
       });
       setInterceptInput('');
+    } catch (error) {
+      setInterceptError(error instanceof LlmResponseError ? error.message : 'Signal intercept failed.');
+    } finally {
+      setIsIntercepting(false);
     }
-    setIsIntercepting(false);
   };
 
   return (
@@ -120,6 +126,9 @@ const SocialInbox: React.FC<SocialInboxProps> = ({ accounts, messages, onConnect
                    >
                      {isIntercepting ? 'Intercepting...' : 'Force Intercept'}
                    </button>
+                   {interceptError && (
+                     <p className="text-[9px] font-bold text-red-100 leading-relaxed">{interceptError}</p>
+                   )}
                 </form>
              </div>
           </div>
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { AppState, Deal, PipelineStage } from '../types';
+import { STAGE_LABELS, STAGE_COLORS } from '../constants';
+import { dealLabel, dealSeason, findRenewalsDue, hasRenewal, RENEWAL_WINDOW_DAYS } from '../lib/renewals';
+
+interface SponsorsViewProps {
+  state: AppState;
+  onSelectDeal: (dealId: string) => void;
+  onCreateRenewal: (dealId: string) => void;
+}
+
+const bySeasonDesc = (a: Deal, b: Deal) => (dealSeason(b) || '').localeCompare(dealSeason(a) || '');
+
+const SponsorsView: React.FC<SponsorsViewProps> = ({ state, onSelectDeal, onCreateRenewal }) => {
+  const [query, setQuery] = useState('');
+  const renewalsDue = findRenewalsDue(state.deals);
+  const needle = query.trim().toLowerCase();
+
+  const sponsors = state.sponsors
+    .filter(s => !s.archivedAt)
+    .filter(s => !needle || [s.companyName, s.contactName, s.industry].some(v => v?.toLowerCase().includes(needle)))
+    .sort((a, b) => a.companyName.localeCompare(b.companyName));
+
+  return (
+    <div className="space-y-10 animate-fade-in max-w-[1400px] mx-auto">
+      <div className="flex flex-wrap items-end justify-between gap-6">
+        <div>
+          <h2 className="text-4xl font-black text-slate-900 dark:text-white brand-font tracking-tight uppercase leading-none">Sponsors</h2>
+          <p className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.4em] mt-3">Partnerships Across Seasons</p>
+        </div>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search sponsors..."
+          className="w-72 px-5 py-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl text-[11px] font-bold text-slate-900 dark:text-white outline-none focus:border-blue-600 transition-all"
+        />
+      </div>
+
+      {/* Renewals Due */}
+      <section className="bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-200 dark:border-slate-800 p-8 shadow-sm transition-colors">
+        <h3 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.4em] mb-6 pl-2">
+          Renewals Due • Next {RENEWAL_WINDOW_DAYS} Days
+        </h3>
+        {renewalsDue.length > 0 ? (
+          <div className="flex gap-4 overflow-x-auto pb-2 scrollbar-hide">
+            {renewalsDue.map(deal => {
+              const sponsor = state.sponsors.find(s => s.id === deal.sponsorId);
+              const isExpired = (deal.contractEndDate || '') < new Date().toISOString().split('T')[0];
+              return (
+                <div key={deal.id} className="flex-shrink-0 w-80 bg-slate-50 dark:bg-slate-800/50 rounded-2xl border border-slate-100 dark:border-slate-800 p-5 space-y-4">
+                  <div className="flex justify-between items-start">
+                    <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{dealLabel(deal)}</span>
+                    <span className={`text-[9px] font-black uppercase tracking-tighter ${isExpired ? 'text-red-500' : 'text-orange-500'}`}>
+                      {isExpired ? 'Ended' : 'Ends'} {deal.contractEndDate}
+                    </span>
+                  </div>
+                  <h4 className="text-sm font-black text-slate-900 dark:text-white brand-font uppercase truncate">{sponsor?.companyName || 'Unknown Entity'}</h4>
+                  <button
+                    onClick={() => onCreateRenewal(deal.id)}
+                    className="w-full py-3 bg-emerald-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-emerald-700 transition-all active:scale-95"
+                  >
+                    Create Renewal • ${deal.amount.toLocaleString()}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="py-6 px-4 border-2 border-dashed border-slate-100 dark:border-slate-800 rounded-2xl flex items-center justify-center">
+            <p className="text-[10px] font-black text-slate-300 dark:text-slate-700 uppercase tracking-[0.2em]">No contracts ending soon.</p>
+          </div>
+        )}
+      </section>
+
+      {/* Sponsor Cards */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {sponsors.map(sponsor => {
+          const deals = state.deals.filter(d => d.sponsorId === sponsor.id).sort(bySeasonDesc);
+          const lifetimeValue = deals
+            .filter(d => d.stage === PipelineStage.SIGNED || d.stage === PipelineStage.ACTIVE)
+            .reduce((sum, d) => sum + d.amount, 0);
+
+          return (
+            <div key={sponsor.id} className="bg-white dark:bg-slate-900 p-8 rounded-[2.5rem] border border-slate-100 dark:border-slate-800 shadow-sm space-y-6 transition-colors">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h4 className="text-2xl font-black text-slate-900 dark:text-white brand-font uppercase tracking-tight">{sponsor.companyName}</h4>
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-1">
+                    {sponsor.industry}{sponsor.contactName ? ` • ${sponsor.contactName}` : ''}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-lg font-black text-slate-900 dark:text-white">${lifetimeValue.toLocaleString()}</p>
+                  <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Signed Value</p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {deals.map(deal => (
+                  <div key={deal.id} className="flex items-center gap-3">
+                    <button
+                      onClick={() => onSelectDeal(deal.id)}
+                      className={`flex-grow flex items-center justify-between px-4 py-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-100 dark:border-slate-800 hover:border-blue-600/40 transition-all ${deal.archivedAt ? 'opacity-50' : ''}`}
+                    >
+                      <span className="text-[10px] font-black text-slate-700 dark:text-slate-300 uppercase">
+                        {dealLabel(deal)} • ${deal.amount.toLocaleString()}{deal.archivedAt ? ' • Archived' : ''}
+                      </span>
+                      <span className={`text-[8px] font-black uppercase tracking-widest px-2 py-1 rounded ${STAGE_COLORS[deal.stage]}`}>
+                        {STAGE_LABELS[deal.stage]}
+                      </span>
+                    </button>
+                    {deal.contractEndDate && !deal.archivedAt && !hasRenewal(deal, state.deals) && (
+                      <button
+                        onClick={() => onCreateRenewal(deal.id)}
+                        title={`Renew (contract ends ${deal.contractEndDate})`}
+                        className="px-3 py-3 border border-emerald-200 dark:border-emerald-800/50 text-emerald-600 rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-emerald-50 dark:hover:bg-emerald-900/20 transition-all"
+                      >
+                        Renew
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+        {sponsors.length === 0 && (
+          <div className="col-span-full py-40 text-center opacity-20">
+            <p className="text-[12px] font-black uppercase tracking-[0.5em]">No sponsors yet.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SponsorsView;
@@ -0,0 +1,121 @@
+import React from 'react';
+import { UsageBudget, UsageEntry, UsageOperation, UsageProvider } from '../types';
+import { summarizeUsage, startOfDay, startOfMonth, formatCost, OPERATION_LABELS, DEFAULT_USAGE_BUDGET } from '../lib/usage';
+
+interface UsagePanelProps {
+  ledger: UsageEntry[];
+  budget?: UsageBudget;
+  onUpdateBudget: (budget: UsageBudget) => void;
+}
+
+const PROVIDER_LABELS: Record<UsageProvider, string> = {
+  GEMINI: 'Gemini',
+  OPENAI: 'OpenAI',
+  APOLLO: 'Apollo',
+};
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ ledger, budget = DEFAULT_USAGE_BUDGET, onUpdateBudget }) => {
+  const now = new Date();
+  const today = summarizeUsage(ledger, startOfDay(now));
+  const month = summarizeUsage(ledger, startOfMonth(now));
+  const recent = ledger.slice(-8).reverse();
+
+  const updateBudget = (updates: Partial<UsageBudget>) => onUpdateBudget({ ...budget, ...updates });
+
+  const renderSpend = (label: string, spent: number, limit: number, calls: number) => {
+    const ratio = limit > 0 ? Math.min(1, spent / limit) : 0;
+    return (
+      <div className="p-6 bg-slate-50 dark:bg-slate-800/50 rounded-3xl space-y-3">
+        <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">{label}</p>
+        <p className="text-3xl font-black text-slate-900 dark:text-white brand-font">{formatCost(spent)}</p>
+        <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">
+          {calls} calls · {limit > 0 ? `Budget ${formatCost(limit)}` : 'No budget'}
+        </p>
+        {limit > 0 && (
+          <div className="h-1.5 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+            <div className={`h-full ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-blue-600'}`} style={{ width: `${ratio * 100}%` }} />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const operations = (Object.entries(month.byOperation) as [UsageOperation, number][]).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-10 rounded-[3rem] border border-slate-200 dark:border-slate-800 shadow-sm transition-colors space-y-8">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[11px] font-black text-slate-500 uppercase tracking-[0.3em]">API Spend</h3>
+        <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">
+          {month.tokens.toLocaleString()} tokens · {month.credits} Apollo credits this month
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {renderSpend('Today', today.cost, budget.dailyLimit, today.calls)}
+        {renderSpend('This Month', month.cost, budget.monthlyLimit, month.calls)}
+
+        <div className="p-6 bg-slate-50 dark:bg-slate-800/50 rounded-3xl space-y-2">
+          <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-3">Month by Operation</p>
+          {operations.length === 0 && <p className="text-[10px] font-bold text-slate-400 uppercase">No billable calls yet</p>}
+          {operations.map(([operation, cost]) => (
+            <div key={operation} className="flex justify-between text-[10px] font-bold text-slate-600 dark:text-slate-300 uppercase tracking-wider">
+              <span>{OPERATION_LABELS[operation]}</span>
+              <span>{formatCost(cost)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="space-y-4">
+          <p className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Budgets (USD, 0 = no limit)</p>
+          <div className="grid grid-cols-3 gap-3">
+            {([['dailyLimit', 'Daily'], ['monthlyLimit', 'Monthly'], ['apolloCreditCost', 'Per Apollo Credit']] as const).map(([field, label]) => (
+              <div key={field} className="space-y-2">
+                <label className="text-[8px] font-black uppercase text-slate-400 tracking-widest">{label}</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={field === 'apolloCreditCost' ? 0.01 : 1}
+                  value={budget[field]}
+                  onChange={(e) => updateBudget({ [field]: Math.max(0, Number(e.target.value) || 0) })}
+                  className="w-full h-12 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 text-xs font-bold text-slate-900 dark:text-white outline-none focus:border-blue-600 shadow-inner"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {(['WARN', 'BLOCK'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => updateBudget({ enforcement: mode })}
+                className={`py-3 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${budget.enforcement === mode ? 'bg-blue-600 text-white border-blue-600 shadow-lg' : 'bg-slate-50 dark:bg-slate-800 text-slate-400 border-slate-200 dark:border-slate-700'}`}
+              >
+                {mode === 'WARN' ? 'Warn before Deep Scan' : 'Block Deep Scan'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Recent Calls</p>
+          {recent.length === 0 && <p className="text-[10px] font-bold text-slate-400 uppercase">Nothing recorded yet</p>}
+          {recent.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between gap-4 text-[10px] font-bold text-slate-600 dark:text-slate-300">
+              <span className="truncate">
+                <span className="text-slate-400 mr-2">{new Date(entry.at).toLocaleTimeString()}</span>
+                {PROVIDER_LABELS[entry.provider]} · {OPERATION_LABELS[entry.operation]}{entry.model ? ` · ${entry.model}` : ''}
+              </span>
+              <span className="shrink-0 text-slate-400">
+                {entry.credits ? `${entry.credits} cr` : `${((entry.inputTokens || 0) + (entry.outputTokens || 0)).toLocaleString()} tok`} · {formatCost(entry.estimatedCost)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
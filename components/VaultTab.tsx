@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { DiscoveredLead, ScoringSettings } from '../types';
+import { LeadFilters, DEFAULT_LEAD_FILTERS, filterLeads, leadsSheet } from '../lib/exports';
+import { downloadSheet, exportFileName, SpreadsheetFormat } from '../lib/spreadsheet';
+import { scoreLead, sortByScore } from '../lib/scoring';
+
+interface VaultTabProps {
+  vault: DiscoveredLead[];
+  onPushToBoard: (lead: DiscoveredLead) => void;
+  onDelete: (leadId: string) => void;
+  scoring: ScoringSettings;
+}
+
+const VaultTab: React.FC<VaultTabProps> = ({ vault, onPushToBoard, onDelete, scoring }) => {
+  const [filters, setFilters] = useState<LeadFilters>(DEFAULT_LEAD_FILTERS);
+  const visibleLeads = sortByScore(filterLeads(vault, filters), scoring);
+
+  const handleExport = (format: SpreadsheetFormat) => {
+    downloadSheet(leadsSheet('Vault', visibleLeads), format, exportFileName('vault'));
+  };
+
+  return (
+    <div className="space-y-12 animate-fade-in max-w-[1400px] mx-auto">
+      {vault.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            value={filters.query}
+            onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+            placeholder="Search vault..."
+            className="flex-grow min-w-[200px] px-5 py-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl text-[11px] font-bold text-slate-900 dark:text-white outline-none focus:border-blue-600 transition-all"
+          />
+          <select
+            value={filters.minDnaScore}
+            onChange={(e) => setFilters({ ...filters, minDnaScore: Number(e.target.value) })}
+            className="px-4 py-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 outline-none focus:border-blue-600"
+          >
+            {[0, 50, 70, 85].map(score => (
+              <option key={score} value={score}>{score === 0 ? 'Any DNA Score' : `DNA ≥ ${score}`}</option>
+            ))}
+          </select>
+          {(['CSV', 'XLSX'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={visibleLeads.length === 0}
+              className="px-5 py-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:border-blue-600 hover:text-blue-600 transition-all shadow-sm disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Export {format}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {visibleLeads.map(v => (
+          <div key={v.id} className="bg-white dark:bg-slate-900 p-10 rounded-[2.5rem] border border-slate-100 dark:border-slate-800 shadow-sm flex flex-col justify-between group transition-colors">
+            <div>
+              <div className="flex justify-between items-start mb-6">
+                <div className="min-w-0">
+                  <h4 className="text-3xl font-black text-slate-900 dark:text-white brand-font uppercase tracking-tight">{v.companyName}</h4>
+                  <span className="text-[10px] font-black text-slate-300 dark:text-slate-600 uppercase tracking-widest">Saved {new Date(v.savedAt || '').toLocaleDateString()}</span>
+                </div>
+                <div title={`Composite score · DNA ${v.dnaScore}%`} className="bg-slate-900 dark:bg-blue-600 px-3 py-1 rounded-lg text-white text-[11px] font-black brand-font ml-4 shrink-0">{scoreLead(v, scoring).total}</div>
+              </div>
+              <p className="text-sm font-medium text-slate-600 dark:text-slate-400 leading-relaxed mb-8">{v.matchReasoning}</p>
+            </div>
+            <div className="flex gap-4">
+              <button
+                onClick={() => onPushToBoard(v)}
+                className="flex-grow py-4 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-blue-700 transition-all shadow-lg shadow-blue-500/10"
+              >
+                Push to Board
+              </button>
+              <button
+                onClick={() => onDelete(v.id)}
+                className="px-8 py-4 bg-slate-50 dark:bg-slate-800 text-red-500 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-red-50 dark:hover:bg-red-900/20 transition-all"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+        {vault.length === 0 && (
+          <div className="col-span-full py-40 text-center opacity-20">
+            <p className="text-[12px] font-black uppercase tracking-[0.5em]">The Vault is currently empty.</p>
+          </div>
+        )}
+        {vault.length > 0 && visibleLeads.length === 0 && (
+          <div className="col-span-full py-20 text-center opacity-40">
+            <p className="text-[12px] font-black uppercase tracking-[0.5em]">No vault leads match these filters.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VaultTab;
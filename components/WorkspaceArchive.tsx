@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { AppState } from '../types';
+import { downloadArchive, parseArchive, ParsedArchive, ImportMode, ArchiveError, ARCHIVE_EXTENSION } from '../lib/archive';
+
+interface WorkspaceArchiveProps {
+  state: AppState;
+  onImport: (mode: ImportMode, archive: ParsedArchive) => void;
+  onClose: () => void;
+}
+
+const COLLECTION_LABELS: Record<string, string> = {
+  sponsors: 'Sponsors',
+  deals: 'Deals',
+  activities: 'Activities',
+  vault: 'Vault Leads',
+  discoveryHistory: 'Sessions',
+  personas: 'Personas',
+  discoveryJobs: 'Scheduled Searches',
+  workflows: 'Flows',
+  socialMessages: 'Signals',
+  usageLedger: 'Usage Records',
+};
+
+const WorkspaceArchive: React.FC<WorkspaceArchiveProps> = ({ state, onImport, onClose }) => {
+  const [parsed, setParsed] = useState<ParsedArchive | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ImportMode>('MERGE');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setParsed(null);
+    setError(null);
+
+    try {
+      const text = await file.text();
+      setParsed(parseArchive(text));
+    } catch (err) {
+      console.error('Archive import error:', err);
+      setError(err instanceof ArchiveError ? err.message : 'Could not read archive file.');
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!parsed) return;
+    onImport(mode, parsed);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[100] flex items-center justify-center p-6 animate-fade-in">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-lg rounded-[2.5rem] p-10 shadow-2xl space-y-8 border border-slate-100 dark:border-slate-800 transition-colors max-h-[90vh] overflow-y-auto custom-scrollbar">
+        <div className="flex justify-between items-start">
+          <div>
+            <h4 className="text-2xl font-black text-slate-900 dark:text-white brand-font uppercase tracking-tight">Workspace Archive</h4>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-2">Backup, Restore & Transfer</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-300 dark:text-slate-600 hover:text-slate-900 dark:hover:text-white transition-all">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"></path></svg>
+          </button>
+        </div>
+
+        <div className="p-6 bg-slate-50 dark:bg-slate-800/50 rounded-2xl space-y-4">
+          <div>
+            <p className="text-[11px] font-black uppercase text-slate-900 dark:text-white">Export</p>
+            <p className="text-[9px] text-slate-400 font-bold uppercase">
+              {state.sponsors.length} sponsors • {state.deals.length} deals • {state.vault.length} vault leads • {state.discoveryHistory.length} sessions
+            </p>
+          </div>
+          <button
+            onClick={() => downloadArchive(state)}
+            className="w-full py-4 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-blue-700 transition-all shadow-lg shadow-blue-500/10 active:scale-95"
+          >
+            Download {ARCHIVE_EXTENSION}
+          </button>
+          <p className="text-[9px] font-bold text-slate-400 uppercase">API keys are not included; re-enter them after restoring elsewhere.</p>
+        </div>
+
+        <div className="p-6 bg-slate-50 dark:bg-slate-800/50 rounded-2xl space-y-4">
+          <div>
+            <p className="text-[11px] font-black uppercase text-slate-900 dark:text-white">Import</p>
+            <p className="text-[9px] text-slate-400 font-bold uppercase">{fileName || 'Select a Scout archive file'}</p>
+          </div>
+          <label className="block w-full py-4 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-2xl text-[10px] font-black uppercase tracking-widest text-center text-slate-600 dark:text-slate-300 hover:border-blue-600 transition-all cursor-pointer">
+            Choose File
+            <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+          </label>
+
+          {error && (
+            <p className="text-[10px] font-black uppercase tracking-widest text-red-500">{error}</p>
+          )}
+
+          {parsed && (
+            <div className="space-y-4 animate-fade-in">
+              <div className="grid grid-cols-2 gap-2">
+                {Object.entries(COLLECTION_LABELS).map(([key, label]) => {
+                  const records = (parsed.state as Record<string, unknown[] | undefined>)[key];
+                  return (
+                    <div key={key} className="flex justify-between px-3 py-2 bg-white dark:bg-slate-900 rounded-lg border border-slate-100 dark:border-slate-800">
+                      <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">{label}</span>
+                      <span className="text-[10px] font-black text-slate-900 dark:text-white">{records?.length ?? 0}</span>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {parsed.issues.length > 0 && (
+                <div className="p-4 bg-orange-50 dark:bg-orange-900/10 border border-orange-200 dark:border-orange-800/50 rounded-xl space-y-2 max-h-48 overflow-y-auto custom-scrollbar">
+                  <p className="text-[9px] font-black uppercase text-orange-600 dark:text-orange-400 tracking-widest">
+                    {parsed.issues.length} invalid record{parsed.issues.length === 1 ? '' : 's'} will be skipped
+                  </p>
+                  {parsed.issues.map((issue, idx) => (
+                    <div key={idx} className="text-[9px] font-bold text-slate-600 dark:text-slate-400">
+                      <span className="text-orange-600 dark:text-orange-400 uppercase">{issue.collection}{issue.id ? ` ${issue.id}` : issue.index !== undefined ? ` #${issue.index}` : ''}</span>
+                      {' — '}{issue.errors.join('; ')}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-2">
+                {(['MERGE', 'REPLACE'] as const).map(m => (
+                  <button
+                    key={m}
+                    onClick={() => setMode(m)}
+                    className={`py-3 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${mode === m ? 'bg-blue-600 text-white border-blue-600 shadow-lg' : 'bg-white dark:bg-slate-900 text-slate-400 border-slate-200 dark:border-slate-700'}`}
+                  >
+                    {m === 'MERGE' ? 'Merge' : 'Replace'}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[9px] font-bold text-slate-400 uppercase">
+                {mode === 'MERGE'
+                  ? 'Adds new records and skips sponsors already on your board.'
+                  : 'Overwrites this workspace with the archive contents.'}
+              </p>
+
+              <button
+                onClick={handleConfirm}
+                className={`w-full py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 ${mode === 'REPLACE' ? 'bg-red-600 text-white hover:bg-red-700' : 'bg-slate-900 dark:bg-white text-white dark:text-slate-900'}`}
+              >
+                {mode === 'MERGE' ? 'Merge Archive' : 'Replace Workspace'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceArchive;
@@ -2,7 +2,8 @@
  * Apollo.io API Client for Deep Scan Enrichment
  *
  * Provides functions to enrich company and contact data using Apollo.io's API.
- * Requires APOLLO_API_KEY environment variable to be set.
+ * Requires APOLLO_API_KEY environment variable to be set. Requests run through
+ * the shared executor (rate limited, retried on 429/5xx).
  */
 
 import axios, { AxiosInstance, AxiosError } from 'axios';
@@ -12,6 +13,8 @@ import {
   ApolloEnrichmentResult,
   ApolloApiResponse
 } from '../types';
+import { executeRequest, RequestError } from './request-executor';
+import { reportUsage } from './usage';
 
 const APOLLO_BASE_URL = 'https://api.apollo.io/api/v1';
 
@@ -54,7 +57,7 @@ function createApolloClient(): AxiosInstance | null {
 /**
  * Extract domain from a URL or return as-is if already a domain
  */
-function extractDomain(urlOrDomain: string): string {
+export function extractDomain(urlOrDomain: string): string {
   try {
     // Remove protocol if present
     let cleaned = urlOrDomain.replace(/^https?:\/\//, '');
@@ -74,9 +77,10 @@ function extractDomain(urlOrDomain: string): string {
  * Enrich a single company using Apollo Organization Enrichment API
  *
  * @param domain - Company domain (e.g., "example.com")
+ * @param signal - Cancels the request
  * @returns Organization data or null if enrichment fails
  */
-export async function enrichCompany(domain: string): Promise<ApolloOrganization | null> {
+export async function enrichCompany(domain: string, signal?: AbortSignal): Promise<ApolloOrganization | null> {
   const client = createApolloClient();
   if (!client) {
     return null;
@@ -87,12 +91,13 @@ export async function enrichCompany(domain: string): Promise<ApolloOrganization
   try {
     console.log(`🔍 Apollo: Enriching company ${cleanDomain}...`);
 
-    const response = await client.post<ApolloApiResponse<ApolloOrganization>>(
+    const response = await executeRequest('APOLLO', () => client.post<ApolloApiResponse<ApolloOrganization>>(
       '/organizations/enrich',
       {
         domain: cleanDomain,
-      }
-    );
+      },
+      { signal }
+    ), 'company enrichment', signal);
 
     if (response.data.organization) {
       console.log(`✅ Apollo: Successfully enriched ${cleanDomain}`);
@@ -102,11 +107,10 @@ export async function enrichCompany(domain: string): Promise<ApolloOrganization
     console.warn(`⚠️ Apollo: No organization data found for ${cleanDomain}`);
     return null;
   } catch (error) {
-    const axiosError = error as AxiosError;
-    if (axiosError.response?.status === 404) {
+    if (error instanceof RequestError && error.status === 404) {
       console.warn(`⚠️ Apollo: Organization not found for ${cleanDomain}`);
     } else {
-      console.error(`❌ Apollo: Failed to enrich ${cleanDomain}:`, axiosError.message);
+      console.error(`❌ Apollo: Failed to enrich ${cleanDomain}:`, (error as Error).message);
     }
     return null;
   }
@@ -118,12 +122,14 @@ export async function enrichCompany(domain: string): Promise<ApolloOrganization
  * @param domain - Company domain
  * @param jobTitles - Array of job titles to search for (e.g., ["CEO", "CMO", "Marketing Director"])
  * @param limit - Maximum number of contacts to return (default: 5)
+ * @param signal - Cancels the request
  * @returns Array of people found at the company
  */
 export async function findDecisionMakers(
   domain: string,
   jobTitles: string[] = ['CEO', 'CMO', 'VP Marketing', 'Marketing Director', 'Brand Manager'],
-  limit: number = 5
+  limit: number = 5,
+  signal?: AbortSignal
 ): Promise<ApolloPerson[]> {
   const client = createApolloClient();
   if (!client) {
@@ -135,23 +141,23 @@ export async function findDecisionMakers(
   try {
     console.log(`🔍 Apollo: Finding decision makers at ${cleanDomain}...`);
 
-    const response = await client.post<ApolloApiResponse<ApolloPerson>>(
+    const response = await executeRequest('APOLLO', () => client.post<ApolloApiResponse<ApolloPerson>>(
       '/mixed_people/search',
       {
         organization_domains: [cleanDomain],
         person_titles: jobTitles,
         page: 1,
         per_page: limit,
-      }
-    );
+      },
+      { signal }
+    ), 'people search', signal);
 
     const people = response.data.people || [];
     console.log(`✅ Apollo: Found ${people.length} decision makers at ${cleanDomain}`);
 
     return people;
   } catch (error) {
-    const axiosError = error as AxiosError;
-    console.error(`❌ Apollo: Failed to find decision makers at ${cleanDomain}:`, axiosError.message);
+    console.error(`❌ Apollo: Failed to find decision makers at ${cleanDomain}:`, (error as Error).message);
     return [];
   }
 }
@@ -174,20 +180,19 @@ export async function bulkEnrichCompanies(domains: string[]): Promise<(ApolloOrg
   try {
     console.log(`🔍 Apollo: Bulk enriching ${cleanDomains.length} companies...`);
 
-    const response = await client.post<ApolloApiResponse<ApolloOrganization>>(
+    const response = await executeRequest('APOLLO', () => client.post<ApolloApiResponse<ApolloOrganization>>(
       '/organizations/bulk_enrich',
       {
         domains: cleanDomains,
       }
-    );
+    ), 'bulk enrichment');
 
     const organizations = response.data.organizations || [];
     console.log(`✅ Apollo: Successfully enriched ${organizations.length}/${cleanDomains.length} companies`);
 
     return organizations;
   } catch (error) {
-    const axiosError = error as AxiosError;
-    console.error(`❌ Apollo: Bulk enrichment failed:`, axiosError.message);
+    console.error(`❌ Apollo: Bulk enrichment failed:`, (error as Error).message);
     return domains.map(() => null);
   }
 }
@@ -197,9 +202,10 @@ export async function bulkEnrichCompanies(domains: string[]): Promise<(ApolloOrg
  * This is the main function used by Deep Scan
  *
  * @param domain - Company domain or website URL
+ * @param signal - Cancels both lookups
  * @returns Combined enrichment result
  */
-export async function fullEnrichment(domain: string): Promise<ApolloEnrichmentResult> {
+export async function fullEnrichment(domain: string, signal?: AbortSignal): Promise<ApolloEnrichmentResult> {
   if (!domain || domain.trim() === '') {
     return {
       success: false,
@@ -220,11 +226,15 @@ export async function fullEnrichment(domain: string): Promise<ApolloEnrichmentRe
   try {
     // Run company enrichment and decision maker search in parallel
     const [organization, people] = await Promise.all([
-      enrichCompany(cleanDomain),
-      findDecisionMakers(cleanDomain),
+      enrichCompany(cleanDomain, signal),
+      findDecisionMakers(cleanDomain, undefined, undefined, signal),
     ]);
 
     const success = !!(organization || people.length > 0);
+    const creditsUsed = (organization ? 1 : 0) + (people.length > 0 ? 1 : 0);
+    if (creditsUsed > 0) {
+      reportUsage({ provider: 'APOLLO', operation: 'ENRICHMENT', credits: creditsUsed });
+    }
 
     if (success) {
       console.log(`✅ Apollo: Full enrichment completed for ${cleanDomain}`);
@@ -238,7 +248,7 @@ export async function fullEnrichment(domain: string): Promise<ApolloEnrichmentRe
       organization: organization || undefined,
       people: people.length > 0 ? people : undefined,
       success,
-      creditsUsed: (organization ? 1 : 0) + (people.length > 0 ? 1 : 0),
+      creditsUsed,
     };
   } catch (error) {
     const axiosError = error as AxiosError;
@@ -0,0 +1,496 @@
+/**
+ * Workspace Archive (Export / Import)
+ *
+ * Serializes the persisted workspace into a portable `.scout.json` file and reads
+ * it back with record-level validation against the shapes in types.ts. Invalid
+ * records are dropped and reported rather than aborting the whole import.
+ * Provider API keys are never written to an archive.
+ */
+
+import {
+  AppState,
+  AutomationSettings,
+  PipelineStage,
+  Sponsor,
+  Deal,
+  Activity,
+  DiscoveredLead,
+  DiscoverySession,
+} from '../types';
+import { PersistedState } from './storage';
+import { runMigrations, CURRENT_STATE_VERSION, LEGACY_STATE_VERSION } from './migrations';
+import { getIdentityKeys } from './gemini';
+
+export const ARCHIVE_FORMAT = 'scout-workspace';
+export const ARCHIVE_EXTENSION = '.scout.json';
+
+export interface WorkspaceArchive {
+  format: typeof ARCHIVE_FORMAT;
+  stateVersion: number;
+  exportedAt: string;
+  state: PersistedState;
+}
+
+export interface ArchiveIssue {
+  collection: string;
+  index?: number;
+  id?: string;
+  errors: string[];
+}
+
+export interface ParsedArchive {
+  state: Partial<PersistedState>;
+  stateVersion: number;
+  exportedAt?: string;
+  issues: ArchiveIssue[];
+}
+
+export type ImportMode = 'MERGE' | 'REPLACE';
+
+export interface MergeStats {
+  added: number;
+  duplicates: number;
+}
+
+/**
+ * Thrown when a file cannot be read as a Scout archive at all
+ */
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+/**
+ * Field Validators
+ */
+type FieldCheck = { test: (value: unknown) => boolean; expected: string };
+
+const isString: FieldCheck = { test: v => typeof v === 'string', expected: 'string' };
+const isNumber: FieldCheck = { test: v => typeof v === 'number' && Number.isFinite(v), expected: 'number' };
+const isBoolean: FieldCheck = { test: v => typeof v === 'boolean', expected: 'boolean' };
+const isObject: FieldCheck = { test: v => !!v && typeof v === 'object' && !Array.isArray(v), expected: 'object' };
+const isArray: FieldCheck = { test: v => Array.isArray(v), expected: 'array' };
+const oneOf = (values: readonly string[]): FieldCheck => ({
+  test: v => typeof v === 'string' && values.includes(v),
+  expected: values.join(' | '),
+});
+const optional = (check: FieldCheck): FieldCheck => ({
+  test: v => v === undefined || v === null || check.test(v),
+  expected: `${check.expected}?`,
+});
+
+type Shape = Record<string, FieldCheck>;
+
+const VERIFICATION_STATUSES = ['PENDING', 'VERIFYING', 'VERIFIED', 'FAILED', 'COLLISION_DETECTED'] as const;
+
+const SPONSOR_SHAPE: Shape = {
+  id: isString,
+  companyName: isString,
+  contactName: isString,
+  email: isString,
+  industry: isString,
+  phone: optional(isString),
+  address: optional(isString),
+  website: optional(isString),
+  socialLinks: optional(isObject),
+  enrichedContacts: optional(isArray),
+  archivedAt: optional(isString),
+  contactsCheckedAt: optional(isString),
+  dataAlerts: optional(isArray),
+  contactCheckRetry: optional(isObject),
+  websiteStaff: optional(isArray),
+  openingHours: optional(isArray),
+};
+
+const DEAL_SHAPE: Shape = {
+  id: isString,
+  sponsorId: isString,
+  stage: oneOf(Object.values(PipelineStage)),
+  amount: isNumber,
+  tier: isString,
+  notes: isString,
+  currentSequenceStep: isNumber,
+  nextFollowUp: optional(isString),
+  contractEndDate: optional(isString),
+  forensicDossier: optional(isObject),
+  archivedAt: optional(isString),
+  season: optional(isString),
+  renewedFromDealId: optional(isString),
+};
+
+const ACTIVITY_SHAPE: Shape = {
+  id: isString,
+  dealId: isString,
+  type: oneOf(['EMAIL', 'DM', 'CALL', 'NOTE']),
+  content: isString,
+  date: isString,
+};
+
+const LEAD_SHAPE: Shape = {
+  id: isString,
+  companyName: isString,
+  description: isString,
+  website: isString,
+  socialLinks: isObject,
+  dnaScore: isNumber,
+  matchReasoning: isString,
+  verificationStatus: optional(oneOf(VERIFICATION_STATUSES)),
+  pendingCorrections: optional(isArray),
+  websiteStaff: optional(isArray),
+  openingHours: optional(isArray),
+};
+
+const SESSION_SHAPE: Shape = {
+  id: isString,
+  query: isString,
+  location: isString,
+  radius: isString,
+  depth: oneOf(['STANDARD', 'DEEP']),
+  date: isString,
+  leads: isArray,
+};
+
+const PERSONA_SHAPE: Shape = {
+  id: isString,
+  name: isString,
+  industry: isString,
+  size: isString,
+  intent: isString,
+  channels: isObject,
+};
+
+const DISCOVERY_JOB_SHAPE: Shape = {
+  id: isString,
+  name: isString,
+  description: isString,
+  location: isString,
+  radius: isString,
+  depth: oneOf(['STANDARD', 'DEEP']),
+  enabled: isBoolean,
+  createdAt: isString,
+  knownKeys: isArray,
+};
+
+const WORKFLOW_SHAPE: Shape = {
+  id: isString,
+  name: isString,
+  isActive: isBoolean,
+  steps: isArray,
+};
+
+const SOCIAL_MESSAGE_SHAPE: Shape = {
+  id: isString,
+  senderName: isString,
+  senderHandle: isString,
+  platform: oneOf(['INSTAGRAM', 'LINKEDIN']),
+  content: isString,
+  timestamp: isString,
+  identityMatch: isNumber,
+  isArchived: isBoolean,
+  suggestedAction: isString,
+};
+
+const SOCIAL_ACCOUNT_SHAPE: Shape = {
+  platform: oneOf(['INSTAGRAM', 'LINKEDIN']),
+  isConnected: isBoolean,
+  username: isString,
+};
+
+const SENDER_PROFILE_SHAPE: Shape = {
+  orgName: isString,
+  goal: isString,
+  offerOneLiner: isString,
+  ctaStyle: oneOf(['quick_chat', 'email_reply', 'book_call']),
+};
+
+const AUTOMATION_SETTINGS_SHAPE: Shape = {
+  n8nWebhookUrl: isString,
+  apolloApiKey: isString,
+  autoSignalRefresh: isBoolean,
+  notifyOnDeploy: isBoolean,
+  agentFrequency: oneOf(['HOURLY', 'DAILY', 'WEEKLY']),
+  archiveRetentionDays: isNumber,
+  llm: isObject,
+  usageBudget: isObject,
+  scoring: isObject,
+  sponsorRecheckDays: isNumber,
+};
+
+const USAGE_SHAPE: Shape = {
+  id: isString,
+  at: isString,
+  provider: oneOf(['GEMINI', 'OPENAI', 'APOLLO']),
+  operation: isString,
+  estimatedCost: isNumber,
+};
+
+const COLLECTION_SHAPES = {
+  sponsors: SPONSOR_SHAPE,
+  deals: DEAL_SHAPE,
+  activities: ACTIVITY_SHAPE,
+  vault: LEAD_SHAPE,
+  discoveryHistory: SESSION_SHAPE,
+  currentDiscoveryLeads: LEAD_SHAPE,
+  personas: PERSONA_SHAPE,
+  discoveryJobs: DISCOVERY_JOB_SHAPE,
+  workflows: WORKFLOW_SHAPE,
+  socialMessages: SOCIAL_MESSAGE_SHAPE,
+  socialAccounts: SOCIAL_ACCOUNT_SHAPE,
+  usageLedger: USAGE_SHAPE,
+} as const;
+
+const SINGLETON_SHAPES = {
+  senderProfile: SENDER_PROFILE_SHAPE,
+  automationSettings: AUTOMATION_SETTINGS_SHAPE,
+} as const;
+
+/**
+ * Validate a value against a shape
+ *
+ * @returns One message per failing field (empty when valid)
+ */
+export function validateShape(value: unknown, shape: Shape): string[] {
+  if (!isObject.test(value)) return ['expected an object'];
+  const record = value as Record<string, unknown>;
+  return Object.entries(shape)
+    .filter(([field, check]) => !check.test(record[field]))
+    .map(([field, check]) => `${field}: expected ${check.expected}, got ${record[field] === undefined ? 'nothing' : JSON.stringify(record[field])}`);
+}
+
+/**
+ * Keep the valid records of a collection, reporting the rest
+ */
+function validateCollection<T>(collection: string, value: unknown, shape: Shape, issues: ArchiveIssue[]): T[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    issues.push({ collection, errors: ['expected an array'] });
+    return undefined;
+  }
+
+  return value.filter((record, index) => {
+    const errors = validateShape(record, shape);
+    if (errors.length === 0) return true;
+    issues.push({ collection, index, id: typeof record?.id === 'string' ? record.id : undefined, errors });
+    return false;
+  });
+}
+
+/**
+ * Settings without provider API keys, so archives can be shared safely
+ */
+function stripSecrets(settings: AutomationSettings): AutomationSettings {
+  return { ...settings, apolloApiKey: '', llm: { ...settings.llm, openAiApiKey: '' } };
+}
+
+/**
+ * Keep the API keys configured in this workspace when imported settings carry none
+ */
+export function restoreSecrets(imported: AutomationSettings, current: AutomationSettings): AutomationSettings {
+  return {
+    ...imported,
+    apolloApiKey: imported.apolloApiKey || current.apolloApiKey,
+    llm: { ...imported.llm, openAiApiKey: imported.llm?.openAiApiKey || current.llm.openAiApiKey },
+  };
+}
+
+/**
+ * Build the archive payload for the current workspace
+ */
+export function buildArchive(state: AppState): WorkspaceArchive {
+  const { activeTask, ...persistentState } = state;
+  return {
+    format: ARCHIVE_FORMAT,
+    stateVersion: CURRENT_STATE_VERSION,
+    exportedAt: new Date().toISOString(),
+    state: { ...persistentState, automationSettings: stripSecrets(persistentState.automationSettings) },
+  };
+}
+
+/**
+ * Trigger a browser download of the workspace archive
+ */
+export function downloadArchive(state: AppState): void {
+  const archive = buildArchive(state);
+  const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = `scout-workspace-${archive.exportedAt.split('T')[0]}${ARCHIVE_EXTENSION}`;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  // Revoking synchronously can cancel the download before the browser starts it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Parse, migrate and validate an archive file
+ *
+ * @param text - Raw file contents
+ * @throws ArchiveError if the file is not JSON, not a Scout archive, or cannot be migrated
+ */
+export function parseArchive(text: string): ParsedArchive {
+  let payload: any;
+  try {
+    payload = JSON.parse(text);
+  } catch (error) {
+    throw new ArchiveError('File is not valid JSON.');
+  }
+
+  if (!payload || payload.format !== ARCHIVE_FORMAT || !isObject.test(payload.state)) {
+    throw new ArchiveError('File is not a Scout workspace archive.');
+  }
+  if (payload.stateVersion === undefined) {
+    throw new ArchiveError('Archive is missing its state version.');
+  }
+  if (!Number.isInteger(payload.stateVersion) || payload.stateVersion < LEGACY_STATE_VERSION) {
+    throw new ArchiveError(`Archive has an invalid state version (${JSON.stringify(payload.stateVersion)}).`);
+  }
+  if (payload.stateVersion > CURRENT_STATE_VERSION) {
+    throw new ArchiveError(`Archive was created by a newer version of Scout (v${payload.stateVersion}; this build reads up to v${CURRENT_STATE_VERSION}).`);
+  }
+
+  let migrated: any;
+  try {
+    migrated = runMigrations(payload.state, payload.stateVersion).state;
+  } catch (error) {
+    throw new ArchiveError(`Archive could not be upgraded from v${payload.stateVersion}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const issues: ArchiveIssue[] = [];
+  const state: Record<string, unknown> = {};
+
+  (Object.keys(COLLECTION_SHAPES) as (keyof typeof COLLECTION_SHAPES)[]).forEach(collection => {
+    const records = validateCollection(collection, migrated[collection], COLLECTION_SHAPES[collection], issues);
+    if (records) state[collection] = records;
+  });
+
+  (Object.keys(SINGLETON_SHAPES) as (keyof typeof SINGLETON_SHAPES)[]).forEach(key => {
+    if (migrated[key] === undefined) return;
+    const errors = validateShape(migrated[key], SINGLETON_SHAPES[key]);
+    if (errors.length > 0) issues.push({ collection: key, errors });
+    else state[key] = migrated[key];
+  });
+
+  if (migrated.theme !== undefined) {
+    if (migrated.theme === 'light' || migrated.theme === 'dark') state.theme = migrated.theme;
+    else issues.push({ collection: 'theme', errors: [`expected light | dark, got ${JSON.stringify(migrated.theme)}`] });
+  }
+
+  // Session leads are nested records; drop the invalid ones in place
+  if (state.discoveryHistory) {
+    state.discoveryHistory = (state.discoveryHistory as DiscoverySession[]).map(session => ({
+      ...session,
+      leads: validateCollection<DiscoveredLead>(`discoveryHistory[${session.id}].leads`, session.leads, LEAD_SHAPE, issues) || [],
+    }));
+  }
+
+  // Referential integrity: deals need a sponsor, activities need a deal
+  const sponsorIds = new Set(((state.sponsors as Sponsor[]) || []).map(s => s.id));
+  if (state.deals) {
+    state.deals = (state.deals as Deal[]).filter(deal => {
+      if (sponsorIds.has(deal.sponsorId)) return true;
+      issues.push({ collection: 'deals', id: deal.id, errors: [`sponsorId: no sponsor with id ${deal.sponsorId}`] });
+      return false;
+    });
+  }
+  const dealIds = new Set(((state.deals as Deal[]) || []).map(d => d.id));
+  if (state.activities) {
+    state.activities = (state.activities as Activity[]).filter(activity => {
+      if (dealIds.has(activity.dealId)) return true;
+      issues.push({ collection: 'activities', id: activity.id, errors: [`dealId: no deal with id ${activity.dealId}`] });
+      return false;
+    });
+  }
+
+  return {
+    state: state as Partial<PersistedState>,
+    stateVersion: payload.stateVersion,
+    exportedAt: typeof payload.exportedAt === 'string' ? payload.exportedAt : undefined,
+    issues,
+  };
+}
+
+/**
+ * Append records whose id is not already present
+ */
+function mergeById<T extends { id: string }>(current: T[], incoming: T[] | undefined, stats: MergeStats): T[] {
+  if (!incoming) return current;
+  const ids = new Set(current.map(r => r.id));
+  const additions = incoming.filter(r => {
+    if (ids.has(r.id)) {
+      stats.duplicates++;
+      return false;
+    }
+    ids.add(r.id);
+    return true;
+  });
+  stats.added += additions.length;
+  return additions.length > 0 ? [...current, ...additions] : current;
+}
+
+/**
+ * Merge an imported workspace into the current one
+ *
+ * Sponsors and vault leads are deduplicated by identity key (domain, Instagram
+ * handle, or name + address); deals of a duplicate sponsor are re-pointed at the
+ * existing sponsor. Every other collection is deduplicated by id. Settings and
+ * the sender profile of the current workspace are kept.
+ */
+export function mergeWorkspaces(current: PersistedState, incoming: Partial<PersistedState>): { state: PersistedState; stats: MergeStats } {
+  const stats: MergeStats = { added: 0, duplicates: 0 };
+
+  const keyOwner = new Map<string, string>();
+  current.sponsors.forEach(s => getIdentityKeys(s).forEach(k => keyOwner.set(k, s.id)));
+  const sponsorIds = new Set(current.sponsors.map(s => s.id));
+  const sponsorRemap = new Map<string, string>();
+  const newSponsors: Sponsor[] = [];
+
+  (incoming.sponsors || []).forEach(sponsor => {
+    const keys = getIdentityKeys(sponsor);
+    const existingId = keys.map(k => keyOwner.get(k)).find(Boolean) || (sponsorIds.has(sponsor.id) ? sponsor.id : undefined);
+    if (existingId) {
+      sponsorRemap.set(sponsor.id, existingId);
+      stats.duplicates++;
+      return;
+    }
+    keys.forEach(k => keyOwner.set(k, sponsor.id));
+    sponsorIds.add(sponsor.id);
+    newSponsors.push(sponsor);
+  });
+  stats.added += newSponsors.length;
+
+  const incomingDeals = incoming.deals?.map(deal =>
+    sponsorRemap.has(deal.sponsorId) ? { ...deal, sponsorId: sponsorRemap.get(deal.sponsorId)! } : deal
+  );
+
+  const vaultKeys = new Set<string>();
+  current.vault.forEach(v => getIdentityKeys(v).forEach(k => vaultKeys.add(k)));
+  const incomingVault = incoming.vault?.filter(lead => {
+    const keys = getIdentityKeys(lead);
+    if (keys.some(k => vaultKeys.has(k))) {
+      stats.duplicates++;
+      return false;
+    }
+    keys.forEach(k => vaultKeys.add(k));
+    return true;
+  });
+
+  return {
+    state: {
+      ...current,
+      sponsors: newSponsors.length > 0 ? [...current.sponsors, ...newSponsors] : current.sponsors,
+      deals: mergeById(current.deals, incomingDeals, stats),
+      activities: mergeById(current.activities, incoming.activities, stats),
+      vault: mergeById(current.vault, incomingVault, stats),
+      discoveryHistory: mergeById(current.discoveryHistory, incoming.discoveryHistory, stats),
+      personas: mergeById(current.personas, incoming.personas, stats),
+      discoveryJobs: mergeById(current.discoveryJobs, incoming.discoveryJobs, stats),
+      workflows: mergeById(current.workflows, incoming.workflows, stats),
+      socialMessages: mergeById(current.socialMessages, incoming.socialMessages, stats),
+      usageLedger: mergeById(current.usageLedger, incoming.usageLedger, stats),
+    },
+    stats,
+  };
+}
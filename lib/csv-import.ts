@@ -0,0 +1,189 @@
+/**
+ * CSV Sponsor Import
+ *
+ * Maps arbitrary spreadsheet columns onto Sponsor and Deal fields, normalizes
+ * values, and flags rows that collide with sponsors or vault leads already in
+ * the workspace (or with earlier rows of the same file) via identity keys.
+ */
+
+import { Sponsor, Deal, DiscoveredLead, PipelineStage } from '../types';
+import { STAGE_LABELS } from '../constants';
+import { getIdentityKeys, normalizeDomain } from './gemini';
+
+export type ImportFieldKey =
+  | 'companyName' | 'contactName' | 'email' | 'phone' | 'website' | 'industry'
+  | 'instagram' | 'linkedIn' | 'twitter' | 'facebook'
+  | 'stage' | 'amount' | 'tier' | 'nextFollowUp' | 'notes';
+
+export interface ImportField {
+  key: ImportFieldKey;
+  label: string;
+  target: 'SPONSOR' | 'DEAL';
+  required?: boolean;
+  /** Lowercased header names recognized automatically */
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: 'companyName', label: 'Company Name', target: 'SPONSOR', required: true, aliases: ['company', 'company name', 'companyname', 'organization', 'business', 'sponsor', 'name'] },
+  { key: 'contactName', label: 'Contact Name', target: 'SPONSOR', aliases: ['contact', 'contact name', 'contactname', 'contact person', 'full name'] },
+  { key: 'email', label: 'Email', target: 'SPONSOR', aliases: ['email', 'e-mail', 'email address', 'contact email'] },
+  { key: 'phone', label: 'Phone', target: 'SPONSOR', aliases: ['phone', 'phone number', 'telephone', 'tel', 'mobile'] },
+  { key: 'website', label: 'Website', target: 'SPONSOR', aliases: ['website', 'url', 'site', 'web', 'domain'] },
+  { key: 'industry', label: 'Industry', target: 'SPONSOR', aliases: ['industry', 'niche', 'category', 'sector'] },
+  { key: 'instagram', label: 'Instagram', target: 'SPONSOR', aliases: ['instagram', 'ig', 'instagram handle'] },
+  { key: 'linkedIn', label: 'LinkedIn', target: 'SPONSOR', aliases: ['linkedin', 'linkedin url'] },
+  { key: 'twitter', label: 'Twitter/X', target: 'SPONSOR', aliases: ['twitter', 'x', 'twitter handle'] },
+  { key: 'facebook', label: 'Facebook', target: 'SPONSOR', aliases: ['facebook', 'fb'] },
+  { key: 'stage', label: 'Stage', target: 'DEAL', aliases: ['stage', 'phase', 'status', 'pipeline stage'] },
+  { key: 'amount', label: 'Amount ($)', target: 'DEAL', aliases: ['amount', 'value', 'deal value', 'target', 'price'] },
+  { key: 'tier', label: 'Tier', target: 'DEAL', aliases: ['tier', 'level', 'package', 'sponsorship tier'] },
+  { key: 'nextFollowUp', label: 'Next Follow-up', target: 'DEAL', aliases: ['next follow-up', 'next follow up', 'follow up', 'followup', 'next contact'] },
+  { key: 'notes', label: 'Notes', target: 'DEAL', aliases: ['notes', 'note', 'comments', 'description'] },
+];
+
+/** Column index per field; -1 means unmapped */
+export type ColumnMapping = Record<ImportFieldKey, number>;
+
+export interface ImportCollision {
+  kind: 'SPONSOR' | 'VAULT' | 'FILE';
+  name: string;
+}
+
+export interface ImportRow {
+  /** 1-based row number in the file (excluding the header) */
+  rowNumber: number;
+  sponsor: Omit<Sponsor, 'id'>;
+  deal: Omit<Deal, 'id' | 'sponsorId'>;
+  errors: string[];
+  collision?: ImportCollision;
+}
+
+export const DEFAULT_IMPORT_DEAL = {
+  stage: PipelineStage.DISCOVERY,
+  amount: 1000,
+  tier: 'Community Partner',
+};
+
+/**
+ * Guess a column mapping from header names
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(h => h.trim().toLowerCase().replace(/[_\s]+/g, ' '));
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  IMPORT_FIELDS.forEach(field => {
+    const index = normalized.findIndex((h, i) => !used.has(i) && field.aliases.includes(h));
+    mapping[field.key] = index;
+    if (index >= 0) used.add(index);
+  });
+
+  return mapping;
+}
+
+/**
+ * Accept either the enum value or its board label (e.g. "Negotiation", "Closed Won")
+ */
+function parseStage(value: string): PipelineStage | null {
+  const clean = value.trim();
+  if (!clean) return DEFAULT_IMPORT_DEAL.stage;
+  const upper = clean.toUpperCase().replace(/[\s-]+/g, '_');
+  if ((Object.values(PipelineStage) as string[]).includes(upper)) return upper as PipelineStage;
+  const byLabel = (Object.entries(STAGE_LABELS) as [PipelineStage, string][])
+    .find(([, label]) => label.toLowerCase() === clean.toLowerCase());
+  return byLabel ? byLabel[0] : null;
+}
+
+function parseAmount(value: string): number | null {
+  const clean = value.replace(/[$,\s]/g, '');
+  if (!clean) return DEFAULT_IMPORT_DEAL.amount;
+  const amount = Number(clean);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+/**
+ * Normalize a date cell to YYYY-MM-DD (the format the board compares against)
+ */
+function parseDate(value: string): string | null | undefined {
+  const clean = value.trim();
+  if (!clean) return undefined;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(clean)) return clean;
+  const date = new Date(clean);
+  return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+}
+
+/**
+ * Convert parsed CSV rows into sponsor/deal pairs with validation and collision flags
+ *
+ * @param rows - Data rows (header excluded)
+ * @param mapping - Column index per field
+ * @param existing - Workspace records to check collisions against
+ */
+export function buildImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  existing: { sponsors: Sponsor[]; vault: DiscoveredLead[] }
+): ImportRow[] {
+  const known = new Map<string, ImportCollision>();
+  existing.sponsors.forEach(s => getIdentityKeys(s).forEach(k => known.set(k, { kind: 'SPONSOR', name: s.archivedAt ? `${s.companyName} (archived)` : s.companyName })));
+  existing.vault.forEach(v => getIdentityKeys(v).forEach(k => {
+    if (!known.has(k)) known.set(k, { kind: 'VAULT', name: v.companyName });
+  }));
+
+  return rows.map((cells, index) => {
+    const cell = (key: ImportFieldKey) => (mapping[key] >= 0 ? (cells[mapping[key]] || '').trim() : '');
+    const errors: string[] = [];
+
+    const companyName = cell('companyName');
+    if (!companyName) errors.push('Company name is missing');
+
+    const stage = parseStage(cell('stage'));
+    if (!stage) errors.push(`Unknown stage "${cell('stage')}"`);
+
+    const amount = parseAmount(cell('amount'));
+    if (amount === null) errors.push(`Invalid amount "${cell('amount')}"`);
+
+    const nextFollowUp = parseDate(cell('nextFollowUp'));
+    if (nextFollowUp === null) errors.push(`Invalid date "${cell('nextFollowUp')}"`);
+
+    const rawWebsite = cell('website');
+    const domain = normalizeDomain(rawWebsite);
+    const website = domain ? (/^https?:\/\//i.test(rawWebsite) ? rawWebsite : `https://${rawWebsite}`) : undefined;
+
+    const socialLinks: Sponsor['socialLinks'] = {};
+    if (cell('instagram')) socialLinks.instagram = cell('instagram');
+    if (cell('linkedIn')) socialLinks.linkedIn = cell('linkedIn');
+    if (cell('twitter')) socialLinks.twitter = cell('twitter');
+    if (cell('facebook')) socialLinks.facebook = cell('facebook');
+
+    const sponsor: Omit<Sponsor, 'id'> = {
+      companyName,
+      contactName: cell('contactName'),
+      email: cell('email'),
+      phone: cell('phone') || undefined,
+      website,
+      industry: cell('industry') || 'CSV Import',
+      socialLinks,
+      primarySignalSource: 'CSV Import',
+    };
+
+    const deal: Omit<Deal, 'id' | 'sponsorId'> = {
+      stage: stage || DEFAULT_IMPORT_DEAL.stage,
+      amount: amount ?? DEFAULT_IMPORT_DEAL.amount,
+      tier: cell('tier') || DEFAULT_IMPORT_DEAL.tier,
+      nextFollowUp: nextFollowUp || undefined,
+      notes: cell('notes'),
+      currentSequenceStep: 1,
+    };
+
+    let collision: ImportCollision | undefined;
+    if (companyName) {
+      const keys = getIdentityKeys(sponsor);
+      collision = keys.map(k => known.get(k)).find(Boolean);
+      if (!collision) keys.forEach(k => known.set(k, { kind: 'FILE', name: `${companyName} (row ${index + 1})` }));
+    }
+
+    return { rowNumber: index + 1, sponsor, deal, errors, collision };
+  });
+}
@@ -0,0 +1,85 @@
+/**
+ * CSV Parsing & Serialization (RFC 4180)
+ *
+ * Handles quoted fields, escaped quotes, embedded newlines and CRLF line endings.
+ * Serialized text cells that a spreadsheet app would run as a formula are
+ * prefixed with an apostrophe (CSV injection).
+ */
+
+/**
+ * Parse CSV text into rows of string cells
+ *
+ * @param text - Raw CSV content (a leading BOM is ignored)
+ * @param delimiter - Field separator (default: ',')
+ * @returns Rows with fully empty lines removed
+ */
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Whether a text cell would be evaluated as a formula by Excel, Sheets or LibreOffice
+ */
+export function isFormulaLike(value: string): boolean {
+  return /^[=+\-@\t\r]/.test(value);
+}
+
+/**
+ * Quote a single cell if it contains a delimiter, quote or newline; neutralize formulas
+ */
+function escapeCell(value: unknown, delimiter: string): string {
+  if (value === undefined || value === null) return '';
+  const str = typeof value === 'string' && isFormulaLike(value) ? `'${value}` : String(value);
+  return /["\r\n]/.test(str) || str.includes(delimiter) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * Serialize rows into CSV text (CRLF line endings, as spreadsheet apps expect)
+ */
+export function toCsv(rows: unknown[][], delimiter: string = ','): string {
+  return rows.map(row => row.map(cell => escapeCell(cell, delimiter)).join(delimiter)).join('\r\n');
+}
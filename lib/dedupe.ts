@@ -0,0 +1,387 @@
+/**
+ * Duplicate Detection & Merge
+ *
+ * Clusters sponsors, deals and vault leads that share identity keys
+ * (`dom:` / `ig:` / `name:`) or have near-identical company names, and merges
+ * a cluster into one record chosen field-by-field. Merging sponsors re-points
+ * their deals; merging deals re-points their activities.
+ */
+
+import { AppState, Sponsor, Deal, DiscoveredLead, ContactField, FieldEvidence } from '../types';
+import { getIdentityKeys } from './gemini';
+import { dealLabel } from './renewals';
+
+export type DuplicateKind = 'SPONSOR' | 'DEAL' | 'LEAD';
+
+export interface DuplicateCluster {
+  /** Stable signature: kind + sorted record ids */
+  id: string;
+  kind: DuplicateKind;
+  recordIds: string[];
+  /** Why the records were grouped, e.g. "dom:acme.com" or "Similar names (91%)" */
+  reasons: string[];
+}
+
+type MergeState = Pick<AppState, 'sponsors' | 'deals' | 'activities' | 'vault'>;
+
+/** Minimum bigram similarity for two company names to count as the same entity */
+export const FUZZY_NAME_THRESHOLD = 0.88;
+
+const COMPANY_SUFFIXES = /\b(the|inc|incorporated|llc|ltd|limited|co|corp|corporation|company|group|plc|gmbh)\b/g;
+
+/**
+ * Canonical company name for fuzzy comparison ("The Acme Co., LLC" → "acme")
+ */
+export function normalizeCompanyName(name: string): string {
+  return (name || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(COMPANY_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function bigrams(value: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  const compact = value.replace(/\s+/g, '');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+}
+
+/** Normalized name and its bigrams, computed once per record when clustering */
+interface NameProfile {
+  normalized: string;
+  grams: Map<string, number>;
+  gramCount: number;
+}
+
+function nameProfile(name: string): NameProfile {
+  const normalized = normalizeCompanyName(name);
+  const grams = bigrams(normalized);
+  let gramCount = 0;
+  grams.forEach(count => { gramCount += count; });
+  return { normalized, grams, gramCount };
+}
+
+function profileSimilarity(left: NameProfile, right: NameProfile): number {
+  if (!left.normalized || !right.normalized) return 0;
+  if (left.normalized === right.normalized) return 1;
+
+  const total = left.gramCount + right.gramCount;
+  if (total === 0) return 0;
+  let overlap = 0;
+  left.grams.forEach((count, gram) => {
+    overlap += Math.min(count, right.grams.get(gram) || 0);
+  });
+  return (2 * overlap) / total;
+}
+
+/**
+ * Sørensen–Dice similarity of two company names (0..1)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  return profileSimilarity(nameProfile(a), nameProfile(b));
+}
+
+/**
+ * Group records linked by shared identity keys or fuzzy name matches (union-find)
+ */
+function clusterRecords<T extends { id: string }>(
+  kind: DuplicateKind,
+  records: T[],
+  keysOf: (record: T) => string[],
+  nameOf?: (record: T) => string
+): DuplicateCluster[] {
+  const parent = records.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const reasons = new Map<number, Set<string>>();
+  const link = (a: number, b: number, reason: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const merged = new Set([...(reasons.get(rootA) || []), ...(reasons.get(rootB) || []), reason]);
+    parent[rootB] = rootA;
+    reasons.set(rootA, merged);
+  };
+
+  const keyOwner = new Map<string, number>();
+  records.forEach((record, i) => {
+    keysOf(record).forEach(key => {
+      const owner = keyOwner.get(key);
+      if (owner === undefined) keyOwner.set(key, i);
+      else link(owner, i, key);
+    });
+  });
+
+  const profiles = nameOf ? records.map(record => nameProfile(nameOf(record))) : [];
+  for (let i = 0; i < profiles.length; i++) {
+    for (let j = i + 1; j < profiles.length; j++) {
+      if (find(i) === find(j)) continue;
+      const score = profileSimilarity(profiles[i], profiles[j]);
+      if (score >= FUZZY_NAME_THRESHOLD) link(i, j, `Similar names (${Math.round(score * 100)}%)`);
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  records.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), i]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => {
+      const recordIds = members.map(i => records[i].id);
+      return {
+        id: `${kind}:${[...recordIds].sort().join(',')}`,
+        kind,
+        recordIds,
+        reasons: Array.from(reasons.get(root) || []),
+      };
+    });
+}
+
+/**
+ * Sponsors sharing an identity key or a near-identical name
+ */
+export function findSponsorDuplicates(sponsors: Sponsor[]): DuplicateCluster[] {
+  return clusterRecords<Sponsor>('SPONSOR', sponsors, getIdentityKeys, s => s.companyName);
+}
+
+/**
+ * Active deals for the same sponsor, season and tier
+ */
+export function findDealDuplicates(deals: Deal[]): DuplicateCluster[] {
+  return clusterRecords<Deal>(
+    'DEAL',
+    deals.filter(d => !d.archivedAt),
+    d => [`deal:${d.sponsorId}|${dealLabel(d).toLowerCase()}`]
+  ).map(cluster => ({ ...cluster, reasons: ['Same sponsor, season and tier'] }));
+}
+
+/**
+ * Vault leads sharing an identity key or a near-identical name
+ */
+export function findLeadDuplicates(vault: DiscoveredLead[]): DuplicateCluster[] {
+  return clusterRecords<DiscoveredLead>('LEAD', vault, getIdentityKeys, l => l.companyName);
+}
+
+/**
+ * Find duplicate sponsors, deals and vault leads
+ */
+export function findDuplicateClusters(state: MergeState): DuplicateCluster[] {
+  return [...findSponsorDuplicates(state.sponsors), ...findDealDuplicates(state.deals), ...findLeadDuplicates(state.vault)];
+}
+
+// ============================================================================
+// FIELD-BY-FIELD DIFF
+// ============================================================================
+
+export interface MergeField<T> {
+  key: string;
+  label: string;
+  read: (record: T) => string | number | undefined;
+  /** Forensic evidence behind the value, when the record carries a ContactField */
+  evidence?: (record: T) => FieldEvidence | undefined;
+  /** Copy this field (and its evidence) from `source` onto `target` */
+  copy: (target: T, source: T) => T;
+}
+
+const plainField = <T,>(key: keyof T & string, label: string): MergeField<T> => ({
+  key,
+  label,
+  read: record => {
+    const value = record[key];
+    return typeof value === 'string' || typeof value === 'number' ? value : undefined;
+  },
+  copy: (target, source) => ({ ...target, [key]: source[key] }),
+});
+
+/** Top-level field with a forensic shadow field, e.g. email + emailField */
+const forensicField = <T extends { [k: string]: any }>(key: string, shadow: string, label: string): MergeField<T> => ({
+  key,
+  label,
+  read: record => (record[shadow] as ContactField | undefined)?.value || record[key],
+  evidence: record => (record[shadow] as ContactField | undefined)?.evidence,
+  copy: (target, source) => ({ ...target, [key]: source[key], [shadow]: source[shadow] }),
+});
+
+/** socialLinks.<platform> with a forensic shadow field */
+const socialField = <T extends { socialLinks?: any; [k: string]: any }>(platform: string, shadow: string | null, label: string): MergeField<T> => ({
+  key: `socialLinks.${platform}`,
+  label,
+  read: record => record.socialLinks?.[platform],
+  evidence: shadow ? record => (record[shadow] as ContactField | undefined)?.evidence : undefined,
+  copy: (target, source) => ({
+    ...target,
+    socialLinks: { ...target.socialLinks, [platform]: source.socialLinks?.[platform] },
+    ...(shadow ? { [shadow]: source[shadow] } : {}),
+  }),
+});
+
+export const SPONSOR_MERGE_FIELDS: MergeField<Sponsor>[] = [
+  plainField('companyName', 'Company'),
+  forensicField('contactName', 'contactNameField', 'Contact'),
+  forensicField('email', 'emailField', 'Email'),
+  forensicField('phone', 'phoneField', 'Phone'),
+  forensicField('website', 'websiteField', 'Website'),
+  forensicField('address', 'addressField', 'Address'),
+  plainField('industry', 'Industry'),
+  socialField('instagram', 'instagramField', 'Instagram'),
+  socialField('linkedIn', 'linkedInField', 'LinkedIn'),
+  socialField('twitter', 'twitterField', 'Twitter'),
+  socialField('facebook', null, 'Facebook'),
+  plainField('latestSignal', 'Latest Signal'),
+];
+
+export const LEAD_MERGE_FIELDS: MergeField<DiscoveredLead>[] = [
+  plainField('companyName', 'Company'),
+  plainField('description', 'Description'),
+  forensicField('email', 'emailField', 'Email'),
+  forensicField('phone', 'phoneField', 'Phone'),
+  forensicField('website', 'websiteField', 'Website'),
+  forensicField('address', 'addressField', 'Address'),
+  socialField('instagram', 'instagramField', 'Instagram'),
+  socialField('linkedIn', 'linkedInField', 'LinkedIn'),
+  socialField('twitter', 'twitterField', 'Twitter'),
+  plainField('dnaScore', 'DNA Score'),
+  plainField('matchReasoning', 'Match Reasoning'),
+  plainField('latestSignal', 'Latest Signal'),
+];
+
+export const DEAL_MERGE_FIELDS: MergeField<Deal>[] = [
+  plainField('stage', 'Stage'),
+  plainField('amount', 'Amount'),
+  plainField('tier', 'Tier'),
+  plainField('season', 'Season'),
+  plainField('nextFollowUp', 'Next Follow-up'),
+  plainField('contractEndDate', 'Contract End'),
+  plainField('notes', 'Notes'),
+  plainField('followUpNote', 'Follow-up Note'),
+];
+
+export const MERGE_FIELDS = {
+  SPONSOR: SPONSOR_MERGE_FIELDS,
+  DEAL: DEAL_MERGE_FIELDS,
+  LEAD: LEAD_MERGE_FIELDS,
+} as const;
+
+/** Selected source record id per field key */
+export type MergeChoices = Record<string, string>;
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+/**
+ * Records of a cluster, in cluster order
+ */
+export function clusterRecordsOf(state: MergeState, cluster: DuplicateCluster): (Sponsor | Deal | DiscoveredLead)[] {
+  const source: { id: string }[] = cluster.kind === 'SPONSOR' ? state.sponsors : cluster.kind === 'DEAL' ? state.deals : state.vault;
+  return cluster.recordIds
+    .map(id => source.find(r => r.id === id))
+    .filter((r): r is Sponsor | Deal | DiscoveredLead => !!r);
+}
+
+/**
+ * Record to keep by default: the sponsor with most deals, the deal with most activities, the lead with best DNA score
+ */
+export function suggestPrimary(state: MergeState, cluster: DuplicateCluster): string {
+  const weight = (id: string) => {
+    if (cluster.kind === 'SPONSOR') return state.deals.filter(d => d.sponsorId === id).length;
+    if (cluster.kind === 'DEAL') return state.activities.filter(a => a.dealId === id).length;
+    return state.vault.find(l => l.id === id)?.dnaScore || 0;
+  };
+  return [...cluster.recordIds].sort((a, b) => weight(b) - weight(a))[0];
+}
+
+/**
+ * Per field, keep the primary's value unless it is blank or another record has stronger evidence
+ */
+export function suggestChoices<T extends { id: string }>(records: T[], fields: MergeField<T>[], primaryId: string): MergeChoices {
+  const choices: MergeChoices = {};
+  fields.forEach(field => {
+    const candidates = records.filter(r => !isBlank(field.read(r)));
+    if (candidates.length === 0) {
+      choices[field.key] = primaryId;
+      return;
+    }
+    const best = [...candidates].sort((a, b) => {
+      const confidence = (field.evidence?.(b)?.confidence ?? -1) - (field.evidence?.(a)?.confidence ?? -1);
+      if (confidence !== 0) return confidence;
+      return (a.id === primaryId ? -1 : 0) - (b.id === primaryId ? -1 : 0);
+    })[0];
+    choices[field.key] = best.id;
+  });
+  return choices;
+}
+
+function buildMergedRecord<T extends { id: string }>(records: T[], fields: MergeField<T>[], primaryId: string, choices: MergeChoices): T {
+  let merged = records.find(r => r.id === primaryId)!;
+  fields.forEach(field => {
+    const source = records.find(r => r.id === choices[field.key]);
+    if (source && source.id !== primaryId) merged = field.copy(merged, source);
+  });
+  return merged;
+}
+
+const uniqueBy = <T,>(items: T[], key: (item: T) => string) => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+};
+
+/**
+ * Merge a cluster into its primary record and re-point references
+ */
+export function mergeCluster<T extends MergeState>(state: T, cluster: DuplicateCluster, primaryId: string, choices: MergeChoices): T {
+  const absorbed = new Set(cluster.recordIds.filter(id => id !== primaryId));
+
+  if (cluster.kind === 'SPONSOR') {
+    const records = clusterRecordsOf(state, cluster) as Sponsor[];
+    const merged = buildMergedRecord(records, SPONSOR_MERGE_FIELDS, primaryId, choices);
+    const enrichedContacts = uniqueBy(records.flatMap(r => r.enrichedContacts || []), c => `${c.type}:${c.value.toLowerCase()}`);
+    const hasActive = records.some(r => !r.archivedAt);
+    return {
+      ...state,
+      sponsors: state.sponsors
+        .filter(s => !absorbed.has(s.id))
+        .map(s => s.id === primaryId ? { ...merged, enrichedContacts, archivedAt: hasActive ? undefined : merged.archivedAt } : s),
+      deals: state.deals.map(d => absorbed.has(d.sponsorId) ? { ...d, sponsorId: primaryId } : d),
+    };
+  }
+
+  if (cluster.kind === 'DEAL') {
+    const records = clusterRecordsOf(state, cluster) as Deal[];
+    const merged = buildMergedRecord(records, DEAL_MERGE_FIELDS, primaryId, choices);
+    return {
+      ...state,
+      deals: state.deals
+        .filter(d => !absorbed.has(d.id))
+        .map(d => {
+          if (d.id === primaryId) return merged;
+          return d.renewedFromDealId && absorbed.has(d.renewedFromDealId) ? { ...d, renewedFromDealId: primaryId } : d;
+        }),
+      activities: state.activities.map(a => absorbed.has(a.dealId) ? { ...a, dealId: primaryId } : a),
+    };
+  }
+
+  const records = clusterRecordsOf(state, cluster) as DiscoveredLead[];
+  const merged = buildMergedRecord(records, LEAD_MERGE_FIELDS, primaryId, choices);
+  return {
+    ...state,
+    vault: state.vault
+      .filter(l => !absorbed.has(l.id))
+      .map(l => l.id === primaryId ? {
+        ...merged,
+        sources: uniqueBy(records.flatMap(r => r.sources || []), s => s),
+        groundingSources: uniqueBy(records.flatMap(r => r.groundingSources || []), g => g.uri),
+        enrichedContacts: uniqueBy(records.flatMap(r => r.enrichedContacts || []), c => `${c.type}:${c.value.toLowerCase()}`),
+      } : l),
+  };
+}
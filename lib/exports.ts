@@ -0,0 +1,117 @@
+/**
+ * Pipeline, Vault & Session Exports
+ *
+ * Filter predicates shared by the UI and the export so a spreadsheet always
+ * matches what is on screen, plus the sheet builders for each view.
+ */
+
+import { Deal, Sponsor, DiscoveredLead, DiscoverySession, PipelineStage, ContactField } from '../types';
+import { STAGE_LABELS } from '../constants';
+import { Sheet, SheetCell } from './spreadsheet';
+import { dealSeason } from './renewals';
+
+export interface PipelineFilters {
+  query: string;
+  stage: PipelineStage | 'ALL';
+  tier: string;
+}
+
+export interface LeadFilters {
+  query: string;
+  minDnaScore: number;
+}
+
+export const DEFAULT_PIPELINE_FILTERS: PipelineFilters = { query: '', stage: 'ALL', tier: 'ALL' };
+export const DEFAULT_LEAD_FILTERS: LeadFilters = { query: '', minDnaScore: 0 };
+
+const matchesQuery = (query: string, values: (string | undefined)[]) => {
+  const needle = query.trim().toLowerCase();
+  return !needle || values.some(v => v?.toLowerCase().includes(needle));
+};
+
+/**
+ * Deals visible under the board filters
+ */
+export function filterDeals(deals: Deal[], sponsors: Sponsor[], filters: PipelineFilters): Deal[] {
+  return deals.filter(deal => {
+    if (filters.stage !== 'ALL' && deal.stage !== filters.stage) return false;
+    if (filters.tier !== 'ALL' && deal.tier !== filters.tier) return false;
+    const sponsor = sponsors.find(s => s.id === deal.sponsorId);
+    return matchesQuery(filters.query, [sponsor?.companyName, sponsor?.contactName, sponsor?.email, sponsor?.industry, deal.notes]);
+  });
+}
+
+/**
+ * Leads visible under the vault/session filters
+ */
+export function filterLeads(leads: DiscoveredLead[], filters: LeadFilters): DiscoveredLead[] {
+  return leads.filter(lead =>
+    lead.dnaScore >= filters.minDnaScore &&
+    matchesQuery(filters.query, [lead.companyName, lead.description, lead.matchReasoning, lead.website, lead.email])
+  );
+}
+
+export function pipelineSheet(deals: Deal[], sponsors: Sponsor[]): Sheet {
+  return {
+    name: 'Pipeline',
+    columns: ['Company', 'Contact', 'Email', 'Phone', 'Website', 'Industry', 'Stage', 'Season', 'Tier', 'Amount', 'Next Follow-up', 'Contract End', 'Notes'],
+    rows: deals.map(deal => {
+      const sponsor = sponsors.find(s => s.id === deal.sponsorId);
+      return [
+        sponsor?.companyName,
+        sponsor?.contactName,
+        sponsor?.email,
+        sponsor?.phone,
+        sponsor?.website,
+        sponsor?.industry,
+        STAGE_LABELS[deal.stage],
+        dealSeason(deal),
+        deal.tier,
+        deal.amount,
+        deal.nextFollowUp,
+        deal.contractEndDate,
+        deal.notes,
+      ];
+    }),
+  };
+}
+
+/** Forensic contact fields exported with their evidence (value, confidence, source) */
+const EVIDENCE_FIELDS: { label: string; field: keyof DiscoveredLead; fallback: (lead: DiscoveredLead) => string | undefined }[] = [
+  { label: 'Contact Name', field: 'contactNameField', fallback: () => undefined },
+  { label: 'Email', field: 'emailField', fallback: lead => lead.email },
+  { label: 'Phone', field: 'phoneField', fallback: lead => lead.phone },
+  { label: 'Address', field: 'addressField', fallback: lead => lead.address },
+  { label: 'Website', field: 'websiteField', fallback: lead => lead.website },
+  { label: 'Instagram', field: 'instagramField', fallback: lead => lead.socialLinks?.instagram },
+  { label: 'LinkedIn', field: 'linkedInField', fallback: lead => lead.socialLinks?.linkedIn || lead.socialLinks?.linkedin },
+  { label: 'Twitter', field: 'twitterField', fallback: lead => lead.socialLinks?.twitter },
+];
+
+export function leadsSheet(name: string, leads: DiscoveredLead[]): Sheet {
+  return {
+    name,
+    columns: [
+      'Company', 'DNA Score', 'Match Reasoning', 'Description',
+      ...EVIDENCE_FIELDS.flatMap(f => [f.label, `${f.label} Confidence`, `${f.label} Source`]),
+      'Verification', 'Saved At',
+    ],
+    rows: leads.map(lead => [
+      lead.companyName,
+      lead.dnaScore,
+      lead.matchReasoning,
+      lead.description,
+      ...EVIDENCE_FIELDS.flatMap(({ field, fallback }): SheetCell[] => {
+        const forensic = lead[field] as ContactField | undefined;
+        if (forensic?.value) return [forensic.value, forensic.evidence.confidence, forensic.evidence.sourceUrl || forensic.evidence.source];
+        return [fallback(lead), undefined, undefined];
+      }),
+      lead.verificationStatus,
+      lead.savedAt,
+    ]),
+  };
+}
+
+export function sessionSheet(session: DiscoverySession, leads: DiscoveredLead[] = session.leads): Sheet {
+  return leadsSheet(`${session.query} ${session.date.split('T')[0]}`, leads);
+}
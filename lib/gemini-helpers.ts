@@ -44,6 +44,13 @@ export function mergeApolloOrgData(lead: DiscoveredLead, org: any): DiscoveredLe
     enriched.socialLinks = { ...enriched.socialLinks, facebook: org.facebook_url };
   }
 
+  if (org.estimated_num_employees || org.industry) {
+    enriched.firmographics = {
+      employeeCount: typeof org.estimated_num_employees === 'number' ? org.estimated_num_employees : undefined,
+      industry: org.industry || undefined,
+    };
+  }
+
   if (org.short_description) {
     enriched.description = `${enriched.description}\n\nCompany Info: ${org.short_description}`;
   }
@@ -118,12 +125,13 @@ export function convertApolloContacts(people: any[], lead: DiscoveredLead): { le
  */
 export async function enrichLeadWithApollo(
   lead: DiscoveredLead,
-  fullEnrichment: (website: string) => Promise<ApolloEnrichmentResult>
+  fullEnrichment: (website: string, signal?: AbortSignal) => Promise<ApolloEnrichmentResult>,
+  signal?: AbortSignal
 ): Promise<DiscoveredLead> {
   if (!lead.website) return lead;
 
   try {
-    const apolloResult = await fullEnrichment(lead.website);
+    const apolloResult = await fullEnrichment(lead.website, signal);
     if (!apolloResult.success) return lead;
 
     let enriched = lead;
@@ -140,6 +148,7 @@ export async function enrichLeadWithApollo(
 
     return enriched;
   } catch (error) {
+    console.warn(`⚠️ Apollo: Enrichment skipped for ${lead.companyName}:`, (error as Error).message);
     return lead;
   }
 }
@@ -1,5 +1,6 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
+import type { Schema } from "@google/genai";
 import {
   SenderProfile,
   DataSource,
@@ -10,11 +11,18 @@ import {
   ContactIntelligence,
   ContactMethodType,
   Deal,
-  CompanyIntelligence
+  CompanyIntelligence,
+  CacheHit,
+  CacheSource,
+  CorrectableField
 } from "../types.ts";
-import { fullEnrichment, isApolloConfigured } from "./apollo";
-import { scrapeSocialLinks, mergeSocialLinks } from "./scraper";
+import { fullEnrichment, isApolloConfigured, extractDomain } from "./apollo";
+import { mergeSocialLinks, crawlWebsite, crawledSocialLinks, CrawlResult, ScrapedSocialLinks } from "./scraper";
+import { applyWebsiteContacts, WebsiteContacts } from "./website-contacts";
 import { enrichLeadWithApollo } from "./gemini-helpers";
+import { assertLlmConfigured, generateText, generateJson, groundedSearch, resolveTask, LLM_PROVIDERS, ModelDefaults } from "./llm";
+import { parseStructured, parseStructuredList } from "./structured-output";
+import { withResponseCache, hashKey, normalizeUrlKey, describeCacheAge, CACHE_SOURCE_LABELS } from "./response-cache";
 
 /**
  * Internal type representing the high-fidelity raw JSON structure from the model.
@@ -37,6 +45,8 @@ type RawDiscoveredLead = {
     youtube?: string;
   };
   latestSignal?: string;
+  latestSignalDate?: string;
+  distanceMiles?: number;
   sources?: string[]; 
   contactEvidence?: {
     website?: FieldEvidence;
@@ -52,17 +62,161 @@ type RawDiscoveredLead = {
   };
 };
 
-const getAI = () => {
-  const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error("VITE_GEMINI_API_KEY environment variable is not defined. Please add it to your .env file.");
-  }
-  return new GoogleGenAI({ apiKey });
+/**
+ * Response Schemas
+ *
+ * Declared per call; enforced natively by providers that support it and
+ * always validated at runtime by parseStructured.
+ */
+const STRING: Schema = { type: Type.STRING };
+const STRING_LIST: Schema = { type: Type.ARRAY, items: STRING };
+
+const EVIDENCE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    source: STRING,
+    confidence: { type: Type.NUMBER },
+    sourceUrl: STRING,
+  },
+};
+
+const SOCIAL_LINKS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: { instagram: STRING, linkedIn: STRING, twitter: STRING, facebook: STRING, youtube: STRING },
+};
+
+const DISCOVERED_LEAD_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    companyName: STRING,
+    description: STRING,
+    dnaScore: { type: Type.NUMBER },
+    matchReasoning: STRING,
+    website: STRING,
+    email: STRING,
+    phone: STRING,
+    address: STRING,
+    contactName: STRING,
+    socialLinks: SOCIAL_LINKS_SCHEMA,
+    latestSignal: STRING,
+    latestSignalDate: STRING,
+    distanceMiles: { type: Type.NUMBER },
+    sources: STRING_LIST,
+    contactEvidence: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(
+        ['website', 'email', 'phone', 'address', 'instagram', 'linkedIn', 'twitter', 'facebook', 'latestSignal', 'contactName']
+          .map(field => [field, EVIDENCE_SCHEMA])
+      ),
+    },
+  },
+  required: ['companyName', 'dnaScore', 'matchReasoning'],
 };
 
+const VERIFICATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    status: { type: Type.STRING, enum: ['VERIFIED', 'FAILED', 'COLLISION_DETECTED'] },
+    reasoning: STRING,
+    auditTrail: STRING_LIST,
+    correctedData: {
+      type: Type.OBJECT,
+      properties: { website: STRING, email: STRING, socialLinks: SOCIAL_LINKS_SCHEMA },
+    },
+  },
+  required: ['status', 'reasoning', 'auditTrail'],
+};
+
+const OUTREACH_DRAFTS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: { emailDraft: STRING, dmDraft: STRING },
+  required: ['emailDraft', 'dmDraft'],
+};
+
+const COMPANY_INTEL_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    mission: STRING,
+    targetAudience: STRING,
+    keyDifferentiators: STRING_LIST,
+    brandVoice: STRING,
+    recentNews: STRING,
+    coreOfferings: STRING_LIST,
+    fullSummary: STRING,
+  },
+  required: ['mission', 'targetAudience', 'keyDifferentiators', 'brandVoice', 'recentNews', 'coreOfferings', 'fullSummary'],
+};
+
+const PUBLIC_SIGNAL_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    senderName: STRING,
+    senderHandle: STRING,
+    content: STRING,
+    identityMatch: { type: Type.NUMBER },
+    suggestedAction: STRING,
+  },
+  required: ['senderName', 'senderHandle', 'content', 'identityMatch', 'suggestedAction'],
+};
+
+const SOCIAL_ANGLE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    contentThemes: STRING_LIST,
+    recentCampaigns: STRING_LIST,
+    brandVoice: STRING,
+    outreachHook: STRING,
+  },
+  required: ['contentThemes', 'recentCampaigns', 'brandVoice', 'outreachHook'],
+};
+
+export interface ForensicVerificationResult {
+  status: 'VERIFIED' | 'FAILED' | 'COLLISION_DETECTED';
+  reasoning: string;
+  auditTrail: string[];
+  correctedData?: {
+    website?: string;
+    email?: string;
+    socialLinks?: { instagram?: string; linkedIn?: string; facebook?: string; twitter?: string };
+  };
+  /** Set after parsing: evidence for corrected values confirmed by the website scrape */
+  correctionEvidence?: Partial<Record<CorrectableField, FieldEvidence>>;
+  /** Set after parsing: phones, addresses, staff and structured data the crawl found, with the page each came from */
+  websiteContacts?: WebsiteContacts;
+  /** Set after parsing: lookups answered from the response cache */
+  cacheHits?: CacheHit[];
+}
+
+export interface PublicSignal {
+  senderName: string;
+  senderHandle: string;
+  content: string;
+  identityMatch: number;
+  suggestedAction: string;
+}
+
+export interface SocialAngle {
+  contentThemes: string[];
+  recentCampaigns: string[];
+  brandVoice: string;
+  outreachHook: string;
+}
+
 /**
  * Sanitization Helpers
  */
+/**
+ * Cache only model output that parses; a bad response would otherwise be replayed until the TTL expires
+ */
+function parsesCleanly(parse: () => unknown): boolean {
+  try {
+    parse();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 function normalizeUrl(url?: string): string | undefined {
   if (!url) return undefined;
   let clean = url.trim();
@@ -129,28 +283,6 @@ export const getIdentityKeys = (item: {
   return keys;
 };
 
-const extractJson = (text: string) => {
-  if (!text) return null;
-  const trimmed = text.trim();
-  try {
-    return JSON.parse(trimmed);
-  } catch (e) {
-    const match = trimmed.match(/\[\s*\{[\s\S]*\}\s*\]/);
-    if (match) {
-      try {
-        return JSON.parse(match[0]);
-      } catch (e2) {}
-    }
-    const blockMatch = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-    if (blockMatch && blockMatch[1]) {
-      try {
-        return JSON.parse(blockMatch[1].trim());
-      } catch (e2) {}
-    }
-    return null;
-  }
-};
-
 function mapForensicField(val: string | undefined, evidence?: any): ContactField | undefined {
   const finalValue = val?.trim();
   if (!finalValue) return undefined;
@@ -196,6 +328,8 @@ function mapRawLeadToDiscovered(raw: RawDiscoveredLead, groundingLinks: Groundin
     dnaScore: raw.dnaScore || 0,
     matchReasoning: raw.matchReasoning || raw.description || '',
     latestSignal: raw.latestSignal,
+    latestSignalDate: raw.latestSignalDate && !Number.isNaN(Date.parse(raw.latestSignalDate)) ? raw.latestSignalDate : undefined,
+    distanceMiles: typeof raw.distanceMiles === 'number' && raw.distanceMiles >= 0 ? raw.distanceMiles : undefined,
     groundingSources: groundingLinks,
     sources: raw.sources || [],
     
@@ -252,23 +386,94 @@ function mapRawLeadToDiscovered(raw: RawDiscoveredLead, groundingLinks: Groundin
   return lead;
 }
 
+/**
+ * Thrown when a discovery run is cancelled; carries the leads that finished before the abort
+ */
+export class DiscoveryCancelledError extends Error {
+  readonly leads: DiscoveredLead[];
+
+  constructor(leads: DiscoveredLead[] = []) {
+    super('Discovery cancelled');
+    this.name = 'DiscoveryCancelledError';
+    this.leads = leads;
+  }
+}
+
+/**
+ * Progress reported by the discovery pipeline while it runs
+ */
+export type DiscoveryProgress =
+  | { type: 'MODEL_CALL'; provider: string; model: string; leadLimit: number }
+  | { type: 'CACHE_HIT'; source: CacheSource; subject: string; cachedAt: string }
+  | { type: 'LEADS_PARSED'; count: number; rejected: number; duplicates: number }
+  | { type: 'ENRICHMENT'; completed: number; total: number; companyName: string }
+  | { type: 'SCRAPING'; domain: string }
+  | { type: 'LEAD_READY'; lead: DiscoveredLead; completed: number; total: number }
+  /** `leads` holds the batch's leads that were not already reported through LEAD_READY */
+  | { type: 'BATCH'; batch: number; found: number; target: number; leads: DiscoveredLead[] }
+  | { type: 'COMPLETE'; count: number };
+
+/**
+ * One-line description of a progress event for the extraction console
+ */
+export function describeDiscoveryProgress(event: DiscoveryProgress): string {
+  switch (event.type) {
+    case 'MODEL_CALL':
+      return `Querying ${event.provider} (${event.model}) for up to ${event.leadLimit} prospects...`;
+    case 'CACHE_HIT':
+      return `Using cached ${CACHE_SOURCE_LABELS[event.source].toLowerCase()} for ${event.subject} (${describeCacheAge(event.cachedAt)})`;
+    case 'LEADS_PARSED':
+      return `Parsed ${event.count} new leads${event.duplicates > 0 ? `, skipped ${event.duplicates} already found` : ''}${event.rejected > 0 ? ` (${event.rejected} fields failed validation)` : ''}`;
+    case 'ENRICHMENT':
+      return `Apollo enrichment ${event.completed}/${event.total}: ${event.companyName}`;
+    case 'SCRAPING':
+      return `Scraping ${event.domain} for social links...`;
+    case 'LEAD_READY':
+      return `Lead ready ${event.completed}/${event.total}: ${event.lead.companyName}`;
+    case 'BATCH':
+      return `Batch ${event.batch} done: ${event.found}/${event.target} leads found`;
+    case 'COMPLETE':
+      return `Verification pass done: ${event.count} leads ready`;
+  }
+}
+
+export interface DiscoveryRunOptions {
+  signal?: AbortSignal;
+  onProgress?: (event: DiscoveryProgress) => void;
+  /** Ignore cached responses and refresh them */
+  forceRefresh?: boolean;
+  /** Identity keys already found; matching leads are dropped before enrichment */
+  excludeKeys?: ReadonlySet<string>;
+  /** Company names the model is told to skip so follow-up batches surface new prospects */
+  excludeNames?: string[];
+}
+
+/** Leads requested per grounded call */
+export const DISCOVERY_BATCH_SIZE: Record<'STANDARD' | 'DEEP', number> = { STANDARD: 10, DEEP: 20 };
+
+/** Cap on names listed in the prompt; older names are still filtered by identity key */
+const MAX_EXCLUDED_NAMES = 80;
+
 export const discoverProspects = async (
   description: string,
   location: string,
   context: { whoWeAre: string, role: string, targetGoal: string },
   radius: string = '25',
   depth: 'STANDARD' | 'DEEP' = 'STANDARD',
-  userCoords?: { latitude: number; longitude: number }
+  userCoords?: { latitude: number; longitude: number },
+  { signal, onProgress, forceRefresh, excludeKeys, excludeNames = [] }: DiscoveryRunOptions = {}
 ) => {
-  const ai = getAI();
-  const model = 'gemini-2.5-flash';
+  assertLlmConfigured('DISCOVERY');
   
-  const leadLimit = depth === 'DEEP' ? 20 : 10;
+  const leadLimit = DISCOVERY_BATCH_SIZE[depth];
+  const skipList = excludeNames.length > 0
+    ? `\n  ALREADY_FOUND (DO NOT RETURN THESE, FIND DIFFERENT BUSINESSES): ${excludeNames.slice(-MAX_EXCLUDED_NAMES).join('; ')}\n`
+    : '';
   
   const prompt = `SEARCH_GOAL: Find up to ${leadLimit} business prospects in ${location} within ${radius} miles with high SPONSORSHIP potential for a sports organization.
   DNA_PROFILE: "${description}"
   USER_CONTEXT: From ${context.whoWeAre} (${context.role}), seeking partners for: ${context.targetGoal}.
-  
+  ${skipList}
   SPONSORSHIP_FIT_SIGNALS (PRIORITIZE THESE):
   1. Companies explicitly seeking sponsorships or brand partners.
   2. Brands expanding their presence or launching community initiatives.
@@ -295,38 +500,54 @@ export const discoverProspects = async (
     "address": "string?",
     "socialLinks": { "instagram": "handle", "linkedIn": "url", "twitter": "handle", "facebook": "url" },
     "latestSignal": "string (Recent news or post summary showing sponsorship potential)",
+    "latestSignalDate": "YYYY-MM-DD? (when the signal was published, if known)",
+    "distanceMiles": number? (approximate distance from ${location}),
     "contactEvidence": { "FIELD": { "source": "official_website | google_business | social", "confidence": 0-1, "sourceUrl": "url" } }
   }`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: [{ parts: [{ text: prompt }] }],
-      config: {
-        tools: [{ googleMaps: {} }, { googleSearch: {} }],
-        toolConfig: userCoords ? {
-          retrievalConfig: { latLng: { latitude: userCoords.latitude, longitude: userCoords.longitude } }
-        } : undefined,
-      }
+    const { provider, model } = resolveTask('DISCOVERY');
+    const providerLabel = LLM_PROVIDERS.find(p => p.id === provider.id)?.label || provider.id;
+    const cacheKey = await hashKey(provider.id, model, prompt, JSON.stringify(userCoords || null));
+    const { value: { text, groundingLinks }, hit } = await withResponseCache('DISCOVERY', cacheKey, () => {
+      onProgress?.({ type: 'MODEL_CALL', provider: providerLabel, model, leadLimit });
+      return groundedSearch('DISCOVERY', prompt, { useMaps: true, userCoords, signal });
+    }, {
+      forceRefresh,
+      shouldCache: result => parsesCleanly(() => {
+        if (parseStructuredList('Discovery', result.text, DISCOVERED_LEAD_SCHEMA).items.length === 0) throw new Error('no leads');
+      }),
     });
-    
-    const results = extractJson(response.text || '[]') || [];
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    const groundingLinks: GroundingLink[] = groundingChunks.map((chunk: any) => ({
-      uri: chunk.maps?.uri || chunk.web?.uri || '',
-      title: chunk.maps?.title || chunk.web?.title || 'Verified Grounding'
-    })).filter((l: GroundingLink) => l.uri !== '');
+    if (hit) onProgress?.({ type: 'CACHE_HIT', source: 'DISCOVERY', subject: location, cachedAt: hit.cachedAt });
+
+    const { items, rejected } = parseStructuredList<RawDiscoveredLead>('Discovery', text, DISCOVERED_LEAD_SCHEMA);
+    if (rejected.length > 0) {
+      console.warn(`⚠️ Discovery: Dropped leads that failed validation:`, rejected);
+    }
 
-    const mappedLeads = results.map((raw: any) => mapRawLeadToDiscovered(raw as RawDiscoveredLead, groundingLinks));
+    // Drop leads already found (earlier batches, the board, the vault) and repeats within this response
+    const seen = new Set(excludeKeys);
+    const mappedLeads: DiscoveredLead[] = [];
+    items.forEach(raw => {
+      const lead = mapRawLeadToDiscovered(raw, groundingLinks);
+      const keys = getIdentityKeys(lead);
+      if (keys.some(key => seen.has(key))) return;
+      keys.forEach(key => seen.add(key));
+      mappedLeads.push(hit ? { ...lead, cacheHits: [hit] } : lead);
+    });
+    const duplicates = items.length - mappedLeads.length;
+    onProgress?.({ type: 'LEADS_PARSED', count: mappedLeads.length, rejected: rejected.length, duplicates });
 
     // STANDARD SCAN: Return immediately (no scraping for speed)
     // DEEP SCAN: HTML scraping is handled in discoverProspectsDeepScan()
     console.log(`✅ ${depth} Scan complete: Found ${mappedLeads.length} leads`);
+    if (depth === 'STANDARD') onProgress?.({ type: 'COMPLETE', count: mappedLeads.length });
 
     return mappedLeads;
   } catch (error) {
+    if (signal?.aborted) throw new DiscoveryCancelledError();
     console.error("Forensic Discovery failure:", error);
-    return [];
+    throw error;
   }
 };
 
@@ -337,25 +558,41 @@ export const discoverProspects = async (
  * PHASE 2.1 UPDATE: Now integrates direct HTML scraping to ensure
  * social media links are actually verified from the website footer.
  */
-export const verifyLeadForensically = async (lead: DiscoveredLead) => {
-  const ai = getAI();
-  const model = 'gemini-3-pro-preview';
+export const verifyLeadForensically = async (
+  lead: DiscoveredLead,
+  { forceRefresh, signal }: { forceRefresh?: boolean; signal?: AbortSignal } = {}
+): Promise<ForensicVerificationResult> => {
+  assertLlmConfigured('VERIFICATION');
 
   console.log(`\n🔍 FORENSIC VERIFICATION: ${lead.companyName}`);
+  const cacheHits: CacheHit[] = [];
 
-  // STEP 1: Run HTML scraper first to get ground truth from website footer
-  let scrapedSocialLinks: any = {};
+  // STEP 1: Crawl the homepage and contact/about/team pages for ground truth
+  let crawl: CrawlResult | undefined;
+  let scrapedSocialLinks: ScrapedSocialLinks = {};
   if (lead.website) {
-    console.log('   Step 1: Running HTML scraper for ground truth...');
-    scrapedSocialLinks = await scrapeSocialLinks(lead.website);
+    console.log('   Step 1: Crawling website pages for ground truth...');
+    const crawled = await cachedCrawl(lead.website, { forceRefresh, signal });
+    crawl = crawled.value;
+    scrapedSocialLinks = crawledSocialLinks(crawl);
+    if (crawled.hit) cacheHits.push(crawled.hit);
 
     if (Object.keys(scrapedSocialLinks).length > 0) {
-      console.log(`   ✅ HTML Scraper found ${Object.keys(scrapedSocialLinks).length} social link(s)`);
+      console.log(`   ✅ Crawler found ${Object.keys(scrapedSocialLinks).length} social link(s) across ${crawl.pages.length} page(s)`);
     } else {
-      console.log('   ⚠️ HTML Scraper found no social links in footer');
+      console.log('   ⚠️ Crawler found no social links');
     }
   }
 
+  const websiteContacts = crawl && {
+    businessName: crawl.businessName,
+    openingHours: crawl.openingHours,
+    emails: crawl.emails.map(e => e.value),
+    phones: crawl.phones.map(p => p.value),
+    addresses: crawl.addresses.map(a => a.value),
+    staff: crawl.staff.map(s => `${s.name} (${s.title})`),
+  };
+
   // STEP 2: Run Gemini verification for business logic validation
   console.log('   Step 2: Running Gemini Pro verification...');
 
@@ -365,6 +602,7 @@ export const verifyLeadForensically = async (lead: DiscoveredLead) => {
   LOCATION: ${lead.address || 'Unknown'}
   CLAIMED_SOCIAL_HANDLES: ${JSON.stringify(lead.socialLinks)}
   ACTUAL_SCRAPED_HANDLES: ${JSON.stringify(scrapedSocialLinks)}
+  WEBSITE_CONTACTS: ${websiteContacts ? JSON.stringify(websiteContacts) : 'Not crawled'}
 
   TASKS:
   1. DISAMBIGUATION: Ensure this is not a collision with another company of similar name. Check if it's a specific franchise location vs corporate headquarters.
@@ -373,6 +611,7 @@ export const verifyLeadForensically = async (lead: DiscoveredLead) => {
   4. ALIGNMENT: Does this entity truly match the sponsorship intent: "${lead.description}"?
 
   IMPORTANT: Trust ACTUAL_SCRAPED_HANDLES over CLAIMED_SOCIAL_HANDLES since they came directly from the website HTML.
+  WEBSITE_CONTACTS were crawled from the company's own contact/about/team pages; prefer one of those emails for correctedData.email.
 
   RETURN JSON:
   {
@@ -387,28 +626,46 @@ export const verifyLeadForensically = async (lead: DiscoveredLead) => {
   }`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: [{ parts: [{ text: prompt }] }],
-      config: {
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json"
-      }
-    });
-
-    const geminiResult = extractJson(response.text || '{}');
+    const { provider, model } = resolveTask('VERIFICATION');
+    const cacheKey = await hashKey(provider.id, model, prompt);
+    const { value: responseText, hit } = await withResponseCache(
+      'VERIFICATION',
+      cacheKey,
+      () => generateJson('VERIFICATION', prompt, { search: true, schema: VERIFICATION_SCHEMA, signal }),
+      { forceRefresh, shouldCache: text => parsesCleanly(() => parseStructured('Verification', text, VERIFICATION_SCHEMA)) }
+    );
+    if (hit) cacheHits.push(hit);
+    const geminiResult = parseStructured<ForensicVerificationResult>('Verification', responseText, VERIFICATION_SCHEMA);
+    if (cacheHits.length > 0) geminiResult.cacheHits = cacheHits;
+    if (crawl) {
+      const { phones, addresses, staff, declared, openingHours } = crawl;
+      geminiResult.websiteContacts = { phones, addresses, staff, declared, openingHours };
+    }
 
     // STEP 3: Merge scraped data with Gemini corrections
-    if (geminiResult && geminiResult.correctedData) {
+    if (geminiResult.correctedData) {
       // Prioritize scraped social links (ground truth from HTML)
       geminiResult.correctedData.socialLinks = mergeSocialLinks(
         geminiResult.correctedData.socialLinks || {},
         scrapedSocialLinks
       );
 
+      // Values that match the crawl came straight from a page on the company's own site
+      const correctionEvidence: Partial<Record<CorrectableField, FieldEvidence>> = {};
+      const sameValue = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+      (['instagram', 'linkedIn', 'facebook', 'twitter'] as const).forEach(field => {
+        const crawled = crawl?.socialLinks[field];
+        if (crawled && sameValue(geminiResult.correctedData?.socialLinks?.[field], crawled.value)) {
+          correctionEvidence[field] = crawled.evidence;
+        }
+      });
+      const crawledEmail = crawl?.emails.find(e => sameValue(e.value, geminiResult.correctedData?.email));
+      if (crawledEmail) correctionEvidence.email = crawledEmail.evidence;
+      if (Object.keys(correctionEvidence).length > 0) geminiResult.correctionEvidence = correctionEvidence;
+
       console.log('   ✅ Verification complete');
       console.log(`   Status: ${geminiResult.status}`);
-      console.log(`   Reasoning: ${geminiResult.reasoning?.substring(0, 100)}...`);
+      console.log(`   Reasoning: ${geminiResult.reasoning.substring(0, 100)}...`);
 
       if (Object.keys(scrapedSocialLinks).length > 0) {
         console.log('   📊 Social links verified via HTML scraping');
@@ -418,10 +675,13 @@ export const verifyLeadForensically = async (lead: DiscoveredLead) => {
     return geminiResult;
   } catch (error) {
     console.error("   ❌ Forensic Audit failure:", error);
-    return null;
+    throw error;
   }
 };
 
+/** A single short draft does not need the pro model the rest of OUTREACH defaults to */
+const SINGLE_DRAFT_MODELS: ModelDefaults = { GEMINI: 'gemini-3-flash-preview' };
+
 export const generateOutreachDraft = async (
   platform: string,
   companyName: string,
@@ -430,7 +690,7 @@ export const generateOutreachDraft = async (
   sender: SenderProfile,
   latestSignal?: string
 ) => {
-  const ai = getAI();
+  assertLlmConfigured('OUTREACH');
   
   const ctaMap = {
     quick_chat: "Open to a quick 10-minute chat to see if there’s a fit?",
@@ -460,11 +720,8 @@ export const generateOutreachDraft = async (
   5. STYLE: Professional, direct, and outcome-oriented. NO generic pleasantries. NO greetings or signatures.`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: [{ parts: [{ text: prompt }] }],
-    });
-    return response.text?.trim() || "Failed to generate draft.";
+    const draft = await generateText('OUTREACH', prompt, { defaultModels: SINGLE_DRAFT_MODELS });
+    return draft.trim() || "Failed to generate draft.";
   } catch (error) {
     return "Failed to generate draft.";
   }
@@ -479,7 +736,7 @@ export async function generateOutreachDrafts(
   company: { companyName: string; website?: string; contactName?: string; latestSignal?: string },
   persona: { teamName: string; role: string; summary: string; companyIntel?: CompanyIntelligence }
 ): Promise<{ emailDraft: string; dmDraft: string }> {
-  const ai = getAI();
+  assertLlmConfigured('OUTREACH');
 
   // Enhanced prompt with company intelligence
   const companyContext = persona.companyIntel
@@ -536,25 +793,11 @@ Return STRICT JSON with exactly two string fields:
 `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: [{ parts: [{ text: prompt }] }],
-      config: {
-        responseMimeType: "application/json"
-      }
-    });
-    
-    // In this SDK, response.text is a getter that returns the text property of the first candidate.
-    const responseText = response.text || '{}';
-    const result = extractJson(responseText);
-    
-    return {
-      emailDraft: result?.emailDraft || "Failed to generate email draft.",
-      dmDraft: result?.dmDraft || "Failed to generate DM draft."
-    };
+    const responseText = await generateJson('OUTREACH', prompt, { schema: OUTREACH_DRAFTS_SCHEMA });
+    return parseStructured<{ emailDraft: string; dmDraft: string }>('Perform IQ', responseText, OUTREACH_DRAFTS_SCHEMA);
   } catch (error) {
     console.error("Perform IQ failure:", error);
-    return { emailDraft: "Error generating draft.", dmDraft: "Error generating draft." };
+    throw error;
   }
 }
 
@@ -569,7 +812,7 @@ export async function generateValueProposition(
   sponsor: { companyName: string; website?: string; industry?: string; address?: string; latestSignal?: string },
   senderProfile: { orgName: string; role?: string; goal: string; offerOneLiner: string; companyIntel?: CompanyIntelligence }
 ): Promise<string> {
-  const ai = getAI();
+  assertLlmConfigured('VALUE_PROP');
 
   // Enhanced prompt with company intelligence
   const companyContext = senderProfile.companyIntel
@@ -628,15 +871,9 @@ Return ONLY the value proposition text (2-3 sentences). No JSON, no markdown, no
 `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: [{ parts: [{ text: prompt }] }],
-      config: {
-        tools: [{ googleSearch: {} }], // Allow web search for context
-      }
-    });
-
-    const valueProp = response.text?.trim() || "Failed to generate value proposition.";
+    // Allow web search for context
+    const response = await generateText('VALUE_PROP', prompt, { search: true });
+    const valueProp = response.trim() || "Failed to generate value proposition.";
 
     // Clean up any markdown or extra formatting
     return valueProp.replace(/^["']|["']$/g, '').trim();
@@ -651,8 +888,8 @@ Return ONLY the value proposition text (2-3 sentences). No JSON, no markdown, no
  *
  * Uses web scraping + Gemini Pro to deeply understand the company for personalized AI generation
  */
-export async function analyzeCompanyWebsite(websiteUrl: string): Promise<CompanyIntelligence | null> {
-  const ai = getAI();
+export async function analyzeCompanyWebsite(websiteUrl: string): Promise<CompanyIntelligence> {
+  assertLlmConfigured('WEBSITE_INTEL');
 
   try {
     // Normalize URL
@@ -728,64 +965,40 @@ Return valid JSON with this structure:
 Be specific and extract real details from the website content. Avoid generic statements.
 `;
 
-    const aiResponse = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: [{ parts: [{ text: prompt }] }],
-      config: {
-        responseMimeType: "application/json",
-        tools: [{ googleSearch: {} }] // Allow web search for recent news
-      }
-    });
-
-    const jsonText = aiResponse.text?.trim() || '{}';
-    const intel = JSON.parse(jsonText) as CompanyIntelligence;
+    // Allow web search for recent news
+    const aiResponse = await generateJson('WEBSITE_INTEL', prompt, { search: true, schema: COMPANY_INTEL_SCHEMA });
+    const intel = parseStructured<CompanyIntelligence>('Website analysis', aiResponse, COMPANY_INTEL_SCHEMA);
 
     console.log('✅ Company Intel Analysis Complete:', intel);
 
     return intel;
   } catch (error) {
     console.error('❌ Company website analysis failed:', error);
-    return null;
+    throw error;
   }
 }
 
-export const interceptPublicSignal = async (query: string, platform: 'INSTAGRAM' | 'LINKEDIN') => {
-  const ai = getAI();
+export const interceptPublicSignal = async (query: string, platform: 'INSTAGRAM' | 'LINKEDIN'): Promise<PublicSignal> => {
+  assertLlmConfigured('SIGNALS');
   const prompt = `ANALYZE_SIGNAL: "${query}" on ${platform} for sponsorship opportunities. JSON: {senderName, senderHandle, content, identityMatch, suggestedAction}.`;
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: [{ parts: [{ text: prompt }] }],
-      config: { tools: [{ googleSearch: {} }], responseMimeType: "application/json" }
-    });
-    return extractJson(response.text || 'null');
-  } catch (error) { return null; }
+  const response = await generateJson('SIGNALS', prompt, { search: true, schema: PUBLIC_SIGNAL_SCHEMA });
+  return parseStructured<PublicSignal>('Signal intercept', response, PUBLIC_SIGNAL_SCHEMA);
 };
 
 export const performDeepSignalSearch = async (companyName: string, website: string) => {
-  const ai = getAI();
+  assertLlmConfigured('SIGNALS');
   const prompt = `Forensic search for ${companyName} (${website}) for sponsorship signals. Return a 1-sentence conversation starter about their community impact or growth.`;
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: [{ parts: [{ text: prompt }] }],
-      config: { tools: [{ googleSearch: {} }] },
-    });
-    return response.text || "No sponsorship signal found.";
+    const response = await generateText('SIGNALS', prompt, { search: true });
+    return response || "No sponsorship signal found.";
   } catch (error) { return "Intelligence gathering failed."; }
 };
 
-export const getSocialAngle = async (companyName: string, socialUrl: string) => {
-  const ai = getAI();
+export const getSocialAngle = async (companyName: string, socialUrl: string): Promise<SocialAngle> => {
+  assertLlmConfigured('SIGNALS');
   const prompt = `Analyze brand voice of ${companyName} at ${socialUrl} for partnership alignment. JSON: {contentThemes, recentCampaigns, brandVoice, outreachHook}.`;
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: [{ parts: [{ text: prompt }] }],
-      config: { tools: [{ googleSearch: {} }], responseMimeType: "application/json" }
-    });
-    return extractJson(response.text || '{}');
-  } catch (error) { return {}; }
+  const response = await generateJson('SIGNALS', prompt, { search: true, schema: SOCIAL_ANGLE_SCHEMA });
+  return parseStructured<SocialAngle>('Social angle', response, SOCIAL_ANGLE_SCHEMA);
 };
 
 /**
@@ -806,56 +1019,187 @@ export const discoverProspectsDeepScan = async (
   location: string,
   context: { whoWeAre: string, role: string, targetGoal: string },
   radius: string = '25',
-  userCoords?: { latitude: number; longitude: number }
+  userCoords?: { latitude: number; longitude: number },
+  options: DiscoveryRunOptions = {}
 ): Promise<DiscoveredLead[]> => {
+  const { signal, onProgress, forceRefresh } = options;
+
   // Check Apollo configuration
   if (!isApolloConfigured()) {
     console.warn('Apollo API not configured. Using Standard Scan.');
-    return discoverProspects(description, location, context, radius, 'STANDARD', userCoords);
+    return discoverProspects(description, location, context, radius, 'STANDARD', userCoords, options);
   }
 
   // Step 1: Gemini Discovery
-  const geminiLeads = await discoverProspects(description, location, context, radius, 'DEEP', userCoords);
-  if (geminiLeads.length === 0) return [];
+  const geminiLeads = await discoverProspects(description, location, context, radius, 'DEEP', userCoords, options);
+  if (geminiLeads.length === 0) {
+    onProgress?.({ type: 'COMPLETE', count: 0 });
+    return [];
+  }
 
-  // Step 2: Apollo Enrichment
-  const enrichedLeads = await Promise.all(
-    geminiLeads.map(lead => enrichLeadWithApollo(lead, fullEnrichment))
-  );
+  // Steps 2-3 run per lead so each lead is reported (and kept on cancel) as soon as it finishes
+  const total = geminiLeads.length;
+  const completed: DiscoveredLead[] = [];
+  let enrichedCount = 0;
 
-  // Step 3: HTML Scraper Fallback
   const finalLeads = await Promise.all(
-    enrichedLeads.map(async (lead) => {
-      if (!lead.website) return lead;
-      
-      const scrapedLinks = await scrapeSocialLinks(lead.website);
-      if (Object.keys(scrapedLinks).length === 0) return lead;
-
-      const mergedLinks = mergeSocialLinks(lead.socialLinks || {}, scrapedLinks);
-      return {
-        ...lead,
-        socialLinks: {
-          instagram: mergedLinks.instagram,
-          linkedIn: mergedLinks.linkedIn,
-          linkedin: mergedLinks.linkedIn,
-          facebook: mergedLinks.facebook,
-          twitter: mergedLinks.twitter,
-        },
-        instagramField: mergedLinks.instagram ? {
-          value: mergedLinks.instagram,
-          evidence: { source: 'official_website' as DataSource, confidence: 0.85, sourceUrl: lead.website }
-        } : lead.instagramField,
-        linkedInField: mergedLinks.linkedIn ? {
-          value: mergedLinks.linkedIn,
-          evidence: { source: 'official_website' as DataSource, confidence: 0.85, sourceUrl: lead.website }
-        } : lead.linkedInField,
-        twitterField: mergedLinks.twitter ? {
-          value: mergedLinks.twitter,
-          evidence: { source: 'official_website' as DataSource, confidence: 0.85, sourceUrl: lead.website }
-        } : lead.twitterField,
+    geminiLeads.map(async (geminiLead) => {
+      const hits: CacheHit[] = [];
+      const reportHit = (hit: CacheHit | undefined, subject: string) => {
+        if (!hit) return;
+        hits.push(hit);
+        onProgress?.({ type: 'CACHE_HIT', source: hit.source, subject, cachedAt: hit.cachedAt });
       };
+
+      // Step 2: Apollo Enrichment (failed lookups are not cached so they are retried next run)
+      const enriched = await enrichLeadWithApollo(geminiLead, async (website, enrichSignal) => {
+        const domain = extractDomain(website);
+        const { value, hit } = await withResponseCache('APOLLO', domain, () => fullEnrichment(website, enrichSignal), {
+          forceRefresh,
+          shouldCache: result => result.success,
+        });
+        reportHit(hit, domain);
+        return value;
+      }, signal);
+      if (signal?.aborted) return enriched;
+      onProgress?.({ type: 'ENRICHMENT', completed: ++enrichedCount, total, companyName: enriched.companyName });
+
+      // Step 3: Website crawl for the contacts the model and Apollo missed
+      if (enriched.website) onProgress?.({ type: 'SCRAPING', domain: extractDomain(enriched.website) });
+      const { lead: scraped, hit: scrapeHit } = await crawlAndMergeWebsiteContacts(enriched, signal, forceRefresh);
+      reportHit(scrapeHit, extractDomain(enriched.website));
+      const finished = hits.length > 0 ? { ...scraped, cacheHits: [...(scraped.cacheHits || []), ...hits] } : scraped;
+      if (signal?.aborted) return finished;
+
+      completed.push(finished);
+      onProgress?.({ type: 'LEAD_READY', lead: finished, completed: completed.length, total });
+      return finished;
     })
   );
 
+  if (signal?.aborted) {
+    // Keep Gemini's ordering for the leads that made it through
+    throw new DiscoveryCancelledError(finalLeads.filter(lead => completed.includes(lead)));
+  }
+
+  onProgress?.({ type: 'COMPLETE', count: finalLeads.length });
   return finalLeads;
 };
+
+export interface BatchedDiscoveryOptions extends DiscoveryRunOptions {
+  /** Stop once this many new leads are found; a single batch runs when it is at most the batch size */
+  targetCount?: number;
+}
+
+/** Consecutive batches without a new lead before the search is treated as exhausted */
+const MAX_EMPTY_BATCHES = 2;
+
+/**
+ * Run discovery in several grounded calls until `targetCount` new leads are found
+ *
+ * Each batch excludes the identity keys and names found so far, so results are
+ * deduplicated across batches. A failure after the first batch ends the run with
+ * the leads already found; cancellation keeps them too.
+ */
+export const discoverProspectsBatched = async (
+  description: string,
+  location: string,
+  context: { whoWeAre: string, role: string, targetGoal: string },
+  radius: string = '25',
+  depth: 'STANDARD' | 'DEEP' = 'STANDARD',
+  userCoords?: { latitude: number; longitude: number },
+  { targetCount, excludeKeys, excludeNames = [], onProgress, ...options }: BatchedDiscoveryOptions = {}
+): Promise<DiscoveredLead[]> => {
+  const batchSize = DISCOVERY_BATCH_SIZE[depth];
+  const target = Math.max(targetCount || batchSize, 1);
+  const maxBatches = Math.ceil(target / batchSize) * 2;
+
+  const found: DiscoveredLead[] = [];
+  const foundKeys = new Set(excludeKeys);
+  const foundNames = [...excludeNames];
+  let emptyBatches = 0;
+
+  for (let batch = 1; batch <= maxBatches && found.length < target && emptyBatches < MAX_EMPTY_BATCHES; batch++) {
+    // Deep scans stream finished leads; remember them so BATCH only carries the rest
+    const streamed = new Set<DiscoveredLead>();
+    const batchOptions: DiscoveryRunOptions = {
+      ...options,
+      excludeKeys: foundKeys,
+      excludeNames: foundNames,
+      onProgress: event => {
+        if (event.type === 'COMPLETE') return;
+        if (event.type === 'LEAD_READY') streamed.add(event.lead);
+        onProgress?.(event);
+      },
+    };
+
+    let leads: DiscoveredLead[];
+    try {
+      leads = depth === 'DEEP'
+        ? await discoverProspectsDeepScan(description, location, context, radius, userCoords, batchOptions)
+        : await discoverProspects(description, location, context, radius, depth, userCoords, batchOptions);
+    } catch (error) {
+      if (error instanceof DiscoveryCancelledError) throw new DiscoveryCancelledError([...found, ...error.leads]);
+      if (found.length === 0) throw error;
+      console.warn(`⚠️ Discovery: Batch ${batch} failed, keeping ${found.length} leads`, error);
+      break;
+    }
+
+    leads.forEach(lead => {
+      found.push(lead);
+      foundNames.push(lead.companyName);
+      getIdentityKeys(lead).forEach(key => foundKeys.add(key));
+    });
+    emptyBatches = leads.length === 0 ? emptyBatches + 1 : 0;
+    onProgress?.({ type: 'BATCH', batch, found: found.length, target, leads: leads.filter(lead => !streamed.has(lead)) });
+  }
+
+  console.log(`✅ Batched discovery complete: ${found.length}/${target} leads`);
+  onProgress?.({ type: 'COMPLETE', count: found.length });
+  return found;
+};
+
+/**
+ * Multi-page crawl shared by the discovery deep scan and forensic verification
+ */
+function cachedCrawl(website: string, { signal, forceRefresh }: { signal?: AbortSignal; forceRefresh?: boolean }) {
+  return withResponseCache('SCRAPER', `crawl:${normalizeUrlKey(website)}`, () => crawlWebsite(website, { signal }), {
+    forceRefresh,
+    shouldCache: crawl => crawl.pages.length > 0,
+  });
+}
+
+/**
+ * Fill social links missing from a lead with those crawled from its website,
+ * and keep the crawled phones, addresses and staff with their page evidence
+ */
+async function crawlAndMergeWebsiteContacts(
+  lead: DiscoveredLead,
+  signal?: AbortSignal,
+  forceRefresh?: boolean
+): Promise<{ lead: DiscoveredLead; hit?: CacheHit }> {
+  if (!lead.website) return { lead };
+
+  const { value: crawl, hit } = await cachedCrawl(lead.website, { signal, forceRefresh });
+  if (crawl.pages.length === 0) return { lead, hit };
+
+  const mergedLinks = mergeSocialLinks(lead.socialLinks || {}, crawledSocialLinks(crawl));
+  // Only links the crawl filled in take its evidence; the lead's own links keep theirs
+  const crawledField = (platform: 'instagram' | 'linkedIn' | 'twitter', current?: ContactField) =>
+    !lead.socialLinks?.[platform] && crawl.socialLinks[platform] ? crawl.socialLinks[platform] : current;
+
+  const merged: DiscoveredLead = {
+    ...lead,
+    socialLinks: {
+      instagram: mergedLinks.instagram,
+      linkedIn: mergedLinks.linkedIn,
+      linkedin: mergedLinks.linkedIn,
+      facebook: mergedLinks.facebook,
+      twitter: mergedLinks.twitter,
+    },
+    instagramField: crawledField('instagram', lead.instagramField),
+    linkedInField: crawledField('linkedIn', lead.linkedInField),
+    twitterField: crawledField('twitter', lead.twitterField),
+  };
+  return { lead: applyWebsiteContacts(merged, crawl), hit };
+}
@@ -0,0 +1,124 @@
+/**
+ * Undo/Redo History
+ *
+ * Each command records, per undoable collection, the entities it added,
+ * removed or replaced (compared by reference). Undo and redo re-apply those
+ * changes by id onto the *current* state, so unrelated updates that landed in
+ * between (verification results, syncs) are preserved.
+ */
+
+import { AppState } from '../types';
+
+export const UNDOABLE_COLLECTIONS = ['sponsors', 'deals', 'activities', 'vault', 'personas'] as const;
+
+export type UndoableCollection = typeof UNDOABLE_COLLECTIONS[number];
+
+type UndoableState = Pick<AppState, UndoableCollection>;
+
+interface EntityChange {
+  id: string;
+  /** Entity before the command (undefined when it was added) */
+  before?: { id: string };
+  /** Entity after the command (undefined when it was removed) */
+  after?: { id: string };
+  /** Position to restore the entity at when re-inserting */
+  index: number;
+}
+
+export interface HistoryEntry {
+  /** Id handed out by the command that produced the entry (lets a toast undo exactly its own command) */
+  id: string;
+  label: string;
+  changes: Partial<Record<UndoableCollection, EntityChange[]>>;
+}
+
+export interface HistoryStack {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const HISTORY_LIMIT = 50;
+
+export const EMPTY_HISTORY: HistoryStack = { past: [], future: [] };
+
+function diffCollection(before: { id: string }[], after: { id: string }[]): EntityChange[] {
+  const changes: EntityChange[] = [];
+  const afterById = new Map(after.map((item, index) => [item.id, { item, index }]));
+  const beforeIds = new Set<string>();
+
+  before.forEach((item, index) => {
+    beforeIds.add(item.id);
+    const next = afterById.get(item.id);
+    if (!next) changes.push({ id: item.id, before: item, index });
+    else if (next.item !== item) changes.push({ id: item.id, before: item, after: next.item, index: next.index });
+  });
+
+  after.forEach((item, index) => {
+    if (!beforeIds.has(item.id)) changes.push({ id: item.id, after: item, index });
+  });
+
+  return changes;
+}
+
+/**
+ * Build a history entry from the state before and after a command
+ *
+ * @returns null when the command touched no undoable collection
+ */
+export function createHistoryEntry(id: string, label: string, before: AppState, after: AppState): HistoryEntry | null {
+  const changes: HistoryEntry['changes'] = {};
+  let touched = false;
+
+  UNDOABLE_COLLECTIONS.forEach(key => {
+    if (before[key] === after[key]) return;
+    const diff = diffCollection(before[key], after[key]);
+    if (diff.length > 0) {
+      changes[key] = diff;
+      touched = true;
+    }
+  });
+
+  return touched ? { id, label, changes } : null;
+}
+
+function applyChanges<T extends { id: string }>(items: T[], changes: EntityChange[], direction: 'UNDO' | 'REDO'): T[] {
+  const result = [...items];
+  const ordered = direction === 'UNDO' ? [...changes].reverse() : changes;
+
+  ordered.forEach(change => {
+    const target = (direction === 'UNDO' ? change.before : change.after) as T | undefined;
+    const position = result.findIndex(item => item.id === change.id);
+
+    if (!target) {
+      if (position >= 0) result.splice(position, 1);
+    } else if (position >= 0) {
+      result[position] = target;
+    } else {
+      result.splice(Math.min(change.index, result.length), 0, target);
+    }
+  });
+
+  return result;
+}
+
+function applyCollection<K extends UndoableCollection>(target: UndoableState, key: K, changes: EntityChange[], direction: 'UNDO' | 'REDO'): void {
+  target[key] = applyChanges(target[key] as UndoableState[K][number][], changes, direction) as UndoableState[K];
+}
+
+/**
+ * Revert (UNDO) or re-apply (REDO) an entry onto the current state
+ */
+export function applyHistoryEntry(state: AppState, entry: HistoryEntry, direction: 'UNDO' | 'REDO'): AppState {
+  const next = { ...state };
+  (Object.keys(entry.changes) as UndoableCollection[]).forEach(key => {
+    applyCollection(next, key, entry.changes[key]!, direction);
+  });
+  return next;
+}
+
+/**
+ * Push a new command; clears the redo stack and caps the undo depth
+ */
+export function pushHistory(stack: HistoryStack, entry: HistoryEntry): HistoryStack {
+  return { past: [...stack.past, entry].slice(-HISTORY_LIMIT), future: [] };
+}
@@ -0,0 +1,148 @@
+/**
+ * Offline Fake Provider
+ *
+ * Deterministic canned responses for tests and offline demos: the same prompt
+ * always yields the same output, and nothing leaves the browser. JSON calls
+ * with a schema produce a value matching it; without one, a fixture for the task.
+ */
+
+import type { Schema } from '@google/genai';
+import { LlmTask } from '../types';
+import type { LlmProvider } from './llm';
+
+const COMPANY_PREFIXES = ['Summit', 'Harbor', 'Ironwood', 'Bluebird', 'Northside', 'Granite', 'Lakeshore', 'Copper'];
+const COMPANY_SUFFIXES = ['Fitness', 'Credit Union', 'Coffee Roasters', 'Auto Group', 'Dental', 'Brewing', 'Realty', 'Sports Medicine'];
+
+/**
+ * FNV-1a hash, used as the seed for every fake response
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const pick = <T,>(items: T[], seed: number) => items[seed % items.length];
+
+function fakeCompany(seed: number) {
+  const companyName = `${pick(COMPANY_PREFIXES, seed)} ${pick(COMPANY_SUFFIXES, Math.floor(seed / 7))}`;
+  const slug = companyName.toLowerCase().replace(/[^a-z0-9]+/g, '');
+  return { companyName, slug, website: `https://${slug}.example.com` };
+}
+
+function fakeLeads(seed: number) {
+  return Array.from({ length: 5 }, (_, i) => {
+    const { companyName, slug, website } = fakeCompany(seed + i * 13);
+    const evidence = { source: 'official_website', confidence: 0.9, sourceUrl: website };
+    return {
+      companyName,
+      description: `${companyName} runs community programs and regularly sponsors youth sports.`,
+      dnaScore: 60 + ((seed >> i) % 36),
+      matchReasoning: 'Local brand with an active community calendar.',
+      website,
+      email: `partnerships@${slug}.example.com`,
+      phone: `(555) 01${String((seed + i) % 100).padStart(2, '0')}`,
+      address: `${100 + i * 25} Main St`,
+      socialLinks: { instagram: slug },
+      latestSignal: `${companyName} announced a new community initiative.`,
+      contactEvidence: { website: evidence, email: evidence, instagram: { ...evidence, source: 'social' } },
+    };
+  });
+}
+
+const FIXTURES: Record<LlmTask, (seed: number) => unknown> = {
+  DISCOVERY: seed => fakeLeads(seed),
+  VERIFICATION: () => ({
+    status: 'VERIFIED',
+    reasoning: 'Offline verification: entity details are consistent.',
+    auditTrail: ['Offline fake provider: no external checks were performed.'],
+    correctedData: {},
+  }),
+  OUTREACH: seed => {
+    const { companyName } = fakeCompany(seed);
+    return {
+      emailDraft: `Subject: Partnership with ${companyName}\n\nWe'd love to explore a season partnership that puts your brand in front of our community.`,
+      dmDraft: `Hi! We think ${companyName} would be a great fit for our upcoming season. Open to a quick chat?`,
+    };
+  },
+  VALUE_PROP: seed => ({ valueProp: `Reach engaged local families every game day with ${fakeCompany(seed).companyName}.` }),
+  WEBSITE_INTEL: () => ({
+    mission: 'Bring the community together through youth sports.',
+    targetAudience: 'Local families with children aged 6-16',
+    keyDifferentiators: ['Volunteer-run', 'Affordable registration', 'Year-round programs'],
+    brandVoice: 'Community-focused and upbeat',
+    recentNews: 'Expanded to a second field this season.',
+    coreOfferings: ['Youth leagues', 'Summer camps', 'Skills clinics'],
+    fullSummary: 'A community sports organization running affordable youth programs year-round.',
+  }),
+  SIGNALS: seed => {
+    const { companyName, slug } = fakeCompany(seed);
+    return {
+      senderName: companyName,
+      senderHandle: `@${slug}`,
+      content: `${companyName} is looking for local teams to partner with this season.`,
+      identityMatch: 80 + (seed % 20),
+      suggestedAction: 'Reply with a sponsorship deck.',
+      contentThemes: ['Community', 'Local pride'],
+      recentCampaigns: ['Back-to-school drive'],
+      brandVoice: 'Friendly and local',
+      outreachHook: `Congrats on the recent launch at ${companyName}!`,
+    };
+  },
+};
+
+/**
+ * Build a deterministic value matching a schema
+ */
+function fromSchema(schema: Schema, seed: number, key = 'value'): unknown {
+  if (schema.enum?.length) return pick(schema.enum, seed);
+  switch (String(schema.type).toUpperCase()) {
+    case 'OBJECT':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([prop, child], i) => [prop, fromSchema(child, seed + i, prop)])
+      );
+    case 'ARRAY':
+      return schema.items ? [0, 1].map(i => fromSchema(schema.items!, seed + i, key)) : [];
+    case 'NUMBER':
+    case 'INTEGER':
+      return seed % 100;
+    case 'BOOLEAN':
+      return seed % 2 === 0;
+    default:
+      return `Sample ${key} ${seed % 1000}`;
+  }
+}
+
+export const fakeProvider: LlmProvider = {
+  id: 'FAKE',
+
+  assertConfigured() {},
+
+  async generateText({ task, prompt, signal }) {
+    signal?.throwIfAborted();
+    const seed = hashString(prompt);
+    const { companyName } = fakeCompany(seed);
+    return task === 'VALUE_PROP'
+      ? (FIXTURES.VALUE_PROP(seed) as { valueProp: string }).valueProp
+      : `[Offline ${task.toLowerCase()}] ${companyName} is growing its community presence and open to local partnerships.`;
+  },
+
+  async generateJson({ task, prompt, schema, signal }) {
+    signal?.throwIfAborted();
+    const seed = hashString(prompt);
+    return JSON.stringify(schema ? fromSchema(schema, seed) : FIXTURES[task](seed));
+  },
+
+  async groundedSearch({ task, prompt, signal }) {
+    signal?.throwIfAborted();
+    const seed = hashString(prompt);
+    const payload = FIXTURES[task](seed);
+    const groundingLinks = Array.isArray(payload)
+      ? payload.map((lead: { companyName: string; website: string }) => ({ uri: lead.website, title: lead.companyName }))
+      : [];
+    return { text: JSON.stringify(payload), groundingLinks };
+  },
+};
@@ -0,0 +1,93 @@
+/**
+ * Gemini Provider (Google GenAI SDK)
+ *
+ * Native JSON mode, Google Search and Google Maps grounding.
+ */
+
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { GroundingLink, LlmTask } from '../types';
+import type { LlmProvider } from './llm';
+import { reportUsage } from './usage';
+
+const getAI = () => {
+  const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error("VITE_GEMINI_API_KEY environment variable is not defined. Please add it to your .env file.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+/**
+ * Record token usage from the response metadata (thinking tokens bill as output)
+ */
+const recordUsage = (task: LlmTask, model: string, response: GenerateContentResponse) => {
+  const usage = response.usageMetadata;
+  if (!usage) return;
+  reportUsage({
+    provider: 'GEMINI',
+    model,
+    operation: task,
+    inputTokens: usage.promptTokenCount || 0,
+    outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+  });
+};
+
+export const geminiProvider: LlmProvider = {
+  id: 'GEMINI',
+
+  assertConfigured() {
+    getAI();
+  },
+
+  async generateText({ task, model, prompt, search, signal }) {
+    const response = await getAI().models.generateContent({
+      model,
+      contents: [{ parts: [{ text: prompt }] }],
+      config: {
+        abortSignal: signal,
+        ...(search ? { tools: [{ googleSearch: {} }] } : {}),
+      },
+    });
+    recordUsage(task, model, response);
+    return response.text || '';
+  },
+
+  async generateJson({ task, model, prompt, search, schema, signal }) {
+    const response = await getAI().models.generateContent({
+      model,
+      contents: [{ parts: [{ text: prompt }] }],
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        // Gemini rejects a response schema combined with tools, so grounded calls rely on the prompt
+        ...(search ? { tools: [{ googleSearch: {} }] } : schema ? { responseSchema: schema } : {}),
+      },
+    });
+    recordUsage(task, model, response);
+    return response.text || '';
+  },
+
+  async groundedSearch({ task, model, prompt, useMaps, userCoords, signal }) {
+    const response = await getAI().models.generateContent({
+      model,
+      contents: [{ parts: [{ text: prompt }] }],
+      config: {
+        abortSignal: signal,
+        tools: useMaps ? [{ googleMaps: {} }, { googleSearch: {} }] : [{ googleSearch: {} }],
+        toolConfig: userCoords ? {
+          retrievalConfig: { latLng: { latitude: userCoords.latitude, longitude: userCoords.longitude } }
+        } : undefined,
+      },
+    });
+
+    recordUsage(task, model, response);
+
+    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+    const groundingLinks: GroundingLink[] = groundingChunks.map((chunk: any) => ({
+      uri: chunk.maps?.uri || chunk.web?.uri || '',
+      title: chunk.maps?.title || chunk.web?.title || 'Verified Grounding'
+    })).filter((l: GroundingLink) => l.uri !== '');
+
+    return { text: response.text || '', groundingLinks };
+  },
+};
@@ -0,0 +1,96 @@
+/**
+ * OpenAI-compatible Provider (Chat Completions API)
+ *
+ * Works with OpenAI and any server exposing `/chat/completions` (Ollama,
+ * LM Studio, vLLM, proxies). There is no portable web-search tool, so
+ * "grounded" calls are answered from the model alone with no source links.
+ */
+
+import type { Schema } from '@google/genai';
+import { LlmTask } from '../types';
+import type { LlmProvider } from './llm';
+import { reportUsage } from './usage';
+import { HttpStatusError, parseRetryAfter } from './request-executor';
+
+/**
+ * Convert a Gemini-style schema (uppercase `Type` values) to JSON Schema
+ */
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const json: Record<string, unknown> = {};
+  if (schema.type) {
+    const type = String(schema.type).toLowerCase();
+    json.type = schema.nullable ? [type, 'null'] : type;
+  }
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) json.required = schema.required;
+  return json;
+}
+
+export function createOpenAiProvider(baseUrl: string, apiKey: string): LlmProvider {
+  const complete = async (task: LlmTask, model: string, prompt: string, signal?: AbortSignal, responseFormat?: Record<string, unknown>) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        ...(responseFormat ? { response_format: responseFormat } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new HttpStatusError(
+        response.status,
+        `OpenAI-compatible request failed: HTTP ${response.status}`,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    const data = await response.json();
+    if (data?.usage) {
+      reportUsage({
+        provider: 'OPENAI',
+        model,
+        operation: task,
+        inputTokens: data.usage.prompt_tokens || 0,
+        outputTokens: data.usage.completion_tokens || 0,
+      });
+    }
+    return (data?.choices?.[0]?.message?.content as string | undefined) || '';
+  };
+
+  return {
+    id: 'OPENAI',
+
+    assertConfigured() {
+      if (!baseUrl) {
+        throw new Error("OpenAI-compatible base URL is not configured. Set it under AI Providers on the Insights tab.");
+      }
+    },
+
+    async generateText({ task, model, prompt, signal }) {
+      return complete(task, model, prompt, signal);
+    },
+
+    async generateJson({ task, model, prompt, schema, signal }) {
+      return complete(task, model, prompt, signal, schema
+        ? { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(schema) } }
+        : { type: 'json_object' });
+    },
+
+    async groundedSearch({ task, model, prompt, signal }) {
+      return { text: await complete(task, model, prompt, signal), groundingLinks: [] };
+    },
+  };
+}
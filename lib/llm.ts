@@ -0,0 +1,177 @@
+/**
+ * LLM Provider Abstraction
+ *
+ * Every model call in lib/gemini.ts goes through this facade, which routes it
+ * to the provider configured for its task in AutomationSettings.llm. Providers
+ * implement three capabilities: plain text, JSON (optionally schema-constrained)
+ * and grounded web search returning source links. Calls run through the shared
+ * request executor, so they are retried and rate limited per provider.
+ */
+
+import type { Schema } from '@google/genai';
+import { GroundingLink, LlmProviderId, LlmSettings, LlmTask } from '../types';
+import { geminiProvider } from './llm-gemini';
+import { createOpenAiProvider } from './llm-openai';
+import { fakeProvider } from './llm-fake';
+import { executeRequest } from './request-executor';
+
+export interface LlmRequest {
+  task: LlmTask;
+  model: string;
+  prompt: string;
+  /** Cancels the in-flight call */
+  signal?: AbortSignal;
+}
+
+export interface LlmTextRequest extends LlmRequest {
+  /** Allow the model to consult web search while answering */
+  search?: boolean;
+}
+
+export interface LlmJsonRequest extends LlmTextRequest {
+  /** Response schema, enforced natively where the provider supports it */
+  schema?: Schema;
+}
+
+export interface LlmSearchRequest extends LlmRequest {
+  useMaps?: boolean;
+  userCoords?: { latitude: number; longitude: number };
+}
+
+export interface LlmGroundedResult {
+  text: string;
+  groundingLinks: GroundingLink[];
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  /** Throws when the provider cannot be called (e.g. missing API key) */
+  assertConfigured(): void;
+  generateText(request: LlmTextRequest): Promise<string>;
+  /** Returns the raw JSON text produced by the model */
+  generateJson(request: LlmJsonRequest): Promise<string>;
+  groundedSearch(request: LlmSearchRequest): Promise<LlmGroundedResult>;
+}
+
+export const LLM_TASKS: { task: LlmTask; label: string }[] = [
+  { task: 'DISCOVERY', label: 'Discovery' },
+  { task: 'VERIFICATION', label: 'Verification' },
+  { task: 'OUTREACH', label: 'Outreach' },
+  { task: 'VALUE_PROP', label: 'Value Prop' },
+  { task: 'WEBSITE_INTEL', label: 'Website Intel' },
+  { task: 'SIGNALS', label: 'Signals' },
+];
+
+export const LLM_PROVIDERS: { id: LlmProviderId; label: string }[] = [
+  { id: 'GEMINI', label: 'Gemini' },
+  { id: 'OPENAI', label: 'OpenAI-compatible' },
+  { id: 'FAKE', label: 'Offline Fake' },
+];
+
+export const DEFAULT_MODELS: Record<LlmProviderId, Record<LlmTask, string>> = {
+  GEMINI: {
+    DISCOVERY: 'gemini-2.5-flash',
+    VERIFICATION: 'gemini-3-pro-preview',
+    OUTREACH: 'gemini-3-pro-preview',
+    VALUE_PROP: 'gemini-3-pro-preview',
+    WEBSITE_INTEL: 'gemini-3-pro-preview',
+    SIGNALS: 'gemini-3-pro-preview',
+  },
+  OPENAI: {
+    DISCOVERY: 'gpt-4o-mini',
+    VERIFICATION: 'gpt-4o',
+    OUTREACH: 'gpt-4o',
+    VALUE_PROP: 'gpt-4o',
+    WEBSITE_INTEL: 'gpt-4o',
+    SIGNALS: 'gpt-4o-mini',
+  },
+  FAKE: {
+    DISCOVERY: 'fake-scout-1',
+    VERIFICATION: 'fake-scout-1',
+    OUTREACH: 'fake-scout-1',
+    VALUE_PROP: 'fake-scout-1',
+    WEBSITE_INTEL: 'fake-scout-1',
+    SIGNALS: 'fake-scout-1',
+  },
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  tasks: {
+    DISCOVERY: { provider: 'GEMINI' },
+    VERIFICATION: { provider: 'GEMINI' },
+    OUTREACH: { provider: 'GEMINI' },
+    VALUE_PROP: { provider: 'GEMINI' },
+    WEBSITE_INTEL: { provider: 'GEMINI' },
+    SIGNALS: { provider: 'GEMINI' },
+  },
+  openAiBaseUrl: 'https://api.openai.com/v1',
+  openAiApiKey: '',
+};
+
+let activeSettings: LlmSettings = DEFAULT_LLM_SETTINGS;
+
+/**
+ * Apply the workspace's provider settings (called by App whenever they change)
+ */
+export function configureLlm(settings: LlmSettings | undefined): void {
+  activeSettings = settings || DEFAULT_LLM_SETTINGS;
+}
+
+function getProvider(id: LlmProviderId): LlmProvider {
+  switch (id) {
+    case 'OPENAI':
+      return createOpenAiProvider(activeSettings.openAiBaseUrl, activeSettings.openAiApiKey);
+    case 'FAKE':
+      return fakeProvider;
+    default:
+      return geminiProvider;
+  }
+}
+
+/**
+ * Per-call replacements for DEFAULT_MODELS; a model the user set for the task still wins
+ */
+export type ModelDefaults = Partial<Record<LlmProviderId, string>>;
+
+/**
+ * Provider and model configured for a task
+ */
+export function resolveTask(task: LlmTask, defaults: ModelDefaults = {}): { provider: LlmProvider; model: string } {
+  const setting = activeSettings.tasks[task] || DEFAULT_LLM_SETTINGS.tasks[task];
+  return {
+    provider: getProvider(setting.provider),
+    model: setting.model?.trim() || defaults[setting.provider] || DEFAULT_MODELS[setting.provider][task],
+  };
+}
+
+/**
+ * Throw early if the provider for a task cannot be called
+ */
+export function assertLlmConfigured(task: LlmTask): void {
+  resolveTask(task).provider.assertConfigured();
+}
+
+const taskLabel = (task: LlmTask) => LLM_TASKS.find(entry => entry.task === task)?.label || task;
+
+export async function generateText(
+  task: LlmTask,
+  prompt: string,
+  { defaultModels, ...options }: { search?: boolean; signal?: AbortSignal; defaultModels?: ModelDefaults } = {}
+): Promise<string> {
+  const { provider, model } = resolveTask(task, defaultModels);
+  return executeRequest(provider.id, () => provider.generateText({ task, model, prompt, ...options }), taskLabel(task), options.signal);
+}
+
+export async function generateJson(task: LlmTask, prompt: string, options: { search?: boolean; schema?: Schema; signal?: AbortSignal } = {}): Promise<string> {
+  const { provider, model } = resolveTask(task);
+  return executeRequest(provider.id, () => provider.generateJson({ task, model, prompt, ...options }), taskLabel(task), options.signal);
+}
+
+export async function groundedSearch(
+  task: LlmTask,
+  prompt: string,
+  options: { useMaps?: boolean; userCoords?: { latitude: number; longitude: number }; signal?: AbortSignal } = {}
+): Promise<LlmGroundedResult> {
+  const { provider, model } = resolveTask(task);
+  return executeRequest(provider.id, () => provider.groundedSearch({ task, model, prompt, ...options }), taskLabel(task), options.signal);
+}
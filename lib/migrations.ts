@@ -0,0 +1,198 @@
+/**
+ * Versioned State Migrations
+ *
+ * Ordered registry of step-wise transforms for persisted workspace state.
+ * Each migration upgrades a payload from `version - 1` to `version` and must be
+ * a pure function of its input so it can be exercised in isolation.
+ *
+ * To change the shape of a persisted entity (Deal, Sponsor, ...), append a new
+ * migration here; CURRENT_STATE_VERSION follows the last entry automatically.
+ */
+
+export interface Migration {
+  /** Version produced by this migration */
+  version: number;
+  description: string;
+  up: (state: any) => any;
+}
+
+export interface MigrationRecord {
+  version: number;
+  description: string;
+  appliedAt: string;
+}
+
+export interface MigrationResult<T = any> {
+  state: T;
+  fromVersion: number;
+  toVersion: number;
+  applied: MigrationRecord[];
+}
+
+/**
+ * Version assigned to raw, unversioned AppState blobs written before envelopes existed
+ */
+export const LEGACY_STATE_VERSION = 1;
+
+/**
+ * v1 → v2: Saved DNA personas and the Apollo key setting
+ */
+export const addPersonasAndApolloKey = (state: any) => ({
+  ...state,
+  personas: state.personas || [],
+  automationSettings: {
+    ...state.automationSettings,
+    apolloApiKey: state.automationSettings?.apolloApiKey || ''
+  }
+});
+
+/**
+ * v2 → v3: Archive retention setting for soft-deleted deals
+ */
+export const addArchiveRetention = (state: any) => ({
+  ...state,
+  automationSettings: {
+    ...state.automationSettings,
+    archiveRetentionDays: state.automationSettings?.archiveRetentionDays ?? 180
+  }
+});
+
+/**
+ * v3 → v4: Per-task LLM provider routing (everything stays on Gemini)
+ */
+export const addLlmSettings = (state: any) => {
+  const gemini = () => ({ provider: 'GEMINI' });
+  return {
+    ...state,
+    automationSettings: {
+      ...state.automationSettings,
+      llm: state.automationSettings?.llm || {
+        tasks: {
+          DISCOVERY: gemini(),
+          VERIFICATION: gemini(),
+          OUTREACH: gemini(),
+          VALUE_PROP: gemini(),
+          WEBSITE_INTEL: gemini(),
+          SIGNALS: gemini(),
+        },
+        openAiBaseUrl: 'https://api.openai.com/v1',
+        openAiApiKey: ''
+      }
+    }
+  };
+};
+
+/**
+ * v4 → v5: API usage ledger and spend budget
+ */
+export const addUsageLedger = (state: any) => ({
+  ...state,
+  usageLedger: state.usageLedger || [],
+  automationSettings: {
+    ...state.automationSettings,
+    usageBudget: state.automationSettings?.usageBudget || {
+      dailyLimit: 0,
+      monthlyLimit: 0,
+      enforcement: 'WARN',
+      apolloCreditCost: 0.1
+    }
+  }
+});
+
+/**
+ * v5 → v6: Scheduled discovery jobs
+ */
+export const addDiscoveryJobs = (state: any) => ({
+  ...state,
+  discoveryJobs: state.discoveryJobs || []
+});
+
+/**
+ * v6 → v7: Composite lead scoring weights
+ */
+export const addScoringSettings = (state: any) => ({
+  ...state,
+  automationSettings: {
+    ...state.automationSettings,
+    scoring: state.automationSettings?.scoring || {
+      weights: { FIT: 35, COMPLETENESS: 15, CONFIDENCE: 15, VERIFICATION: 15, FIRMOGRAPHICS: 5, DISTANCE: 10, RECENCY: 5 },
+      maxDistanceMiles: 50,
+      preferredIndustries: []
+    }
+  }
+});
+
+/**
+ * v7 → v8: Background re-checks of board sponsor contact data
+ */
+export const addSponsorRecheck = (state: any) => ({
+  ...state,
+  automationSettings: {
+    ...state.automationSettings,
+    sponsorRecheckDays: state.automationSettings?.sponsorRecheckDays ?? 30
+  }
+});
+
+export const MIGRATIONS: Migration[] = [
+  { version: 2, description: 'Add saved personas and Apollo API key setting', up: addPersonasAndApolloKey },
+  { version: 3, description: 'Add archive retention setting', up: addArchiveRetention },
+  { version: 4, description: 'Add per-task LLM provider settings', up: addLlmSettings },
+  { version: 5, description: 'Add API usage ledger and budget', up: addUsageLedger },
+  { version: 6, description: 'Add scheduled discovery jobs', up: addDiscoveryJobs },
+  { version: 7, description: 'Add lead scoring settings', up: addScoringSettings },
+  { version: 8, description: 'Add sponsor re-check interval', up: addSponsorRecheck },
+];
+
+export const CURRENT_STATE_VERSION = MIGRATIONS.reduce((max, m) => Math.max(max, m.version), LEGACY_STATE_VERSION);
+
+/**
+ * Run every registered migration newer than `fromVersion`, in order
+ *
+ * @param state - Payload at `fromVersion`
+ * @param fromVersion - Version the payload was persisted with
+ * @param migrations - Registry to run (defaults to MIGRATIONS)
+ * @returns The upgraded state plus a record of each migration that ran
+ */
+export function runMigrations<T = any>(
+  state: any,
+  fromVersion: number,
+  migrations: Migration[] = MIGRATIONS
+): MigrationResult<T> {
+  const pending = migrations
+    .filter(m => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  let current = state;
+  let version = fromVersion;
+  const applied: MigrationRecord[] = [];
+
+  for (const migration of pending) {
+    if (migration.version !== version + 1) {
+      throw new Error(`Migration gap: no step from v${version} to v${migration.version}`);
+    }
+    current = migration.up(current);
+    version = migration.version;
+    applied.push({ version, description: migration.description, appliedAt: new Date().toISOString() });
+  }
+
+  if (fromVersion > version) {
+    console.warn(`⚠️ Migrations: Stored state v${fromVersion} is newer than this build (v${version}). Loading as-is.`);
+  }
+
+  return { state: current as T, fromVersion, toVersion: Math.max(version, fromVersion), applied };
+}
+
+/**
+ * Upgrade a payload from the legacy localStorage blob
+ *
+ * Handles both the `{ stateVersion, state }` envelope and the raw, unversioned AppState.
+ */
+export function migrateLegacyPayload<T = any>(payload: any): MigrationResult<T> | null {
+  if (!payload || typeof payload !== 'object') return null;
+
+  if (typeof payload.stateVersion === 'number' && payload.state) {
+    return runMigrations<T>(payload.state, payload.stateVersion);
+  }
+
+  return runMigrations<T>(payload, LEGACY_STATE_VERSION);
+}
@@ -0,0 +1,121 @@
+/**
+ * Sponsor Seasons & Renewals
+ *
+ * A sponsor can hold several deals across seasons (e.g. "2025 Jersey",
+ * "2026 Title"). Renewal deals copy tier and amount from the previous season
+ * and are scheduled from its `contractEndDate`.
+ */
+
+import { Deal, Sponsor, PipelineStage } from '../types';
+import { getIdentityKeys } from './gemini';
+
+/** Contracts ending within this window surface in "Renewals Due" */
+export const RENEWAL_WINDOW_DAYS = 90;
+
+/** Follow-up lead time before a contract ends */
+const RENEWAL_LEAD_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Find a sponsor that already represents the same company (by domain, IG handle or name)
+ */
+export function findExistingSponsor(sponsors: Sponsor[], candidate: Omit<Sponsor, 'id'>): Sponsor | undefined {
+  const keys = new Set(getIdentityKeys(candidate));
+  if (keys.size === 0) return undefined;
+  return sponsors.find(s => getIdentityKeys(s).some(k => keys.has(k)));
+}
+
+/**
+ * Season a deal belongs to; falls back to the contract end year
+ */
+export function dealSeason(deal: Deal): string | undefined {
+  return deal.season || (deal.contractEndDate ? deal.contractEndDate.slice(0, 4) : undefined);
+}
+
+/**
+ * Human label for a deal within its sponsor, e.g. "2026 Title Partner"
+ */
+export function dealLabel(deal: Deal): string {
+  const season = dealSeason(deal);
+  return season ? `${season} ${deal.tier}` : deal.tier;
+}
+
+/**
+ * Season following the given deal ("2025" → "2026", "2025-26" → "2026-27")
+ */
+export function nextSeason(deal: Deal): string {
+  const season = dealSeason(deal);
+  if (season && /^\d{4}(-\d{2})?$/.test(season)) {
+    const start = Number(season.slice(0, 4)) + 1;
+    return season.length > 4 ? `${start}-${String(start + 1).slice(2)}` : String(start);
+  }
+  return String(new Date().getFullYear() + 1);
+}
+
+/**
+ * Whether a renewal deal has already been created from this deal
+ */
+export function hasRenewal(deal: Deal, deals: Deal[]): boolean {
+  return deals.some(d => d.renewedFromDealId === deal.id);
+}
+
+/**
+ * Signed/active deals whose contract ends within the renewal window (or already ended) without a renewal
+ */
+export function findRenewalsDue(deals: Deal[], withinDays: number = RENEWAL_WINDOW_DAYS, now: number = Date.now()): Deal[] {
+  const horizon = now + withinDays * DAY_MS;
+  return deals
+    .filter(d =>
+      !d.archivedAt &&
+      d.contractEndDate &&
+      (d.stage === PipelineStage.SIGNED || d.stage === PipelineStage.ACTIVE) &&
+      new Date(d.contractEndDate).getTime() <= horizon &&
+      !hasRenewal(d, deals)
+    )
+    .sort((a, b) => (a.contractEndDate || '').localeCompare(b.contractEndDate || ''));
+}
+
+/**
+ * Draft next season's deal: same sponsor, tier and amount, back at the start of the pipeline
+ */
+export function buildRenewalDeal(deal: Deal): Omit<Deal, 'id'> {
+  const today = new Date().toISOString().split('T')[0];
+  let nextFollowUp = today;
+  if (deal.contractEndDate) {
+    const leadDate = new Date(new Date(deal.contractEndDate).getTime() - RENEWAL_LEAD_DAYS * DAY_MS).toISOString().split('T')[0];
+    if (leadDate > today) nextFollowUp = leadDate;
+  }
+
+  return {
+    sponsorId: deal.sponsorId,
+    stage: PipelineStage.DISCOVERY,
+    amount: deal.amount,
+    tier: deal.tier,
+    season: nextSeason(deal),
+    nextFollowUp,
+    notes: `Renewal of ${dealLabel(deal)}${deal.contractEndDate ? ` (contract ends ${deal.contractEndDate})` : ''}.`,
+    currentSequenceStep: 1,
+    renewedFromDealId: deal.id,
+  };
+}
+
+/**
+ * Fill blank fields on an existing sponsor from a newly captured record
+ */
+export function mergeSponsorDetails(existing: Sponsor, incoming: Omit<Sponsor, 'id'>): Sponsor {
+  const socialLinks: Sponsor['socialLinks'] = { ...incoming.socialLinks };
+  Object.entries(existing.socialLinks || {}).forEach(([platform, url]) => {
+    if (url) (socialLinks as Record<string, string>)[platform] = url;
+  });
+  const filled: Sponsor = { ...existing, socialLinks };
+  const source: Sponsor = { ...incoming, id: existing.id };
+  const assign = <K extends keyof Sponsor>(key: K) => {
+    filled[key] = source[key];
+  };
+  (Object.keys(incoming) as (keyof Sponsor)[]).forEach(key => {
+    if (key === 'id' || key === 'socialLinks' || key === 'archivedAt') return;
+    if ((filled[key] === undefined || filled[key] === '') && source[key] !== undefined) assign(key);
+  });
+  return { ...filled, archivedAt: undefined };
+}
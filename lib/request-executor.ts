@@ -0,0 +1,266 @@
+/**
+ * Shared Request Executor
+ *
+ * Runs every outbound Gemini / OpenAI-compatible / Apollo call with:
+ * - a per-provider concurrency limit (calls queue FIFO beyond it)
+ * - exponential backoff with jitter, honoring Retry-After when provided
+ * - a per-provider retry budget so a struggling API is not hammered
+ * - retryable (429, 5xx, network) vs fatal (4xx, invalid output) classification
+ *
+ * Retry and failure events are published so the UI can show "retrying (2/3)".
+ * An optional AbortSignal cancels the request, including any pending backoff.
+ */
+
+import { AxiosError } from 'axios';
+import { LlmResponseError } from './structured-output';
+
+export type RequestProvider = 'GEMINI' | 'OPENAI' | 'FAKE' | 'APOLLO';
+
+export interface RetryPolicy {
+  /** Total attempts including the first */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Retries allowed per provider in any rolling minute */
+  retryBudgetPerMinute: number;
+}
+
+interface ProviderLimits {
+  label: string;
+  concurrency: number;
+  retry: RetryPolicy;
+}
+
+export const PROVIDER_LIMITS: Record<RequestProvider, ProviderLimits> = {
+  GEMINI: { label: 'Gemini', concurrency: 4, retry: { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 20000, retryBudgetPerMinute: 20 } },
+  OPENAI: { label: 'OpenAI', concurrency: 4, retry: { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 20000, retryBudgetPerMinute: 20 } },
+  FAKE: { label: 'Offline', concurrency: Infinity, retry: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0, retryBudgetPerMinute: 0 } },
+  APOLLO: { label: 'Apollo', concurrency: 3, retry: { maxAttempts: 3, baseDelayMs: 1500, maxDelayMs: 30000, retryBudgetPerMinute: 30 } },
+};
+
+/**
+ * HTTP failure from a fetch-based client, carrying the status for classification
+ */
+export class HttpStatusError extends Error {
+  readonly status: number;
+  readonly retryAfterMs?: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpStatusError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Final failure of a request after classification and any retries
+ */
+export class RequestError extends Error {
+  readonly provider: RequestProvider;
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly attempts: number;
+
+  constructor(provider: RequestProvider, message: string, details: { status?: number; retryable: boolean; attempts: number; cause: unknown }) {
+    super(message, { cause: details.cause });
+    this.name = 'RequestError';
+    this.provider = provider;
+    this.status = details.status;
+    this.retryable = details.retryable;
+    this.attempts = details.attempts;
+  }
+}
+
+/**
+ * RETRY fires before each further attempt; FAILED fires once per request, with its final error
+ */
+export type RequestEvent =
+  | { type: 'RETRY'; provider: RequestProvider; label: string; attempt: number; maxAttempts: number; delayMs: number; reason: string }
+  | { type: 'FAILED'; provider: RequestProvider; label: string; error: RequestError };
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * True for fetch/SDK aborts and cancelled axios requests
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error instanceof DOMException && error.name === 'AbortError')
+    || (error as AxiosError)?.code === 'ERR_CANCELED';
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date)
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Decide whether an error is worth retrying
+ */
+export function classifyError(error: unknown): { retryable: boolean; status?: number; retryAfterMs?: number; reason: string } {
+  if (error instanceof LlmResponseError) {
+    return { retryable: false, reason: 'invalid model output' };
+  }
+  if (isAbortError(error)) {
+    return { retryable: false, reason: 'aborted' };
+  }
+  if (error instanceof HttpStatusError) {
+    return { retryable: RETRYABLE_STATUSES.has(error.status), status: error.status, retryAfterMs: error.retryAfterMs, reason: `HTTP ${error.status}` };
+  }
+
+  const axiosError = error as AxiosError;
+  if (axiosError?.isAxiosError) {
+    const status = axiosError.response?.status;
+    if (!status) return { retryable: true, reason: axiosError.code || 'network error' };
+    const retryAfter = axiosError.response?.headers?.['retry-after'];
+    return { retryable: RETRYABLE_STATUSES.has(status), status, retryAfterMs: parseRetryAfter(retryAfter), reason: `HTTP ${status}` };
+  }
+
+  // @google/genai ApiError exposes a numeric `status`
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+  if (status) {
+    return { retryable: RETRYABLE_STATUSES.has(status), status, reason: `HTTP ${status}` };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/RESOURCE_EXHAUSTED|UNAVAILABLE|rate limit|overloaded/i.test(message)) {
+    return { retryable: true, reason: 'rate limited' };
+  }
+  // fetch() rejects with a TypeError on network failure
+  if (error instanceof TypeError) {
+    return { retryable: true, reason: 'network error' };
+  }
+  return { retryable: false, reason: message };
+}
+
+const listeners = new Set<(event: RequestEvent) => void>();
+
+/**
+ * Listen for retries and final failures across all providers
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToRequestEvents(listener: (event: RequestEvent) => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+const emit = (event: RequestEvent) => listeners.forEach(listener => listener(event));
+
+/**
+ * Concurrency slots per provider (FIFO queue beyond the limit)
+ */
+const active = new Map<RequestProvider, number>();
+const waiting = new Map<RequestProvider, (() => void)[]>();
+
+function acquireSlot(provider: RequestProvider): Promise<void> {
+  const running = active.get(provider) || 0;
+  if (running < PROVIDER_LIMITS[provider].concurrency) {
+    active.set(provider, running + 1);
+    return Promise.resolve();
+  }
+  return new Promise(resolve => {
+    waiting.set(provider, [...(waiting.get(provider) || []), () => {
+      active.set(provider, (active.get(provider) || 0) + 1);
+      resolve();
+    }]);
+  });
+}
+
+function releaseSlot(provider: RequestProvider): void {
+  active.set(provider, Math.max(0, (active.get(provider) || 0) - 1));
+  const queue = waiting.get(provider) || [];
+  const next = queue.shift();
+  waiting.set(provider, queue);
+  next?.();
+}
+
+/**
+ * Rolling one-minute retry budget per provider
+ */
+const retryLog = new Map<RequestProvider, number[]>();
+
+function takeRetryBudget(provider: RequestProvider): boolean {
+  const now = Date.now();
+  const recent = (retryLog.get(provider) || []).filter(at => now - at < 60000);
+  if (recent.length >= PROVIDER_LIMITS[provider].retry.retryBudgetPerMinute) {
+    retryLog.set(provider, recent);
+    return false;
+  }
+  retryLog.set(provider, [...recent, now]);
+  return true;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function backoffDelay(policy: RetryPolicy, attempt: number, retryAfterMs?: number): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  return retryAfterMs !== undefined ? Math.min(Math.max(retryAfterMs, jittered), 60000) : jittered;
+}
+
+/**
+ * Run a request under the provider's concurrency limit and retry policy
+ *
+ * @param provider - Which limits and retry policy apply
+ * @param run - The request; invoked once per attempt
+ * @param label - Human-readable operation name for events and errors
+ * @param signal - Aborts the request and any pending retry; the abort error is rethrown as-is
+ * @throws RequestError once the request fails fatally or runs out of retries
+ */
+export async function executeRequest<T>(provider: RequestProvider, run: () => Promise<T>, label: string, signal?: AbortSignal): Promise<T> {
+  const { retry, label: providerLabel } = PROVIDER_LIMITS[provider];
+
+  const attemptOnce = async () => {
+    await acquireSlot(provider);
+    try {
+      signal?.throwIfAborted();
+      return await run();
+    } finally {
+      releaseSlot(provider);
+    }
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await attemptOnce();
+    } catch (error) {
+      // Invalid model output already carries a field-level message; keep it as-is
+      if (error instanceof LlmResponseError) throw error;
+      if (signal?.aborted || isAbortError(error)) throw error;
+
+      const { retryable, status, retryAfterMs, reason } = classifyError(error);
+      const hasAttemptsLeft = attempt < retry.maxAttempts;
+
+      if (!retryable || !hasAttemptsLeft || !takeRetryBudget(provider)) {
+        const suffix = retryable && hasAttemptsLeft ? ' (retry budget exhausted)' : attempt > 1 ? ` after ${attempt} attempts` : '';
+        const failure = new RequestError(provider, `${providerLabel} ${label} failed: ${reason}${suffix}`, { status, retryable, attempts: attempt, cause: error });
+        emit({ type: 'FAILED', provider, label, error: failure });
+        throw failure;
+      }
+
+      const delayMs = backoffDelay(retry, attempt, retryAfterMs);
+      console.warn(`⚠️ ${providerLabel}: ${label} failed (${reason}), retrying in ${Math.round(delayMs)}ms (${attempt + 1}/${retry.maxAttempts})`);
+      emit({ type: 'RETRY', provider, label, attempt: attempt + 1, maxAttempts: retry.maxAttempts, delayMs, reason });
+      await sleep(delayMs, signal);
+    }
+  }
+}
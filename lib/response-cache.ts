@@ -0,0 +1,105 @@
+/**
+ * Response Cache
+ *
+ * Persists paid or slow lookups in IndexedDB, keyed by normalized input:
+ * - DISCOVERY / VERIFICATION: SHA-256 of provider, model and prompt
+ * - APOLLO: the company domain (see extractDomain)
+ * - SCRAPER: the normalized page URL
+ *
+ * Each source has its own TTL. Cache failures never block a call; they only
+ * cost a fresh request.
+ */
+
+import { CacheHit, CacheSource } from '../types';
+import { readCacheRecord, writeCacheRecord } from './storage';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const CACHE_TTL_MS: Record<CacheSource, number> = {
+  DISCOVERY: 24 * HOUR_MS,
+  VERIFICATION: 7 * DAY_MS,
+  APOLLO: 30 * DAY_MS,
+  SCRAPER: 7 * DAY_MS,
+};
+
+export const CACHE_SOURCE_LABELS: Record<CacheSource, string> = {
+  DISCOVERY: 'Discovery',
+  VERIFICATION: 'Verification',
+  APOLLO: 'Apollo',
+  SCRAPER: 'Website scrape',
+};
+
+export interface CacheOptions<T> {
+  /** Skip the lookup and overwrite the entry with a fresh response */
+  forceRefresh?: boolean;
+  /** Only store responses that pass (e.g. skip failed enrichments) */
+  shouldCache?: (value: T) => boolean;
+}
+
+/**
+ * Hex SHA-256 of the given parts, used to key prompt-based calls
+ */
+export async function hashKey(...parts: string[]): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(parts.join('\u0000')));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Normalize a URL for cache keys: protocol, case, "www.", fragment and trailing slash don't matter
+ */
+export function normalizeUrlKey(url: string): string {
+  const trimmed = url.trim();
+  try {
+    const parsed = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    return `${host}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+  } catch (error) {
+    return trimmed.toLowerCase();
+  }
+}
+
+/**
+ * Human-readable age of a cache hit, e.g. "3h ago"
+ */
+export function describeCacheAge(cachedAt: string): string {
+  const ageMs = Date.now() - Date.parse(cachedAt);
+  if (ageMs < HOUR_MS) return `${Math.max(1, Math.round(ageMs / 60000))}m ago`;
+  if (ageMs < DAY_MS) return `${Math.round(ageMs / HOUR_MS)}h ago`;
+  return `${Math.round(ageMs / DAY_MS)}d ago`;
+}
+
+/**
+ * Return a fresh cached response if one exists, otherwise load and store it
+ *
+ * @returns The value, plus the hit when it came from the cache
+ */
+export async function withResponseCache<T>(
+  source: CacheSource,
+  key: string,
+  load: () => Promise<T>,
+  options: CacheOptions<T> = {}
+): Promise<{ value: T; hit?: CacheHit }> {
+  const recordKey = `${source}:${key}`;
+
+  if (!options.forceRefresh) {
+    try {
+      const record = await readCacheRecord<T>(recordKey);
+      if (record && Date.now() - Date.parse(record.cachedAt) < CACHE_TTL_MS[source]) {
+        console.log(`💾 Cache: ${CACHE_SOURCE_LABELS[source]} hit for ${key.slice(0, 60)}`);
+        return { value: record.value, hit: { source, cachedAt: record.cachedAt } };
+      }
+    } catch (error) {
+      console.warn('⚠️ Cache: Lookup failed, fetching fresh:', error);
+    }
+  }
+
+  const value = await load();
+
+  if (!options.shouldCache || options.shouldCache(value)) {
+    writeCacheRecord({ key: recordKey, value, cachedAt: new Date().toISOString() })
+      .catch(error => console.warn('⚠️ Cache: Failed to store response:', error));
+  }
+
+  return { value };
+}
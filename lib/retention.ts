@@ -0,0 +1,103 @@
+/**
+ * Deal Archiving & Retention
+ *
+ * Archiving is a soft delete: the deal (and its sponsor, once it has no other
+ * active deals) is stamped with `archivedAt` and hidden from the board, while
+ * activities stay intact for next season's renewal outreach. Archived deals
+ * older than the configured retention window are purged for good, on load and
+ * once a day; shortening the window asks before purging what it would expire.
+ */
+
+import { AppState, Deal, Sponsor } from '../types';
+
+export const DEFAULT_ARCHIVE_RETENTION_DAYS = 180;
+
+export const RETENTION_OPTIONS = [30, 90, 180, 365, 0];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How often an open workspace re-checks the retention window */
+export const RETENTION_PURGE_INTERVAL_MS = DAY_MS;
+
+type ArchivableState = Pick<AppState, 'deals' | 'sponsors' | 'activities'>;
+
+export const isArchived = (record: Deal | Sponsor) => !!record.archivedAt;
+
+/**
+ * Deals that belong on the board, focus mode and dashboard metrics
+ */
+export function activeDeals(deals: Deal[]): Deal[] {
+  return deals.filter(d => !d.archivedAt);
+}
+
+/**
+ * Archive a deal; its sponsor is archived too when no other active deal references it
+ */
+export function archiveDeal<T extends ArchivableState>(state: T, dealId: string, now: string = new Date().toISOString()): T {
+  const deal = state.deals.find(d => d.id === dealId);
+  if (!deal || deal.archivedAt) return state;
+
+  const deals = state.deals.map(d => d.id === dealId ? { ...d, archivedAt: now } : d);
+  const sponsorStillActive = deals.some(d => d.sponsorId === deal.sponsorId && !d.archivedAt);
+
+  return {
+    ...state,
+    deals,
+    sponsors: sponsorStillActive
+      ? state.sponsors
+      : state.sponsors.map(s => s.id === deal.sponsorId ? { ...s, archivedAt: now } : s),
+  };
+}
+
+/**
+ * Return an archived deal (and its sponsor) to the board
+ */
+export function restoreDeal<T extends ArchivableState>(state: T, dealId: string): T {
+  const deal = state.deals.find(d => d.id === dealId);
+  if (!deal || !deal.archivedAt) return state;
+
+  return {
+    ...state,
+    deals: state.deals.map(d => d.id === dealId ? { ...d, archivedAt: undefined } : d),
+    sponsors: state.sponsors.map(s => s.id === deal.sponsorId && s.archivedAt ? { ...s, archivedAt: undefined } : s),
+  };
+}
+
+/**
+ * Permanently delete archived deals with their activities, and sponsors left without deals
+ */
+export function purgeDeals<T extends ArchivableState>(state: T, dealIds: string[]): T {
+  const ids = new Set(dealIds);
+  if (ids.size === 0) return state;
+
+  const deals = state.deals.filter(d => !ids.has(d.id));
+  const referencedSponsors = new Set(deals.map(d => d.sponsorId));
+  const purgedSponsors = new Set(state.deals.filter(d => ids.has(d.id) && !referencedSponsors.has(d.sponsorId)).map(d => d.sponsorId));
+
+  return {
+    ...state,
+    deals,
+    sponsors: state.sponsors.filter(s => !purgedSponsors.has(s.id)),
+    activities: state.activities.filter(a => !ids.has(a.dealId)),
+  };
+}
+
+/**
+ * Ids of archived deals past the retention window (none when retention is 0)
+ */
+export function findExpiredDeals(deals: Deal[], retentionDays: number, now: number = Date.now()): string[] {
+  if (!retentionDays || retentionDays <= 0) return [];
+  const cutoff = now - retentionDays * DAY_MS;
+  return deals
+    .filter(d => d.archivedAt && new Date(d.archivedAt).getTime() < cutoff)
+    .map(d => d.id);
+}
+
+/**
+ * Days left before an archived deal is purged (null when kept forever)
+ */
+export function daysUntilPurge(deal: Deal, retentionDays: number, now: number = Date.now()): number | null {
+  if (!deal.archivedAt || !retentionDays || retentionDays <= 0) return null;
+  const purgeAt = new Date(deal.archivedAt).getTime() + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now) / DAY_MS));
+}
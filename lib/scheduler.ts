@@ -0,0 +1,103 @@
+/**
+ * Scheduled Discovery Jobs
+ *
+ * Saved searches re-run on AutomationSettings.agentFrequency while autonomy
+ * (autoSignalRefresh) is enabled. The app checks for due jobs while it is open;
+ * a job whose interval elapsed while the app was closed runs once on the next
+ * launch. Each run remembers the identity keys it found, so only leads that are
+ * new since earlier runs are announced.
+ */
+
+import { AutomationSettings, DiscoveredLead, DiscoveryJob } from '../types';
+import { getIdentityKeys } from './gemini';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const AGENT_INTERVAL_MS: Record<AutomationSettings['agentFrequency'], number> = {
+  HOURLY: HOUR_MS,
+  DAILY: 24 * HOUR_MS,
+  WEEKLY: 7 * 24 * HOUR_MS,
+};
+
+/** How often the open app looks for due jobs */
+export const SCHEDULER_TICK_MS = 60 * 1000;
+
+/** Oldest keys are dropped beyond this so long-lived jobs stay small */
+const MAX_KNOWN_KEYS = 2000;
+
+export type DiscoveryJobInput = Pick<DiscoveryJob, 'description' | 'location' | 'radius' | 'depth' | 'personaId'>;
+
+/**
+ * Create an enabled job that runs on the next scheduler check
+ */
+export function createDiscoveryJob(input: DiscoveryJobInput, name?: string): DiscoveryJob {
+  return {
+    ...input,
+    id: `job_${crypto.randomUUID()}`,
+    name: name?.trim() || `${input.location} (${input.radius} mi)`,
+    enabled: true,
+    createdAt: new Date().toISOString(),
+    knownKeys: [],
+  };
+}
+
+/**
+ * When the job should next run; null when it will not run automatically
+ */
+export function nextRunAt(job: DiscoveryJob, settings: AutomationSettings): Date | null {
+  if (!settings.autoSignalRefresh || !job.enabled) return null;
+  if (!job.lastRunAt) return new Date(job.createdAt);
+  return new Date(Date.parse(job.lastRunAt) + AGENT_INTERVAL_MS[settings.agentFrequency]);
+}
+
+/**
+ * Jobs whose interval has elapsed (including runs missed while the app was closed)
+ */
+export function findDueJobs(jobs: DiscoveryJob[], settings: AutomationSettings, now: Date = new Date()): DiscoveryJob[] {
+  return jobs.filter(job => {
+    const next = nextRunAt(job, settings);
+    return next !== null && next.getTime() <= now.getTime();
+  });
+}
+
+/**
+ * Leads none of whose identity keys were seen by earlier runs of the job
+ */
+export function findNewLeads(job: DiscoveryJob, leads: DiscoveredLead[]): DiscoveredLead[] {
+  const known = new Set(job.knownKeys);
+  return leads.filter(lead => !getIdentityKeys(lead).some(key => known.has(key)));
+}
+
+/**
+ * Stamp a finished (or skipped) run and remember the identity keys it found
+ */
+export function recordJobRun(
+  job: DiscoveryJob,
+  result: NonNullable<DiscoveryJob['lastResult']>,
+  leads: DiscoveredLead[] = [],
+  at: string = new Date().toISOString()
+): DiscoveryJob {
+  const keys = new Set(job.knownKeys);
+  leads.forEach(lead => getIdentityKeys(lead).forEach(key => keys.add(key)));
+  return {
+    ...job,
+    lastRunAt: at,
+    lastResult: result,
+    knownKeys: Array.from(keys).slice(-MAX_KNOWN_KEYS),
+  };
+}
+
+/**
+ * Short schedule description for the job list ("Next run in 3h", "Paused")
+ */
+export function describeJobSchedule(job: DiscoveryJob, settings: AutomationSettings, now: Date = new Date()): string {
+  if (!job.enabled) return 'Paused';
+  const next = nextRunAt(job, settings);
+  if (!next) return 'Autonomy disabled';
+
+  const remaining = next.getTime() - now.getTime();
+  if (remaining <= 0) return 'Due now';
+  if (remaining < HOUR_MS) return `Next run in ${Math.ceil(remaining / 60000)}m`;
+  if (remaining < 24 * HOUR_MS) return `Next run in ${Math.round(remaining / HOUR_MS)}h`;
+  return `Next run in ${Math.round(remaining / (24 * HOUR_MS))}d`;
+}
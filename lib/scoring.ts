@@ -0,0 +1,180 @@
+/**
+ * Composite Lead Scoring
+ *
+ * Combines the model's dnaScore with signals the app can check itself: contact
+ * completeness, forensic evidence confidence, verification status, Apollo
+ * firmographics, distance and how recent the latest signal is. Each component
+ * is scored 0..1 and weighted; components without data (no Apollo enrichment,
+ * unknown distance) are left out and the remaining weights are rescaled, so a
+ * lead is not penalised for lookups that never ran.
+ */
+
+import { ContactField, DiscoveredLead, ScoreComponentId, ScoringSettings } from '../types';
+
+export const DEFAULT_SCORING_SETTINGS: ScoringSettings = {
+  weights: {
+    FIT: 35,
+    COMPLETENESS: 15,
+    CONFIDENCE: 15,
+    VERIFICATION: 15,
+    FIRMOGRAPHICS: 5,
+    DISTANCE: 10,
+    RECENCY: 5,
+  },
+  maxDistanceMiles: 50,
+  preferredIndustries: [],
+};
+
+export const SCORE_COMPONENT_LABELS: Record<ScoreComponentId, string> = {
+  FIT: 'DNA Fit',
+  COMPLETENESS: 'Contact Completeness',
+  CONFIDENCE: 'Evidence Confidence',
+  VERIFICATION: 'Verification',
+  FIRMOGRAPHICS: 'Company Profile',
+  DISTANCE: 'Distance',
+  RECENCY: 'Signal Recency',
+};
+
+export interface ScoreComponent {
+  id: ScoreComponentId;
+  label: string;
+  /** 0..1, or null when the lead has no data for this component */
+  value: number | null;
+  weight: number;
+  /** Share of the 0-100 total contributed by this component */
+  points: number;
+  detail: string;
+}
+
+export interface LeadScore {
+  total: number;
+  components: ScoreComponent[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const VERIFICATION_VALUES: Record<NonNullable<DiscoveredLead['verificationStatus']>, number> = {
+  VERIFIED: 1,
+  PENDING: 0.5,
+  VERIFYING: 0.5,
+  FAILED: 0.1,
+  COLLISION_DETECTED: 0,
+};
+
+/** Local sponsorship budgets sit mostly with mid-sized companies */
+const EMPLOYEE_BANDS: { max: number; value: number }[] = [
+  { max: 10, value: 0.4 },
+  { max: 50, value: 0.7 },
+  { max: 500, value: 1 },
+  { max: 5000, value: 0.8 },
+  { max: Infinity, value: 0.6 },
+];
+
+const forensicFields = (lead: DiscoveredLead): ContactField[] => [
+  lead.websiteField, lead.emailField, lead.phoneField, lead.addressField,
+  lead.instagramField, lead.linkedInField, lead.twitterField, lead.contactNameField,
+].filter((field): field is ContactField => !!field);
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+type ComponentScore = { value: number | null; detail: string };
+
+const SCORERS: Record<ScoreComponentId, (lead: DiscoveredLead, settings: ScoringSettings, now: Date) => ComponentScore> = {
+  FIT: lead => ({
+    value: Math.min(100, Math.max(0, lead.dnaScore || 0)) / 100,
+    detail: `Model DNA score ${lead.dnaScore || 0}`,
+  }),
+
+  COMPLETENESS: lead => {
+    const slots = [
+      !!lead.website,
+      !!lead.email,
+      !!lead.phone,
+      !!lead.address,
+      !!(lead.socialLinks?.instagram || lead.socialLinks?.linkedIn || lead.socialLinks?.twitter || lead.socialLinks?.facebook),
+    ];
+    const filled = slots.filter(Boolean).length;
+    return { value: filled / slots.length, detail: `${filled}/${slots.length} of website, email, phone, address, social` };
+  },
+
+  CONFIDENCE: lead => {
+    const fields = forensicFields(lead);
+    if (fields.length === 0) return { value: 0, detail: 'No sourced contact evidence' };
+    const average = fields.reduce((sum, f) => sum + (f.evidence.confidence || 0), 0) / fields.length;
+    return { value: average, detail: `Average ${percent(average)} across ${fields.length} sourced fields` };
+  },
+
+  VERIFICATION: lead => {
+    const status = lead.verificationStatus || 'PENDING';
+    return { value: VERIFICATION_VALUES[status], detail: status.replace(/_/g, ' ').toLowerCase() };
+  },
+
+  FIRMOGRAPHICS: (lead, settings) => {
+    const { employeeCount, industry } = lead.firmographics || {};
+    if (employeeCount === undefined && !industry) return { value: null, detail: 'Not enriched by Apollo' };
+
+    const preferred = settings.preferredIndustries.map(p => p.trim().toLowerCase()).filter(Boolean);
+    const parts: number[] = [];
+    const details: string[] = [];
+    if (employeeCount !== undefined) {
+      parts.push(EMPLOYEE_BANDS.find(band => employeeCount <= band.max)!.value);
+      details.push(`${employeeCount.toLocaleString()} employees`);
+    }
+    if (industry) {
+      details.push(industry);
+      if (preferred.length > 0) {
+        const matches = preferred.some(p => industry.toLowerCase().includes(p));
+        parts.push(matches ? 1 : 0.3);
+        if (matches) details.push('preferred industry');
+      }
+    }
+    if (parts.length === 0) return { value: null, detail: details.join(' · ') };
+    return { value: parts.reduce((a, b) => a + b, 0) / parts.length, detail: details.join(' · ') };
+  },
+
+  DISTANCE: (lead, settings) => {
+    if (lead.distanceMiles === undefined) return { value: null, detail: 'Distance unknown' };
+    const value = Math.max(0, 1 - lead.distanceMiles / Math.max(1, settings.maxDistanceMiles));
+    return { value, detail: `~${Math.round(lead.distanceMiles)} mi (no credit beyond ${settings.maxDistanceMiles} mi)` };
+  },
+
+  RECENCY: (lead, _settings, now) => {
+    if (!lead.latestSignal) return { value: 0, detail: 'No recent signal' };
+    if (!lead.latestSignalDate) return { value: 0.5, detail: 'Signal found, date unknown' };
+    const days = Math.max(0, Math.floor((now.getTime() - Date.parse(lead.latestSignalDate)) / DAY_MS));
+    // Full credit within a month, fading to none after a year
+    const value = days <= 30 ? 1 : Math.max(0, 1 - (days - 30) / 335);
+    return { value, detail: `${days} days old` };
+  },
+};
+
+/**
+ * Score a lead and explain each component's contribution
+ */
+export function scoreLead(lead: DiscoveredLead, settings: ScoringSettings = DEFAULT_SCORING_SETTINGS, now: Date = new Date()): LeadScore {
+  const scored = (Object.keys(SCORERS) as ScoreComponentId[]).map(id => ({
+    id,
+    weight: Math.max(0, settings.weights[id] || 0),
+    ...SCORERS[id](lead, settings, now),
+  }));
+
+  const activeWeight = scored.reduce((sum, c) => sum + (c.value === null ? 0 : c.weight), 0);
+  const components: ScoreComponent[] = scored.map(c => ({
+    ...c,
+    label: SCORE_COMPONENT_LABELS[c.id],
+    points: c.value === null || activeWeight === 0 ? 0 : (c.value * c.weight / activeWeight) * 100,
+  }));
+
+  return {
+    total: Math.round(components.reduce((sum, c) => sum + c.points, 0)),
+    components,
+  };
+}
+
+/**
+ * Leads ordered by composite score, highest first (stable for equal scores)
+ */
+export function sortByScore(leads: DiscoveredLead[], settings: ScoringSettings = DEFAULT_SCORING_SETTINGS, now: Date = new Date()): DiscoveredLead[] {
+  const totals = new Map(leads.map(lead => [lead, scoreLead(lead, settings, now).total]));
+  return [...leads].sort((a, b) => totals.get(b)! - totals.get(a)!);
+}
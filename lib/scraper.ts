@@ -3,9 +3,17 @@
  *
  * This module provides fallback extraction when Gemini grounding doesn't find
  * social media links. It directly fetches and parses the HTML to find footer
- * social links that AI might miss.
+ * social links that AI might miss. `crawlWebsite` goes further for the
+ * discovery deep scan and forensic verification: it follows a few same-domain
+ * contact/about/team pages and records the page each email, phone, address
+ * and staff member came from. Structured data the site publishes about itself
+ * (schema.org JSON-LD, Open Graph and business meta tags) is read first and
+ * returned separately as `declared`; regexes over the raw HTML only fill the
+ * fields it leaves out.
  */
 
+import { ContactField, FieldEvidence, StaffMember } from '../types';
+
 export interface ScrapedSocialLinks {
   instagram?: string;
   facebook?: string;
@@ -15,165 +23,406 @@ export interface ScrapedSocialLinks {
   tiktok?: string;
 }
 
+type SocialPlatform = keyof ScrapedSocialLinks;
+
+/** Profile URL pattern per platform; captured names in `ignore` are share widgets, not profiles */
+const SOCIAL_PATTERNS: Record<SocialPlatform, { pattern: RegExp; toUrl: (name: string) => string; ignore?: string[] }> = {
+  instagram: { pattern: /(?:https?:\/\/)?(?:www\.)?instagram\.com\/([a-zA-Z0-9_\.]+)/gi, toUrl: name => `https://instagram.com/${name}` },
+  facebook: {
+    pattern: /(?:https?:\/\/)?(?:www\.)?facebook\.com\/([a-zA-Z0-9_\-\.]+)/gi,
+    toUrl: name => `https://facebook.com/${name}`,
+    ignore: ['sharer', 'dialog', 'share', 'plugins'],
+  },
+  twitter: {
+    pattern: /(?:https?:\/\/)?(?:www\.)?(?:twitter|x)\.com\/([a-zA-Z0-9_]+)/gi,
+    toUrl: name => `https://twitter.com/${name}`,
+    ignore: ['intent', 'share', 'widgets'],
+  },
+  linkedIn: { pattern: /(?:https?:\/\/)?(?:www\.)?linkedin\.com\/(?:company|in)\/([a-zA-Z0-9_\-]+)/gi, toUrl: name => `https://linkedin.com/company/${name}` },
+  youtube: { pattern: /(?:https?:\/\/)?(?:www\.)?youtube\.com\/(?:c\/|channel\/|user\/|@)?([a-zA-Z0-9_\-]+)/gi, toUrl: name => `https://youtube.com/@${name}` },
+  tiktok: { pattern: /(?:https?:\/\/)?(?:www\.)?tiktok\.com\/@([a-zA-Z0-9_\.]+)/gi, toUrl: name => `https://tiktok.com/@${name}` },
+};
+
 /**
- * Extract social media links from HTML content
- * Looks for common patterns in footer/contact sections
+ * Every profile URL on the page per platform, in page order
  */
-function extractSocialLinksFromHTML(html: string, baseUrl: string): ScrapedSocialLinks {
-  const links: ScrapedSocialLinks = {};
+function collectSocialCandidates(html: string): Record<SocialPlatform, string[]> {
+  const candidates = {} as Record<SocialPlatform, string[]>;
+  (Object.keys(SOCIAL_PATTERNS) as SocialPlatform[]).forEach(platform => {
+    const { pattern, toUrl, ignore = [] } = SOCIAL_PATTERNS[platform];
+    candidates[platform] = [...html.matchAll(pattern)]
+      .map(match => match[1])
+      .filter(name => name && !name.includes('/') && name.length > 2 && !ignore.includes(name.toLowerCase()))
+      .map(toUrl);
+  });
+  return candidates;
+}
 
-  // Normalize HTML to lowercase for case-insensitive matching
-  const lowerHTML = html.toLowerCase();
-
-  // Social media URL patterns
-  const patterns = {
-    instagram: /(?:https?:\/\/)?(?:www\.)?instagram\.com\/([a-zA-Z0-9_\.]+)/gi,
-    facebook: /(?:https?:\/\/)?(?:www\.)?facebook\.com\/([a-zA-Z0-9_\-\.]+)/gi,
-    twitter: /(?:https?:\/\/)?(?:www\.)?(?:twitter|x)\.com\/([a-zA-Z0-9_]+)/gi,
-    linkedIn: /(?:https?:\/\/)?(?:www\.)?linkedin\.com\/(?:company|in)\/([a-zA-Z0-9_\-]+)/gi,
-    youtube: /(?:https?:\/\/)?(?:www\.)?youtube\.com\/(?:c\/|channel\/|user\/|@)?([a-zA-Z0-9_\-]+)/gi,
-    tiktok: /(?:https?:\/\/)?(?:www\.)?tiktok\.com\/@([a-zA-Z0-9_\.]+)/gi,
-  };
+/**
+ * Business details a site publishes as structured data
+ */
+interface StructuredBusinessData {
+  name?: string;
+  socialLinks: ScrapedSocialLinks;
+  telephone?: string;
+  email?: string;
+  address?: string;
+  openingHours: string[];
+}
 
-  // Extract Instagram
-  const instagramMatches = html.matchAll(patterns.instagram);
-  for (const match of instagramMatches) {
-    if (match[1] && !match[1].includes('/') && match[1].length > 2) {
-      links.instagram = `https://instagram.com/${match[1]}`;
-      break; // Take first valid match
-    }
-  }
+/**
+ * Phone, email and address a site declares in structured data, as
+ * official_website fields pointing at the page that declares them
+ */
+export interface DeclaredContacts {
+  phone?: ContactField;
+  email?: ContactField;
+  address?: ContactField;
+}
 
-  // Extract Facebook
-  const facebookMatches = html.matchAll(patterns.facebook);
-  for (const match of facebookMatches) {
-    if (match[1] && !match[1].includes('/') && match[1].length > 2) {
-      // Skip common false positives
-      if (!['sharer', 'dialog', 'share', 'plugins'].includes(match[1].toLowerCase())) {
-        links.facebook = `https://facebook.com/${match[1]}`;
-        break;
-      }
-    }
-  }
+/** Confidence for values the site declares about itself in JSON-LD or meta tags */
+const STRUCTURED_CONFIDENCE = 0.97;
 
-  // Extract Twitter/X
-  const twitterMatches = html.matchAll(patterns.twitter);
-  for (const match of twitterMatches) {
-    if (match[1] && !match[1].includes('/') && match[1].length > 2) {
-      // Skip common false positives
-      if (!['intent', 'share', 'widgets'].includes(match[1].toLowerCase())) {
-        links.twitter = `https://twitter.com/${match[1]}`;
-        break;
-      }
+/** JSON-LD node types that describe the page rather than the business */
+const NON_BUSINESS_TYPES = new Set([
+  'WebSite', 'WebPage', 'BreadcrumbList', 'ListItem', 'SearchAction', 'ImageObject', 'VideoObject',
+  'Person', 'Article', 'BlogPosting', 'NewsArticle', 'Product', 'Offer', 'Review', 'AggregateRating',
+  'PostalAddress', 'GeoCoordinates', 'OpeningHoursSpecification', 'ContactPoint', 'Event', 'FAQPage', 'Question', 'Answer',
+]);
+
+/** Parent-brand nodes; a LocalBusiness node on the same page is more specific */
+const GENERIC_ORG_TYPES = new Set(['Organization', 'Corporation']);
+
+const decodeEntities = (text: string) => text
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&amp;/g, '&')
+  .replace(/&quot;/g, '"')
+  .replace(/&#0?39;|&apos;/g, "'")
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>');
+
+const asString = (value: unknown): string | undefined => {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' && first.trim() ? first.trim() : undefined;
+};
+
+const asList = (value: unknown): any[] => value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+const typesOf = (node: any): string[] => asList(node['@type']).map(type => String(type).split('/').pop()!);
+
+function formatAddress(address: unknown): string | undefined {
+  const value = asList(address)[0];
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (!value || typeof value !== 'object') return undefined;
+  const regionLine = [asString(value.addressRegion), asString(value.postalCode)].filter(Boolean).join(' ');
+  const parts = [asString(value.streetAddress), asString(value.addressLocality), regionLine].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+function formatOpeningHours(node: any): string[] {
+  const hours = asList(node.openingHours).map(asString).filter((h): h is string => !!h);
+  if (hours.length > 0) return hours;
+  return asList(node.openingHoursSpecification)
+    .filter(spec => spec && typeof spec === 'object' && spec.opens && spec.closes)
+    .map(spec => {
+      const days = asList(spec.dayOfWeek).map(day => String(day).split('/').pop()).join(', ');
+      return `${days ? `${days} ` : ''}${spec.opens}-${spec.closes}`;
+    });
+}
+
+/**
+ * Every JSON-LD node that declares a @type, including those inside @graph
+ */
+function jsonLdNodes(html: string): any[] {
+  const nodes: any[] = [];
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      const node = value as Record<string, unknown>;
+      if (node['@type']) nodes.push(node);
+      if (node['@graph']) visit(node['@graph']);
     }
-  }
+  };
 
-  // Extract LinkedIn
-  const linkedInMatches = html.matchAll(patterns.linkedIn);
-  for (const match of linkedInMatches) {
-    if (match[1] && !match[1].includes('/') && match[1].length > 2) {
-      links.linkedIn = `https://linkedin.com/company/${match[1]}`;
-      break;
+  for (const match of html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+    try {
+      visit(JSON.parse(match[1].replace(/^\s*(?:<!--|<!\[CDATA\[)|(?:-->|\]\]>)\s*$/g, '')));
+    } catch {
+      // Hand-written JSON-LD is often malformed; the regex fallback still covers the page
     }
   }
+  return nodes;
+}
 
-  // Extract YouTube
-  const youtubeMatches = html.matchAll(patterns.youtube);
-  for (const match of youtubeMatches) {
-    if (match[1] && !match[1].includes('/') && match[1].length > 2) {
-      links.youtube = `https://youtube.com/@${match[1]}`;
-      break;
-    }
+/**
+ * Meta tag content keyed by lowercased property/name (first occurrence wins)
+ */
+function metaTags(html: string): Map<string, string> {
+  const tags = new Map<string, string>();
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const key = tag.match(/(?:property|name)=["']([^"']+)["']/i)?.[1]?.toLowerCase();
+    const content = tag.match(/content=["']([^"']*)["']/i)?.[1];
+    if (key && content && !tags.has(key)) tags.set(key, decodeEntities(content).trim());
   }
+  return tags;
+}
 
-  // Extract TikTok
-  const tiktokMatches = html.matchAll(patterns.tiktok);
-  for (const match of tiktokMatches) {
-    if (match[1] && !match[1].includes('/') && match[1].length > 2) {
-      links.tiktok = `https://tiktok.com/@${match[1]}`;
-      break;
-    }
+/**
+ * Read schema.org JSON-LD (LocalBusiness, Organization and subtypes) and
+ * Open Graph / business meta tags; JSON-LD wins where both are present
+ */
+function extractStructuredData(html: string): StructuredBusinessData {
+  const data: StructuredBusinessData = { socialLinks: {}, openingHours: [] };
+  const addSocial = (urls: string[]) => {
+    const candidates = collectSocialCandidates(urls.join(' '));
+    (Object.keys(candidates) as SocialPlatform[]).forEach(platform => {
+      if (!data.socialLinks[platform] && candidates[platform].length > 0) data.socialLinks[platform] = candidates[platform][0];
+    });
+  };
+
+  const businessNodes = jsonLdNodes(html)
+    .filter(node => typesOf(node).some(type => !NON_BUSINESS_TYPES.has(type)))
+    .sort((a, b) => Number(typesOf(a).every(t => GENERIC_ORG_TYPES.has(t))) - Number(typesOf(b).every(t => GENERIC_ORG_TYPES.has(t))));
+
+  businessNodes.forEach(node => {
+    data.name ??= asString(node.name);
+    data.telephone ??= asString(node.telephone);
+    data.email ??= asString(node.email)?.replace(/^mailto:/i, '').toLowerCase();
+    data.address ??= formatAddress(node.address);
+    if (data.openingHours.length === 0) data.openingHours = formatOpeningHours(node);
+    addSocial(asList(node.sameAs).map(asString).filter((url): url is string => !!url));
+
+    asList(node.contactPoint).forEach(point => {
+      data.telephone ??= asString(point?.telephone);
+      data.email ??= asString(point?.email)?.replace(/^mailto:/i, '').toLowerCase();
+    });
+  });
+
+  const meta = metaTags(html);
+  const metaValue = (...keys: string[]) => keys.map(key => meta.get(key)).find(Boolean);
+  data.name ??= metaValue('og:site_name');
+  data.telephone ??= metaValue('og:phone_number', 'business:contact_data:phone_number');
+  data.email ??= metaValue('og:email', 'business:contact_data:email')?.toLowerCase();
+  if (!data.address) {
+    const street = metaValue('og:street-address', 'business:contact_data:street_address');
+    const locality = metaValue('og:locality', 'business:contact_data:locality');
+    const regionLine = [metaValue('og:region', 'business:contact_data:region'), metaValue('og:postal-code', 'business:contact_data:postal_code')].filter(Boolean).join(' ');
+    const parts = [street, locality, regionLine].filter(Boolean);
+    if (street && parts.length > 1) data.address = parts.join(', ');
   }
 
+  const twitterSite = metaValue('twitter:site')?.replace(/^@/, '');
+  addSocial([
+    metaValue('article:publisher'),
+    twitterSite && !twitterSite.includes('/') ? `https://twitter.com/${twitterSite}` : twitterSite,
+  ].filter((url): url is string => !!url));
+
+  return data;
+}
+
+/**
+ * Structured contact values as fields; a phone with too few digits or a
+ * placeholder email is left out so the regex fallback can run
+ */
+function declaredContacts(structured: StructuredBusinessData, pageUrl: string): DeclaredContacts {
+  const evidence: FieldEvidence = { source: 'official_website', confidence: STRUCTURED_CONFIDENCE, sourceUrl: pageUrl };
+  const declared: DeclaredContacts = {};
+  if (structured.telephone && structured.telephone.replace(/\D/g, '').length >= 7) declared.phone = { value: structured.telephone, evidence };
+  if (structured.email && isContactEmail(structured.email)) declared.email = { value: structured.email, evidence };
+  if (structured.address) declared.address = { value: structured.address, evidence };
+  return declared;
+}
+
+/**
+ * Extract social media links from HTML content
+ * Structured data (JSON-LD sameAs, meta tags) first; otherwise the first
+ * profile link per platform (footer/contact sections)
+ */
+function extractSocialLinksFromHTML(html: string): ScrapedSocialLinks {
+  const links: ScrapedSocialLinks = { ...extractStructuredData(html).socialLinks };
+  const candidates = collectSocialCandidates(html);
+  (Object.keys(candidates) as SocialPlatform[]).forEach(platform => {
+    if (!links[platform] && candidates[platform].length > 0) links[platform] = candidates[platform][0];
+  });
   return links;
 }
 
 /**
- * Scrape social media links from a website
- * Uses CORS proxy to bypass browser restrictions
- *
- * @param websiteUrl - The website URL to scrape
- * @returns Promise with scraped social links
+ * Combine a fetch timeout with an optional caller-provided abort signal
  */
-export async function scrapeSocialLinks(websiteUrl: string): Promise<ScrapedSocialLinks> {
-  if (!websiteUrl || websiteUrl.trim() === '') {
-    console.warn('⚠️ Scraper: No website URL provided');
-    return {};
+function withTimeout(ms: number, signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(ms);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Thrown when a page cannot be fetched directly or through the CORS proxy
+ */
+export class PageFetchError extends Error {
+  /**
+   * @param status - HTTP status, when a server answered
+   * @param fromSite - The site itself answered (direct fetch), not the proxy
+   */
+  constructor(message: string, readonly status?: number, readonly fromSite: boolean = false) {
+    super(message);
+    this.name = 'PageFetchError';
   }
+}
+
+/** Site answers that mean the page is gone or broken; 403/429 are usually bot blocking, so the proxy still gets a try */
+const isSiteFailure = (status?: number) => status === 404 || status === 410 || (status !== undefined && status >= 500);
 
+interface FetchedPage {
+  html: string;
+  /** Final URL after redirects; only known when the direct fetch succeeded */
+  finalUrl?: string;
+}
+
+const normalizeWebsiteUrl = (websiteUrl: string) => {
+  const url = websiteUrl.trim();
+  return url.startsWith('http') ? url : `https://${url}`;
+};
+
+/**
+ * Fetch a page's HTML, falling back to a CORS proxy when the direct fetch fails
+ */
+async function fetchPage(url: string, signal?: AbortSignal): Promise<FetchedPage> {
+  // Attempt direct fetch first (may fail due to CORS)
   try {
-    // Normalize URL
-    let url = websiteUrl.trim();
-    if (!url.startsWith('http')) {
-      url = `https://${url}`;
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; ScoutBot/1.0)',
+      },
+      signal: withTimeout(10000, signal), // 10 second timeout
+    });
+
+    if (!response.ok) {
+      throw new PageFetchError(`HTTP ${response.status}`, response.status, true);
     }
 
-    console.log(`🕷️ Scraper: Fetching ${url} for social media links...`);
+    return { html: await response.text(), finalUrl: response.url || undefined };
+  } catch (fetchError) {
+    if (signal?.aborted) throw fetchError;
+    // The proxy would get the same answer from the site
+    if (fetchError instanceof PageFetchError && isSiteFailure(fetchError.status)) throw fetchError;
+
+    // CORS blocked or network error - try CORS proxy as fallback
+    console.warn(`⚠️ Scraper: Direct fetch failed (${(fetchError as Error).message}), trying CORS proxy...`);
 
-    // Attempt direct fetch first (may fail due to CORS)
-    let html: string;
+    const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`;
+    let proxyResponse: Response;
     try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; ScoutBot/1.0)',
-        },
-        // Add timeout
-        signal: AbortSignal.timeout(10000), // 10 second timeout
+      proxyResponse = await fetch(proxyUrl, {
+        signal: withTimeout(15000, signal), // 15 second timeout for proxy
       });
+    } catch (proxyError) {
+      if (signal?.aborted) throw proxyError;
+      throw new PageFetchError(`Unreachable (${(proxyError as Error).message})`);
+    }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-
-      html = await response.text();
-    } catch (fetchError) {
-      // CORS blocked or network error - try CORS proxy as fallback
-      console.warn(`⚠️ Scraper: Direct fetch failed (${(fetchError as Error).message}), trying CORS proxy...`);
-
-      try {
-        const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`;
-        const proxyResponse = await fetch(proxyUrl, {
-          signal: AbortSignal.timeout(15000), // 15 second timeout for proxy
-        });
-
-        if (!proxyResponse.ok) {
-          throw new Error(`Proxy HTTP ${proxyResponse.status}`);
-        }
-
-        html = await proxyResponse.text();
-      } catch (proxyError) {
-        console.error(`❌ Scraper: Both direct fetch and proxy failed for ${url}`);
-        return {};
-      }
+    if (!proxyResponse.ok) {
+      throw new PageFetchError(`Proxy HTTP ${proxyResponse.status}`, proxyResponse.status);
     }
 
-    // Extract social links from HTML
-    const links = extractSocialLinksFromHTML(html, url);
+    return { html: await proxyResponse.text() };
+  }
+}
 
-    const foundCount = Object.keys(links).length;
-    if (foundCount > 0) {
-      console.log(`✅ Scraper: Found ${foundCount} social link(s) on ${url}`);
-      console.log('   Links:', links);
-    } else {
-      console.warn(`⚠️ Scraper: No social links found on ${url}`);
-    }
+/**
+ * DOWN means the site itself answered with an error; UNREACHABLE means the
+ * fetch (in the browser nearly always the CORS proxy) failed, which says
+ * nothing certain about the site
+ */
+export type WebsiteStatus = 'UP' | 'DOWN' | 'PARKED' | 'UNREACHABLE';
+
+export interface WebsiteCheck {
+  status: WebsiteStatus;
+  /** Why the site counts as down, parked or unreachable */
+  detail?: string;
+  /** Redirect target, or the canonical/og:url the page declares */
+  finalUrl?: string;
+  socialLinks: ScrapedSocialLinks;
+  /** Addresses published on the page; only the declared one when the page has structured data */
+  emails: string[];
+  declared: DeclaredContacts;
+  openingHours: string[];
+}
+
+/** Text that registrars and parking services put on placeholder pages */
+const PARKED_PATTERNS = [
+  /this domain (?:name )?(?:is|may be) for sale/i,
+  /buy this domain/i,
+  /domain (?:is )?parked/i,
+  /parked (?:free|domain)/i,
+  /sedoparking|parkingcrew|bodis\.com|hugedomains|dan\.com\/buy-domain|afternic/i,
+  /godaddy\.com\/park/i,
+];
+
+const EMAIL_PATTERN = /(?:mailto:)?([a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,})/gi;
+
+/** Asset names such as logo@2x.png look like addresses */
+const ASSET_SUFFIX = /\.(?:png|jpe?g|gif|svg|webp|css|js)$/i;
+
+/** Placeholder and site-builder addresses that appear in page source */
+const IGNORED_EMAIL_DOMAINS = ['example.com', 'domain.com', 'sentry.io', 'wixpress.com'];
+
+const isContactEmail = (email: string) =>
+  !ASSET_SUFFIX.test(email) && !IGNORED_EMAIL_DOMAINS.some(domain => email.endsWith(`@${domain}`));
+
+function extractEmailsFromHTML(html: string): string[] {
+  const emails = new Set<string>();
+  for (const match of html.matchAll(EMAIL_PATTERN)) {
+    const email = match[1].toLowerCase();
+    if (isContactEmail(email)) emails.add(email);
+  }
+  return [...emails];
+}
 
-    return links;
+/**
+ * Fetch a website and report whether it is up, down or parked, with the
+ * social links and email addresses it currently publishes
+ */
+export async function checkWebsite(websiteUrl: string, signal?: AbortSignal): Promise<WebsiteCheck> {
+  const url = normalizeWebsiteUrl(websiteUrl);
+  console.log(`🕷️ Scraper: Checking ${url}...`);
+
+  let page: FetchedPage;
+  try {
+    page = await fetchPage(url, signal);
   } catch (error) {
-    console.error(`❌ Scraper: Failed to scrape ${websiteUrl}:`, error);
-    return {};
+    if (signal?.aborted) throw error;
+    const detail = error instanceof Error ? error.message : 'Unreachable';
+    if (error instanceof PageFetchError && error.fromSite && isSiteFailure(error.status)) {
+      console.warn(`⚠️ Scraper: ${url} is down (${detail})`);
+      return { status: 'DOWN', detail, socialLinks: {}, emails: [], declared: {}, openingHours: [] };
+    }
+    console.warn(`⚠️ Scraper: Could not reach ${url} (${detail})`);
+    return { status: 'UNREACHABLE', detail, socialLinks: {}, emails: [], declared: {}, openingHours: [] };
+  }
+
+  // Proxied fetches hide redirects; the page's own canonical URL still reveals a move
+  const canonical = page.html.match(/<link\s[^>]*rel=["']canonical["'][^>]*>/i)?.[0].match(/href=["']([^"']+)["']/i)?.[1];
+  const declaredUrl = [canonical, metaTags(page.html).get('og:url')].find(href => href && /^https?:\/\//i.test(href));
+  const finalUrl = page.finalUrl || declaredUrl;
+
+  const parkedBy = PARKED_PATTERNS.find(pattern => pattern.test(page.html));
+  if (parkedBy) {
+    console.warn(`⚠️ Scraper: ${url} looks like a parked domain`);
+    return { status: 'PARKED', detail: 'Placeholder or for-sale page', finalUrl, socialLinks: {}, emails: [], declared: {}, openingHours: [] };
   }
+
+  const structured = extractStructuredData(page.html);
+  const declared = declaredContacts(structured, finalUrl || url);
+  return {
+    status: 'UP',
+    finalUrl,
+    socialLinks: extractSocialLinksFromHTML(page.html),
+    emails: declared.email ? [declared.email.value] : extractEmailsFromHTML(page.html),
+    declared,
+    openingHours: structured.openingHours,
+  };
 }
 
 /**
@@ -193,3 +442,265 @@ export function mergeSocialLinks(
     tiktok: existing.tiktok || scraped.tiktok,
   };
 }
+
+/** Same-domain pages worth crawling, in priority order */
+const CRAWL_PATH_PATTERNS = [
+  /contact/i,
+  /team|staff|people|leadership/i,
+  /about/i,
+  /sponsor/i,
+  /partner/i,
+];
+
+export const DEFAULT_CRAWL_MAX_PAGES = 6;
+
+export interface CrawlResult {
+  /** Pages fetched, homepage first */
+  pages: string[];
+  /** Profile link per platform, chosen by how many crawled pages link to it */
+  socialLinks: Partial<Record<SocialPlatform, ContactField>>;
+  emails: ContactField[];
+  phones: ContactField[];
+  addresses: ContactField[];
+  staff: StaffMember[];
+  /** From structured data on the first page that declares them */
+  declared: DeclaredContacts;
+  businessName?: string;
+  openingHours: string[];
+}
+
+const hostKey = (url: URL) => url.hostname.replace(/^www\./, '').toLowerCase();
+
+/**
+ * Same-domain links on the page that match a crawl pattern, highest priority first
+ */
+function findCrawlTargets(html: string, pageUrl: string): string[] {
+  const base = new URL(pageUrl);
+  const targets = new Map<string, number>();
+
+  for (const match of html.matchAll(/href=["']([^"'#]+)["']/gi)) {
+    let url: URL;
+    try {
+      url = new URL(match[1], base);
+    } catch {
+      continue;
+    }
+    if (!url.protocol.startsWith('http') || hostKey(url) !== hostKey(base)) continue;
+    const priority = CRAWL_PATH_PATTERNS.findIndex(pattern => pattern.test(url.pathname));
+    const key = `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+    if (priority >= 0 && key !== `${base.origin}${base.pathname.replace(/\/+$/, '')}` && !targets.has(key)) {
+      targets.set(key, priority);
+    }
+  }
+
+  return [...targets.entries()].sort((a, b) => a[1] - b[1]).map(([url]) => url);
+}
+
+/**
+ * Visible text split on block boundaries, one trimmed line per block
+ */
+function htmlToLines(html: string): string[] {
+  const text = html
+    .replace(/<(script|style|noscript)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<br\s*\/?>|<\/(?:p|div|li|h[1-6]|address|td|tr|section|article|span)>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ');
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+const PHONE_TEXT_PATTERN = /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g;
+
+const STREET_PATTERN = /\b\d{1,6}\s+(?:[A-Z0-9][\w.'-]*\s+){1,5}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Way|Court|Ct|Parkway|Pkwy|Place|Pl|Highway|Hwy|Circle|Cir|Square|Sq)\b\.?(?:,?\s+(?:Suite|Ste|Unit|#)\s*[\w-]+)?(?:,?\s+[A-Z][a-zA-Z .'-]+,\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?)?/;
+
+const CITY_STATE_ZIP_PATTERN = /^[A-Z][a-zA-Z .'-]+,\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?$/;
+
+const PERSON_NAME_PATTERN = /^(?:(?:Dr|Mr|Mrs|Ms)\.?\s+)?[A-Z][a-z]+(?:\s+[A-Z]\.)?(?:\s+[A-Z][a-zA-Z'’-]+){1,2}$/;
+
+const JOB_TITLE_PATTERN = /\b(?:owner|founder|co-founder|ceo|cfo|coo|cmo|president|director|manager|coordinator|partner|principal|head of|chief|vp|vice president|officer|lead|specialist)\b/i;
+
+const MAX_STAFF = 20;
+const MAX_ADDRESSES = 5;
+
+const isJobTitle = (text: string) => text.length <= 60 && JOB_TITLE_PATTERN.test(text);
+
+/** "Marketing Director" is capitalised like a name; titles never count as one */
+const isPersonName = (text: string) => PERSON_NAME_PATTERN.test(text) && !JOB_TITLE_PATTERN.test(text);
+
+/**
+ * Named people with job titles: "Jane Doe, Marketing Director" on one line, or a name line followed by a title line
+ */
+function extractStaff(lines: string[]): { name: string; title: string }[] {
+  const staff: { name: string; title: string }[] = [];
+  lines.forEach((line, i) => {
+    const [name, ...rest] = line.split(/\s+[–—|-]\s+|,\s+/);
+    const inlineTitle = rest.join(', ');
+    if (rest.length > 0 && isPersonName(name) && isJobTitle(inlineTitle)) {
+      staff.push({ name, title: inlineTitle });
+    } else if (isPersonName(line) && lines[i + 1] && isJobTitle(lines[i + 1])) {
+      staff.push({ name: line, title: lines[i + 1] });
+    }
+  });
+  return staff;
+}
+
+function extractAddresses(lines: string[]): string[] {
+  const addresses: string[] = [];
+  lines.forEach((line, i) => {
+    const match = line.match(STREET_PATTERN);
+    if (!match) return;
+    const next = lines[i + 1];
+    // Street and "City, ST 12345" are often separate lines
+    addresses.push(!/\d{5}/.test(match[0]) && next && CITY_STATE_ZIP_PATTERN.test(next) ? `${match[0]}, ${next}` : match[0]);
+  });
+  return addresses;
+}
+
+/**
+ * Add a value, keeping the strongest evidence when it was already found
+ */
+function addField(fields: Map<string, ContactField>, key: string, value: string, evidence: FieldEvidence) {
+  const existing = fields.get(key);
+  if (!existing || existing.evidence.confidence < evidence.confidence) fields.set(key, { value, evidence });
+}
+
+const pageEvidence = (sourceUrl: string, confidence: number): FieldEvidence => ({ source: 'official_website', confidence, sourceUrl });
+
+/**
+ * Crawl the homepage plus up to `maxPages - 1` same-domain contact, about,
+ * team, sponsorship and partner pages, extracting contact details with the
+ * page each one came from
+ *
+ * @param websiteUrl - Homepage to start from
+ * @param options.maxPages - Total pages fetched, homepage included
+ * @param options.signal - Cancels the crawl
+ * @returns Contact details found; empty when the homepage cannot be fetched
+ */
+export async function crawlWebsite(
+  websiteUrl: string,
+  { maxPages = DEFAULT_CRAWL_MAX_PAGES, signal }: { maxPages?: number; signal?: AbortSignal } = {}
+): Promise<CrawlResult> {
+  const result: CrawlResult = { pages: [], socialLinks: {}, emails: [], phones: [], addresses: [], staff: [], declared: {}, openingHours: [] };
+  if (!websiteUrl || websiteUrl.trim() === '') return result;
+
+  const homepage = normalizeWebsiteUrl(websiteUrl);
+  const emails = new Map<string, ContactField>();
+  const phones = new Map<string, ContactField>();
+  const addresses = new Map<string, ContactField>();
+  const staff = new Map<string, StaffMember>();
+  const socialVotes: Partial<Record<SocialPlatform, Map<string, { pages: number; sourceUrl: string }>>> = {};
+  const structuredSocial: Partial<Record<SocialPlatform, ContactField>> = {};
+
+  const extractPage = (html: string, pageUrl: string) => {
+    // Structured data first; the regexes only fill what it leaves out
+    const structured = extractStructuredData(html);
+    const declared = pageEvidence(pageUrl, STRUCTURED_CONFIDENCE);
+    const pageDeclared = declaredContacts(structured, pageUrl);
+    result.declared = { ...pageDeclared, ...result.declared };
+    result.businessName ??= structured.name;
+    if (result.openingHours.length === 0) result.openingHours = structured.openingHours;
+    (Object.keys(structured.socialLinks) as SocialPlatform[]).forEach(platform => {
+      structuredSocial[platform] ??= { value: structured.socialLinks[platform]!, evidence: declared };
+    });
+
+    if (pageDeclared.email) {
+      addField(emails, pageDeclared.email.value, pageDeclared.email.value, declared);
+    } else {
+      for (const match of html.matchAll(/href=["']mailto:([^"'?]+)/gi)) {
+        const email = decodeURIComponent(match[1]).trim().toLowerCase();
+        if (isContactEmail(email)) addField(emails, email, email, pageEvidence(pageUrl, 0.9));
+      }
+      extractEmailsFromHTML(html).forEach(email => addField(emails, email, email, pageEvidence(pageUrl, 0.8)));
+    }
+
+    const lines = htmlToLines(html);
+    if (pageDeclared.phone) {
+      addField(phones, pageDeclared.phone.value.replace(/\D/g, '').slice(-10), pageDeclared.phone.value, declared);
+    } else {
+      for (const match of html.matchAll(/href=["']tel:([^"']+)/gi)) {
+        const phone = decodeURIComponent(match[1]).trim();
+        const digits = phone.replace(/\D/g, '');
+        if (digits.length >= 7) addField(phones, digits.slice(-10), phone, pageEvidence(pageUrl, 0.9));
+      }
+      lines.join('\n').match(PHONE_TEXT_PATTERN)?.forEach(phone => {
+        addField(phones, phone.replace(/\D/g, '').slice(-10), phone.trim(), pageEvidence(pageUrl, 0.6));
+      });
+    }
+
+    if (pageDeclared.address) {
+      addField(addresses, pageDeclared.address.value.toLowerCase(), pageDeclared.address.value, declared);
+    } else {
+      extractAddresses(lines).forEach(address => addField(addresses, address.toLowerCase(), address, pageEvidence(pageUrl, 0.75)));
+    }
+    extractStaff(lines).forEach(person => {
+      const key = person.name.toLowerCase();
+      if (!staff.has(key)) staff.set(key, { ...person, evidence: pageEvidence(pageUrl, 0.7) });
+    });
+
+    const candidates = collectSocialCandidates(html);
+    (Object.keys(candidates) as SocialPlatform[]).forEach(platform => {
+      const votes = socialVotes[platform] ??= new Map();
+      new Set(candidates[platform].map(url => url.toLowerCase())).forEach(url => {
+        const vote = votes.get(url);
+        votes.set(url, vote ? { ...vote, pages: vote.pages + 1 } : { pages: 1, sourceUrl: pageUrl });
+      });
+    });
+  };
+
+  console.log(`🕷️ Crawler: Starting at ${homepage} (up to ${maxPages} pages)`);
+  let queue: string[] = [];
+  try {
+    const { html, finalUrl } = await fetchPage(homepage, signal);
+    const startUrl = finalUrl || homepage;
+    result.pages.push(startUrl);
+    extractPage(html, startUrl);
+    queue = findCrawlTargets(html, startUrl).slice(0, Math.max(0, maxPages - 1));
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`❌ Crawler: Could not fetch ${homepage}:`, error);
+    return result;
+  }
+
+  // One page at a time to stay polite to small business sites
+  for (const pageUrl of queue) {
+    try {
+      const { html } = await fetchPage(pageUrl, signal);
+      result.pages.push(pageUrl);
+      extractPage(html, pageUrl);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`⚠️ Crawler: Skipped ${pageUrl} (${(error as Error).message})`);
+    }
+  }
+
+  // Declared profiles win; otherwise a handle linked from several pages beats a one-off link (e.g. a partner's profile)
+  (Object.keys(socialVotes) as SocialPlatform[]).forEach(platform => {
+    const [best] = [...socialVotes[platform]!.entries()].sort((a, b) => b[1].pages - a[1].pages);
+    if (best && !structuredSocial[platform]) {
+      const [url, { pages, sourceUrl }] = best;
+      result.socialLinks[platform] = { value: url, evidence: pageEvidence(sourceUrl, pages > 1 ? 0.95 : 0.85) };
+    }
+  });
+
+  Object.assign(result.socialLinks, structuredSocial);
+
+  result.emails = [...emails.values()].sort((a, b) => b.evidence.confidence - a.evidence.confidence);
+  result.phones = [...phones.values()].sort((a, b) => b.evidence.confidence - a.evidence.confidence);
+  result.addresses = [...addresses.values()].sort((a, b) => b.evidence.confidence - a.evidence.confidence).slice(0, MAX_ADDRESSES);
+  result.staff = [...staff.values()].slice(0, MAX_STAFF);
+
+  console.log(`✅ Crawler: ${result.pages.length} page(s), ${result.emails.length} email(s), ${result.phones.length} phone(s), ${result.staff.length} staff`);
+  return result;
+}
+
+/**
+ * Plain social links from a crawl, one URL per platform
+ */
+export function crawledSocialLinks(crawl: CrawlResult): ScrapedSocialLinks {
+  const links: ScrapedSocialLinks = {};
+  (Object.keys(crawl.socialLinks) as SocialPlatform[]).forEach(platform => {
+    links[platform] = crawl.socialLinks[platform]!.value;
+  });
+  return links;
+}
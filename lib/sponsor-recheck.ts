@@ -0,0 +1,208 @@
+/**
+ * Board Sponsor Re-checks
+ *
+ * Contact data on the board goes stale: companies change email providers,
+ * rename social accounts or let their domain lapse. While autonomy is enabled
+ * the app re-fetches each active sponsor's website every
+ * AutomationSettings.sponsorRecheckDays, compares what the site publishes now
+ * with the stored ContactField values and raises a data-decay alert for every
+ * mismatch. Alerts are replaced on each check, so one that is dismissed comes
+ * back on the next check only if the mismatch is still there. A phone or
+ * address the site declares in structured data is written onto the sponsor
+ * directly, as it would be on a verified lead.
+ *
+ * A fetch that fails before the site answers (proxy timeouts, rate limits,
+ * network errors) is inconclusive: the sponsor keeps its alerts and is retried
+ * after RECHECK_RETRY_HOURS. Only an HTTP error from the site itself, or
+ * DOWN_AFTER_FAILURES inconclusive checks in a row, marks the website as down.
+ */
+
+import { AutomationSettings, CorrectableField, DataDecayAlert, Sponsor } from '../types';
+import { WebsiteCheck, checkWebsite } from './scraper';
+import { CORRECTION_FIELD_LABELS, acceptCorrection } from './verification';
+import { applyWebsiteContacts } from './website-contacts';
+
+export const DEFAULT_SPONSOR_RECHECK_DAYS = 30;
+
+/** Sponsors re-checked per scheduler tick; the rest wait for the next tick */
+export const SPONSOR_RECHECK_BATCH = 5;
+
+/** Consecutive unreachable checks before the website is reported down */
+export const DOWN_AFTER_FAILURES = 3;
+
+/** Wait between attempts after an inconclusive check */
+export const RECHECK_RETRY_HOURS = 6;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const SOCIAL_FIELDS = ['instagram', 'linkedIn', 'facebook', 'twitter'] as const;
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url.startsWith('http') ? url : `https://${url}`).hostname.replace(/^www\./, '').toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+};
+
+/** Handles are stored as bare names or full profile URLs */
+const handleOf = (value: string) =>
+  value.trim().replace(/^https?:\/\/(www\.)?/i, '').replace(/\/+$/, '').split('/').pop()!.replace(/^@/, '').toLowerCase();
+
+const storedValue = (sponsor: Sponsor, field: CorrectableField): string | undefined => {
+  switch (field) {
+    case 'website': return sponsor.websiteField?.value || sponsor.website;
+    case 'email': return sponsor.emailField?.value || sponsor.email;
+    case 'instagram': return sponsor.instagramField?.value || sponsor.socialLinks?.instagram;
+    case 'linkedIn': return sponsor.linkedInField?.value || sponsor.socialLinks?.linkedIn;
+    case 'twitter': return sponsor.twitterField?.value || sponsor.socialLinks?.twitter;
+    case 'facebook': return sponsor.socialLinks?.facebook;
+  }
+};
+
+/**
+ * Active sponsors with a website whose last re-check is older than the interval, oldest first
+ */
+export function findSponsorsDueForRecheck(sponsors: Sponsor[], settings: AutomationSettings, now: Date = new Date()): Sponsor[] {
+  if (!settings.autoSignalRefresh || !(settings.sponsorRecheckDays > 0)) return [];
+  const cutoff = now.getTime() - settings.sponsorRecheckDays * DAY_MS;
+  const retryCutoff = now.getTime() - RECHECK_RETRY_HOURS * HOUR_MS;
+
+  return sponsors
+    .filter(s => !!storedValue(s, 'website') && !s.archivedAt)
+    .filter(s => !s.contactsCheckedAt || Date.parse(s.contactsCheckedAt) <= cutoff)
+    .filter(s => !s.contactCheckRetry || Date.parse(s.contactCheckRetry.lastAttemptAt) <= retryCutoff)
+    .sort((a, b) => (a.contactsCheckedAt || '').localeCompare(b.contactsCheckedAt || ''))
+    .slice(0, SPONSOR_RECHECK_BATCH);
+}
+
+/**
+ * Compare a sponsor's stored contact data with what its website publishes now
+ */
+export function detectDataDecay(sponsor: Sponsor, check: WebsiteCheck, at: string = new Date().toISOString()): DataDecayAlert[] {
+  const website = storedValue(sponsor, 'website');
+  if (!website) return [];
+
+  const alerts: DataDecayAlert[] = [];
+  const raise = (field: CorrectableField, kind: DataDecayAlert['kind'], stored: string, message: string, found?: string) =>
+    alerts.push({ field, kind, stored, found, message, detectedAt: at });
+
+  // An unreachable site proves nothing either way
+  if (check.status === 'UNREACHABLE') return [];
+
+  // Nothing else on a dead or parked site can be trusted
+  if (check.status === 'DOWN') {
+    raise('website', 'DOWN', website, `Website is down (${check.detail || 'unreachable'})`);
+    return alerts;
+  }
+  if (check.status === 'PARKED') {
+    raise('website', 'PARKED', website, 'Domain is parked or for sale');
+    return alerts;
+  }
+
+  const siteHost = hostOf(website);
+  if (check.finalUrl && hostOf(check.finalUrl) !== siteHost) {
+    const origin = new URL(check.finalUrl).origin;
+    raise('website', 'CHANGED', website, `Website now redirects to ${hostOf(check.finalUrl)}`, origin);
+  }
+
+  // Footers rendered by script yield no links at all; only compare when the scrape found some
+  const scrapedAny = Object.keys(check.socialLinks).length > 0;
+  SOCIAL_FIELDS.forEach(field => {
+    const stored = storedValue(sponsor, field);
+    if (!stored || !scrapedAny) return;
+    const found = check.socialLinks[field];
+    const label = CORRECTION_FIELD_LABELS[field];
+    if (!found) {
+      raise(field, 'MISSING', stored, `${label} is no longer linked from the website`);
+    } else if (handleOf(found) !== handleOf(stored)) {
+      raise(field, 'CHANGED', stored, `${label} now links to ${handleOf(found)}`, found);
+    }
+  });
+
+  // Only addresses on the company's own domain are expected on its site
+  const email = storedValue(sponsor, 'email');
+  const siteEmails = check.emails.filter(e => e.endsWith(`@${siteHost}`));
+  if (email && siteEmails.length > 0 && email.toLowerCase().endsWith(`@${siteHost}`) && !siteEmails.includes(email.toLowerCase())) {
+    raise('email', 'CHANGED', email, `Email no longer published; the website lists ${siteEmails[0]}`, siteEmails[0]);
+  }
+
+  return alerts;
+}
+
+/**
+ * Re-fetch the sponsor's website; pass the result to applyRecheck
+ */
+export async function recheckSponsor(sponsor: Sponsor, signal?: AbortSignal): Promise<WebsiteCheck | null> {
+  const website = storedValue(sponsor, 'website');
+  if (!website) return null;
+  console.log(`🔁 Re-check: ${sponsor.companyName}`);
+  return checkWebsite(website, signal);
+}
+
+export interface RecheckOutcome {
+  sponsor: Sponsor;
+  alerts: DataDecayAlert[];
+  /** The site could not be reached; nothing was stamped and the alerts are unchanged */
+  inconclusive: boolean;
+}
+
+/**
+ * Record a re-check on the sponsor: conclusive checks are stamped and replace the
+ * alerts, inconclusive ones only count towards DOWN_AFTER_FAILURES
+ */
+export function applyRecheck(sponsor: Sponsor, check: WebsiteCheck, at: string = new Date().toISOString()): RecheckOutcome {
+  if (check.status !== 'UNREACHABLE') {
+    const alerts = detectDataDecay(sponsor, check, at);
+    const refreshed = check.status === 'UP'
+      ? applyWebsiteContacts(sponsor, { phones: [], addresses: [], staff: [], declared: check.declared, openingHours: check.openingHours })
+      : sponsor;
+    return { sponsor: { ...refreshed, contactsCheckedAt: at, contactCheckRetry: undefined, dataAlerts: alerts }, alerts, inconclusive: false };
+  }
+
+  const failures = (sponsor.contactCheckRetry?.failures || 0) + 1;
+  if (failures < DOWN_AFTER_FAILURES) {
+    console.warn(`⚠️ Re-check: ${sponsor.companyName} unreachable (${failures}/${DOWN_AFTER_FAILURES}), retrying later`);
+    return {
+      sponsor: { ...sponsor, contactCheckRetry: { failures, lastAttemptAt: at } },
+      alerts: sponsor.dataAlerts || [],
+      inconclusive: true,
+    };
+  }
+
+  const alerts: DataDecayAlert[] = [{
+    field: 'website',
+    kind: 'DOWN',
+    stored: storedValue(sponsor, 'website') || '',
+    message: `Website unreachable on ${failures} consecutive checks (${check.detail || 'no response'})`,
+    detectedAt: at,
+  }];
+  return { sponsor: { ...sponsor, contactsCheckedAt: at, contactCheckRetry: undefined, dataAlerts: alerts }, alerts, inconclusive: false };
+}
+
+const alertKey = (alert: DataDecayAlert) => `${alert.field}:${alert.kind}:${alert.found || ''}`;
+
+/**
+ * Alerts not already raised by the previous check (used to avoid repeat notifications)
+ */
+export function findNewAlerts(previous: DataDecayAlert[] = [], alerts: DataDecayAlert[]): DataDecayAlert[] {
+  const seen = new Set(previous.map(alertKey));
+  return alerts.filter(alert => !seen.has(alertKey(alert)));
+}
+
+/**
+ * Clear an alert; when accepted, the value the website publishes now replaces the stored one
+ */
+export function resolveDataAlert(sponsor: Sponsor, alert: DataDecayAlert, accept: boolean): Sponsor {
+  const remaining = (sponsor.dataAlerts || []).filter(a => alertKey(a) !== alertKey(alert));
+  if (!accept || !alert.found) return { ...sponsor, dataAlerts: remaining };
+
+  const updated = acceptCorrection(sponsor, {
+    field: alert.field,
+    from: alert.stored,
+    to: alert.found,
+    evidence: { source: 'official_website', confidence: 0.9, sourceUrl: storedValue(sponsor, 'website') },
+  });
+  return { ...updated, dataAlerts: remaining };
+}
@@ -0,0 +1,228 @@
+/**
+ * Spreadsheet Writers (CSV + XLSX)
+ *
+ * XLSX output is a minimal SpreadsheetML package (inline strings, no styles)
+ * zipped with the "stored" method, so no compression library is needed.
+ */
+
+import { isFormulaLike, toCsv } from './csv';
+
+export type SheetCell = string | number | boolean | null | undefined;
+
+export interface Sheet {
+  name: string;
+  columns: string[];
+  rows: SheetCell[][];
+}
+
+export type SpreadsheetFormat = 'CSV' | 'XLSX';
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Trigger a browser download for a generated file
+ */
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Free the blob only after the click has handed it to the browser
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Filesystem-safe base name with today's date, e.g. "scout-pipeline-2025-01-31"
+ */
+export function exportFileName(label: string): string {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'export';
+  return `scout-${slug}-${new Date().toISOString().split('T')[0]}`;
+}
+
+// ============================================================================
+// XLSX PACKAGING
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build an uncompressed ZIP archive from named entries
+ */
+function zipStored(files: { name: string; content: string }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    localParts.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    output.set(part, position);
+    position += part.length;
+  });
+  return output;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Column letter for a 0-based index (0 → A, 26 → AA)
+ */
+function columnRef(index: number): string {
+  let ref = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    ref = String.fromCharCode(65 + ((n - 1) % 26)) + ref;
+  }
+  return ref;
+}
+
+function cellXml(value: SheetCell, ref: string): string {
+  if (value === undefined || value === null || value === '') return '';
+  // Inline strings are never evaluated, so formula-like text stays literal
+  if (typeof value === 'string' && isFormulaLike(value)) return inlineStringXml(value, ref);
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+  if (typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  return inlineStringXml(String(value), ref);
+}
+
+function inlineStringXml(value: string, ref: string): string {
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function worksheetXml(sheet: Sheet): string {
+  const rows = [sheet.columns, ...sheet.rows].map((row, r) =>
+    `<row r="${r + 1}">${row.map((value, c) => cellXml(value, `${columnRef(c)}${r + 1}`)).join('')}</row>`
+  );
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows.join('')}</sheetData></worksheet>`;
+}
+
+/**
+ * Excel sheet names: max 31 chars, unique, without []:*?/\
+ */
+function sheetNames(sheets: Sheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, idx) => {
+    const base = sheet.name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 28) || `Sheet${idx + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base} ${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/**
+ * Build an .xlsx workbook with one worksheet per sheet
+ */
+export function buildXlsx(sheets: Sheet[]): Uint8Array {
+  const names = sheetNames(sheets);
+  const files = [
+    {
+      name: '[Content_Types].xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')}</Types>`
+    },
+    {
+      name: '_rels/.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets></workbook>`
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')}</Relationships>`
+    },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content: worksheetXml(sheet) })),
+  ];
+
+  return zipStored(files);
+}
+
+// ============================================================================
+// DOWNLOADS
+// ============================================================================
+
+/**
+ * Download a sheet as CSV or XLSX
+ *
+ * @param sheet - Header + rows to export
+ * @param format - Output format
+ * @param fileName - Base name without extension
+ */
+export function downloadSheet(sheet: Sheet, format: SpreadsheetFormat, fileName: string): void {
+  if (format === 'XLSX') {
+    downloadBlob(new Blob([buildXlsx([sheet])], { type: XLSX_MIME }), `${fileName}.xlsx`);
+  } else {
+    // BOM so Excel opens UTF-8 company names correctly
+    downloadBlob(new Blob(['\uFEFF' + toCsv([sheet.columns, ...sheet.rows])], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+  }
+  console.log(`📤 Export: ${sheet.rows.length} rows → ${fileName}.${format.toLowerCase()}`);
+}
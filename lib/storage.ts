@@ -0,0 +1,401 @@
+/**
+ * IndexedDB Workspace Repository
+ *
+ * Persists the Scout workspace as one object store per entity (sponsors, deals,
+ * activities, vault leads, discovery sessions, personas, jobs, workflows,
+ * social messages) plus a small store for singleton slices such as settings.
+ * Writes are incremental: only records whose object identity changed since the
+ * last save are put or deleted, so other tabs merge them by id.
+ *
+ * The same database also holds the response cache (see lib/response-cache.ts),
+ * which is not part of the workspace and is never exported or replaced.
+ */
+
+import { AppState } from '../types';
+
+const DB_NAME = 'scout_workspace';
+const DB_VERSION = 4;
+
+/** localStorage key used by the single-blob persistence layer (pre IndexedDB) */
+export const LEGACY_STORAGE_KEY = 'scout_crm_v5_persistent_logic';
+
+export type PersistedState = Omit<AppState, 'activeTask'>;
+
+/**
+ * AppState collections stored record-by-record, mapped to their object store
+ */
+const ENTITY_STORES = {
+  sponsors: 'sponsors',
+  deals: 'deals',
+  activities: 'activities',
+  vault: 'vault',
+  discoveryHistory: 'sessions',
+  usageLedger: 'usage',
+  personas: 'personas',
+  socialMessages: 'socialMessages',
+  discoveryJobs: 'discoveryJobs',
+  workflows: 'workflows',
+} as const;
+
+type EntityKey = keyof typeof ENTITY_STORES;
+
+/**
+ * AppState slices stored as a single record each, keyed by field name
+ */
+const SINGLETON_KEYS = [
+  'currentDiscoveryLeads',
+  'automationSettings',
+  'socialAccounts',
+  'senderProfile',
+  'theme',
+] as const;
+
+/** Lists kept as single workspace records before DB_VERSION 4 */
+const FORMER_SINGLETON_LISTS = ['personas', 'socialMessages', 'discoveryJobs', 'workflows'] as const;
+
+type SingletonKey = typeof SINGLETON_KEYS[number];
+
+const WORKSPACE_STORE = 'workspace';
+const META_STORE = 'meta';
+const CACHE_STORE = 'responseCache';
+
+const ENTITY_KEYS = Object.keys(ENTITY_STORES) as EntityKey[];
+const ALL_STORES = [...Object.values(ENTITY_STORES), WORKSPACE_STORE, META_STORE];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const orderKey = (entity: EntityKey) => `order:${entity}`;
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction commits, reject if it aborts
+ */
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+}
+
+/**
+ * Move lists stored whole in the workspace store into their own object stores
+ *
+ * Runs inside the version-change transaction, so the new stores and the
+ * removal of the old records commit together.
+ */
+function migrateFormerSingletonLists(tx: IDBTransaction) {
+  const workspaceStore = tx.objectStore(WORKSPACE_STORE);
+  FORMER_SINGLETON_LISTS.forEach(entity => {
+    const request = workspaceStore.get(entity);
+    request.onsuccess = () => {
+      const records = Array.isArray(request.result)
+        ? (request.result as { id?: unknown }[]).filter((record): record is { id: string } => typeof record?.id === 'string')
+        : [];
+      const store = tx.objectStore(ENTITY_STORES[entity]);
+      records.forEach(record => store.put(record));
+      if (records.length > 0) workspaceStore.put(records.map(record => record.id), orderKey(entity));
+      workspaceStore.delete(entity);
+    };
+  });
+}
+
+/**
+ * Open (and lazily upgrade) the workspace database
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      Object.values(ENTITY_STORES).forEach(store => {
+        if (!db.objectStoreNames.contains(store)) {
+          db.createObjectStore(store, { keyPath: 'id' });
+        }
+      });
+      if (!db.objectStoreNames.contains(WORKSPACE_STORE)) db.createObjectStore(WORKSPACE_STORE);
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      if (!db.objectStoreNames.contains(CACHE_STORE)) db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+      if (event.oldVersion > 0 && event.oldVersion < 4) migrateFormerSingletonLists(request.transaction!);
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Restore persisted record order; IndexedDB returns records sorted by key
+ */
+function applyOrder<T extends { id: string }>(records: T[], order?: string[]): T[] {
+  if (!order) return records;
+  const position = new Map(order.map((id, index) => [id, index]));
+  return [...records].sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+}
+
+/**
+ * Load the workspace from IndexedDB
+ *
+ * @returns The persisted state, or null if the database has never been written
+ */
+export async function loadWorkspace(): Promise<PersistedState | null> {
+  const db = await openDatabase();
+  const tx = db.transaction(ALL_STORES, 'readonly');
+
+  const initializedAt = await requestToPromise(tx.objectStore(META_STORE).get('initializedAt'));
+  if (!initializedAt) return null;
+
+  const state: Record<string, unknown> = {};
+
+  for (const entity of ENTITY_KEYS) {
+    const records = await requestToPromise(tx.objectStore(ENTITY_STORES[entity]).getAll());
+    const order = await requestToPromise(tx.objectStore(WORKSPACE_STORE).get(orderKey(entity)));
+    state[entity] = applyOrder(records, order);
+  }
+
+  for (const key of SINGLETON_KEYS) {
+    const value = await requestToPromise(tx.objectStore(WORKSPACE_STORE).get(key));
+    if (value !== undefined) state[key] = value;
+  }
+
+  return state as unknown as PersistedState;
+}
+
+const sameOrder = (a: { id: string }[] | undefined, b: { id: string }[]) =>
+  !!a && a.length === b.length && a.every((item, index) => item.id === b[index].id);
+
+/**
+ * Per-record changes to one entity collection
+ */
+export interface EntityChanges {
+  upserts: { id: string }[];
+  deletes: string[];
+  /** Full id order, present only when it changed */
+  order?: string[];
+}
+
+/**
+ * Everything that differs between two workspace snapshots
+ */
+export interface WorkspaceChanges {
+  entities: Partial<Record<EntityKey, EntityChanges>>;
+  singletons: Partial<Pick<PersistedState, SingletonKey>>;
+}
+
+/**
+ * Diff two workspace snapshots
+ *
+ * Records are compared by reference, so the immutable updates made in App.tsx
+ * translate directly into per-record upserts and deletes. A null previous
+ * snapshot yields every record and slice.
+ */
+export function diffWorkspace(previous: PersistedState | null, next: PersistedState): WorkspaceChanges {
+  const changes: WorkspaceChanges = { entities: {}, singletons: {} };
+
+  for (const entity of ENTITY_KEYS) {
+    const prevRecords = previous?.[entity] as { id: string }[] | undefined;
+    const nextRecords = (next[entity] || []) as { id: string }[];
+    if (prevRecords === nextRecords) continue;
+
+    const prevById = new Map((prevRecords || []).map(record => [record.id, record]));
+    const nextIds = new Set(nextRecords.map(record => record.id));
+    const upserts = nextRecords.filter(record => prevById.get(record.id) !== record);
+    const deletes = Array.from(prevById.keys()).filter(id => !nextIds.has(id));
+    const order = sameOrder(prevRecords, nextRecords) ? undefined : nextRecords.map(record => record.id);
+
+    if (upserts.length || deletes.length || order) {
+      changes.entities[entity] = { upserts, deletes, order };
+    }
+  }
+
+  for (const key of SINGLETON_KEYS) {
+    if (previous && previous[key] === next[key]) continue;
+    (changes.singletons as Record<string, unknown>)[key] = next[key];
+  }
+
+  return changes;
+}
+
+/**
+ * Whether a diff contains no changes at all
+ */
+export function isEmptyChanges(changes: WorkspaceChanges): boolean {
+  return Object.keys(changes.entities).length === 0 && Object.keys(changes.singletons).length === 0;
+}
+
+/**
+ * Apply a diff onto a workspace snapshot (used for changes made in another tab)
+ *
+ * Merges per record: upserted records replace their local copy by id, so edits
+ * to different records in different tabs never overwrite each other.
+ */
+export function applyWorkspaceChanges<T extends PersistedState>(state: T, changes: WorkspaceChanges): T {
+  const next: Record<string, unknown> = { ...state, ...changes.singletons };
+
+  (Object.keys(changes.entities) as EntityKey[]).forEach(entity => {
+    const { upserts, deletes, order } = changes.entities[entity]!;
+    const upsertsById = new Map(upserts.map(record => [record.id, record]));
+    const deleted = new Set(deletes);
+    const current = (state[entity] || []) as { id: string }[];
+
+    const merged = current
+      .filter(record => !deleted.has(record.id))
+      .map(record => upsertsById.get(record.id) || record);
+    const existing = new Set(merged.map(record => record.id));
+    upserts.forEach(record => {
+      if (!existing.has(record.id)) merged.push(record);
+    });
+
+    next[entity] = applyOrder(merged, order);
+  });
+
+  return next as T;
+}
+
+/**
+ * Persist the difference between two workspace snapshots
+ *
+ * Passing a null previous snapshot rewrites everything.
+ *
+ * @returns The changes that were written
+ */
+export async function saveWorkspace(previous: PersistedState | null, next: PersistedState): Promise<WorkspaceChanges> {
+  const changes = diffWorkspace(previous, next);
+  if (previous && isEmptyChanges(changes)) return changes;
+
+  const db = await openDatabase();
+  const tx = db.transaction(ALL_STORES, 'readwrite');
+  const workspaceStore = tx.objectStore(WORKSPACE_STORE);
+
+  (Object.keys(changes.entities) as EntityKey[]).forEach(entity => {
+    const { upserts, deletes, order } = changes.entities[entity]!;
+    const store = tx.objectStore(ENTITY_STORES[entity]);
+    if (!previous) store.clear();
+    upserts.forEach(record => store.put(record));
+    deletes.forEach(id => store.delete(id));
+    if (order) workspaceStore.put(order, orderKey(entity));
+  });
+
+  Object.entries(changes.singletons).forEach(([key, value]) => workspaceStore.put(value, key));
+
+  const metaStore = tx.objectStore(META_STORE);
+  if (!previous) metaStore.put(new Date().toISOString(), 'initializedAt');
+  metaStore.put(new Date().toISOString(), 'lastSavedAt');
+
+  await transactionDone(tx);
+  return changes;
+}
+
+/**
+ * Replace the whole workspace (used for first launch and legacy import)
+ *
+ * @param stateVersion - Schema version of the state being written
+ */
+export async function replaceWorkspace(state: PersistedState, stateVersion: number): Promise<void> {
+  await saveWorkspace(null, state);
+  await writeMeta('stateVersion', stateVersion);
+}
+
+/**
+ * Read a value from the meta store (schema version, timestamps, ...)
+ */
+export async function readMeta<T = unknown>(key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(META_STORE).get(key));
+}
+
+/**
+ * Write a value to the meta store
+ */
+export async function writeMeta(key: string, value: unknown): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(value, key);
+  await transactionDone(tx);
+}
+
+export interface CacheRecord<T = unknown> {
+  key: string;
+  value: T;
+  cachedAt: string; // ISO timestamp
+}
+
+/**
+ * Read a response cache record
+ */
+export async function readCacheRecord<T>(key: string): Promise<CacheRecord<T> | undefined> {
+  const db = await openDatabase();
+  const tx = db.transaction(CACHE_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(CACHE_STORE).get(key));
+}
+
+/**
+ * Write (or overwrite) a response cache record
+ */
+export async function writeCacheRecord<T>(record: CacheRecord<T>): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(CACHE_STORE, 'readwrite');
+  tx.objectStore(CACHE_STORE).put(record);
+  await transactionDone(tx);
+}
+
+/**
+ * Read the single-blob payload written by the localStorage persistence layer
+ *
+ * @returns The raw parsed payload, or null if none exists or it cannot be parsed
+ */
+export function readLegacyPayload(): any | null {
+  try {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.warn('⚠️ Storage: Failed to read legacy localStorage payload:', error);
+    return null;
+  }
+}
+
+/**
+ * Write the workspace to the legacy localStorage slot
+ *
+ * Fallback for when IndexedDB cannot be opened or written. The payload is
+ * stamped with savedAt so the next launch can tell it is newer than the
+ * database and import it. Throws when localStorage is full or unavailable.
+ */
+export function writeLegacyPayload(state: PersistedState, stateVersion: number): void {
+  localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify({ stateVersion, savedAt: new Date().toISOString(), state }));
+}
+
+/**
+ * Drop the legacy localStorage blob once it has been imported, freeing quota
+ */
+export function clearLegacyPayload(): void {
+  try {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  } catch (error) {
+    console.warn('⚠️ Storage: Failed to clear legacy localStorage payload:', error);
+  }
+}
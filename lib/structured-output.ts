@@ -0,0 +1,160 @@
+/**
+ * Structured Model Output
+ *
+ * Parses model JSON strictly and validates it against the response schema the
+ * call declared (Gemini `Schema` with `Type` values). Failures surface as an
+ * LlmResponseError listing every field that did not match, rather than a
+ * silent empty result.
+ */
+
+import { Type } from '@google/genai';
+import type { Schema } from '@google/genai';
+
+/**
+ * Thrown when a model response is not valid JSON or does not match its schema
+ */
+export class LlmResponseError extends Error {
+  readonly operation: string;
+  /** One entry per failing field, e.g. "[2].dnaScore: expected number, got \"high\"" */
+  readonly fieldErrors: string[];
+
+  constructor(operation: string, message: string, fieldErrors: string[] = []) {
+    super(fieldErrors.length > 0 ? `${message} (${fieldErrors.slice(0, 5).join('; ')}${fieldErrors.length > 5 ? `; +${fieldErrors.length - 5} more` : ''})` : message);
+    this.name = 'LlmResponseError';
+    this.operation = operation;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+const describe = (value: unknown) => value === undefined ? 'nothing' : JSON.stringify(value)?.slice(0, 40);
+
+const joinPath = (path: string, key: string) => path ? `${path}.${key}` : key;
+
+/**
+ * Validate a value against a response schema
+ *
+ * @returns One message per failing field (empty when valid)
+ */
+export function validateSchema(value: unknown, schema: Schema, path: string = ''): string[] {
+  const at = path || 'response';
+
+  if (value === undefined || value === null) {
+    return schema.nullable ? [] : [`${at}: expected ${String(schema.type).toLowerCase()}, got ${describe(value)}`];
+  }
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) return [`${at}: expected object, got ${describe(value)}`];
+      const record = value as Record<string, unknown>;
+      const required = new Set(schema.required || []);
+      return Object.entries(schema.properties || {}).flatMap(([key, child]) => {
+        const field = record[key];
+        if ((field === undefined || field === null) && !required.has(key)) return [];
+        return validateSchema(field, child, joinPath(path, key));
+      });
+    }
+    case Type.ARRAY:
+      if (!Array.isArray(value)) return [`${at}: expected array, got ${describe(value)}`];
+      return schema.items ? value.flatMap((item, index) => validateSchema(item, schema.items!, `${path}[${index}]`)) : [];
+    case Type.NUMBER:
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${at}: expected number, got ${describe(value)}`];
+    case Type.INTEGER:
+      return Number.isInteger(value) ? [] : [`${at}: expected integer, got ${describe(value)}`];
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [`${at}: expected boolean, got ${describe(value)}`];
+    case Type.STRING:
+      if (typeof value !== 'string') return [`${at}: expected string, got ${describe(value)}`];
+      return schema.enum && !schema.enum.includes(value) ? [`${at}: expected ${schema.enum.join(' | ')}, got ${describe(value)}`] : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * First balanced JSON object or array in the text, skipping brackets inside strings
+ */
+function findBalancedJson(text: string): string | null {
+  const start = text.search(/[[{]/);
+  if (start < 0) return null;
+
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      stack.push(ch === '{' ? '}' : ']');
+    } else if (ch === '}' || ch === ']') {
+      if (stack.pop() !== ch) return null;
+      if (stack.length === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse model text as JSON
+ *
+ * Grounded calls enforce no schema, so the JSON may be wrapped in a prose
+ * preamble, a ``` fence or trailing citations. Tries the whole text, then the
+ * first fenced block, then the first balanced object/array.
+ */
+function parseJson(operation: string, text: string): unknown {
+  const trimmed = (text || '').trim();
+  if (!trimmed) throw new LlmResponseError(operation, `${operation}: model returned an empty response`);
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i)?.[1]?.trim();
+  const candidates = [trimmed, fenced, findBalancedJson(fenced || trimmed), findBalancedJson(trimmed)];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next, narrower candidate
+    }
+  }
+  throw new LlmResponseError(operation, `${operation}: model response is not valid JSON`);
+}
+
+/**
+ * Parse and validate a single structured response
+ */
+export function parseStructured<T>(operation: string, text: string, schema: Schema): T {
+  const value = parseJson(operation, text);
+  const errors = validateSchema(value, schema);
+  if (errors.length > 0) {
+    throw new LlmResponseError(operation, `${operation}: response failed validation`, errors);
+  }
+  return value as T;
+}
+
+/**
+ * Parse a JSON array, keeping items that match `itemSchema`
+ *
+ * Throws when the response is not an array, or when every item is invalid.
+ *
+ * @returns The valid items plus the field errors of the rejected ones
+ */
+export function parseStructuredList<T>(operation: string, text: string, itemSchema: Schema): { items: T[]; rejected: string[] } {
+  const value = parseJson(operation, text);
+  if (!Array.isArray(value)) {
+    throw new LlmResponseError(operation, `${operation}: response failed validation`, [`response: expected array, got ${describe(value)}`]);
+  }
+
+  const items: T[] = [];
+  const rejected: string[] = [];
+  value.forEach((item, index) => {
+    const errors = validateSchema(item, itemSchema, `[${index}]`);
+    if (errors.length === 0) items.push(item as T);
+    else rejected.push(...errors);
+  });
+
+  if (items.length === 0 && rejected.length > 0) {
+    throw new LlmResponseError(operation, `${operation}: no result passed validation`, rejected);
+  }
+  return { items, rejected };
+}
@@ -0,0 +1,81 @@
+/**
+ * Cross-tab Workspace Sync
+ *
+ * Every tab persists its own edits to IndexedDB, then broadcasts the written
+ * diff so other open tabs can merge it into their in-memory state. Uses
+ * BroadcastChannel where available and falls back to localStorage `storage`
+ * events otherwise.
+ */
+
+import { WorkspaceChanges, isEmptyChanges } from './storage';
+
+const CHANNEL_NAME = 'scout_workspace_sync';
+
+/** localStorage key used to relay messages when BroadcastChannel is unavailable */
+const STORAGE_EVENT_KEY = 'scout_workspace_sync_event';
+
+interface SyncMessage {
+  origin: string;
+  changes: WorkspaceChanges;
+}
+
+/** Identifies this tab so it ignores its own messages */
+const TAB_ID = `tab_${crypto.randomUUID()}`;
+
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  if (!channel) channel = new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+}
+
+/**
+ * Announce persisted changes to the other open tabs
+ */
+export function broadcastChanges(changes: WorkspaceChanges): void {
+  if (isEmptyChanges(changes)) return;
+  const message: SyncMessage = { origin: TAB_ID, changes };
+
+  try {
+    const bc = getChannel();
+    if (bc) {
+      bc.postMessage(message);
+      return;
+    }
+    localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify(message));
+    localStorage.removeItem(STORAGE_EVENT_KEY);
+  } catch (error) {
+    console.warn('⚠️ Sync: Failed to broadcast workspace changes:', error);
+  }
+}
+
+/**
+ * Listen for changes persisted by other tabs
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToChanges(onChanges: (changes: WorkspaceChanges) => void): () => void {
+  const handle = (message: SyncMessage | null) => {
+    if (!message || message.origin === TAB_ID) return;
+    onChanges(message.changes);
+  };
+
+  const bc = getChannel();
+  if (bc) {
+    const listener = (event: MessageEvent<SyncMessage>) => handle(event.data);
+    bc.addEventListener('message', listener);
+    return () => bc.removeEventListener('message', listener);
+  }
+
+  const listener = (event: StorageEvent) => {
+    if (event.key !== STORAGE_EVENT_KEY || !event.newValue) return;
+    try {
+      handle(JSON.parse(event.newValue));
+    } catch (error) {
+      console.warn('⚠️ Sync: Ignoring malformed sync message:', error);
+    }
+  };
+  window.addEventListener('storage', listener);
+  return () => window.removeEventListener('storage', listener);
+}
@@ -0,0 +1,160 @@
+/**
+ * API Usage Ledger
+ *
+ * Providers report each billable call (model tokens from the response's usage
+ * metadata, Apollo credits from enrichment) here; App subscribes and appends
+ * the priced entry to AppState.usageLedger. Costs are estimates from a static
+ * price table and the Apollo credit price configured in the usage budget.
+ */
+
+import { LlmProviderId, UsageBudget, UsageEntry, UsageOperation, UsageProvider } from '../types';
+
+export type UsageReport = Omit<UsageEntry, 'id' | 'at' | 'estimatedCost'>;
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = {
+  dailyLimit: 0,
+  monthlyLimit: 0,
+  enforcement: 'WARN',
+  apolloCreditCost: 0.1,
+};
+
+/**
+ * USD per million tokens (input / output); matched by model-name prefix
+ */
+const MODEL_PRICING: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'gemini-3-pro', input: 2, output: 12 },
+  { prefix: 'gemini-2.5-pro', input: 1.25, output: 10 },
+  { prefix: 'gemini-2.5-flash-lite', input: 0.1, output: 0.4 },
+  { prefix: 'gemini-2.5-flash', input: 0.3, output: 2.5 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+];
+
+/** Fallback when the model is not in the table (custom or self-hosted names) */
+const PROVIDER_PRICING: Record<Exclude<UsageProvider, 'APOLLO'>, { input: number; output: number }> = {
+  GEMINI: { input: 2, output: 12 },
+  OPENAI: { input: 2.5, output: 10 },
+};
+
+export const OPERATION_LABELS: Record<UsageOperation, string> = {
+  DISCOVERY: 'Discovery',
+  VERIFICATION: 'Verification',
+  OUTREACH: 'Outreach',
+  VALUE_PROP: 'Value Prop',
+  WEBSITE_INTEL: 'Website Intel',
+  SIGNALS: 'Signals',
+  ENRICHMENT: 'Apollo Enrichment',
+};
+
+/** Rough size of one discovery call, used to estimate a scan before it runs */
+const DISCOVERY_TOKEN_ESTIMATE = { input: 2000, output: 8000 };
+/** A DEEP scan enriches up to 20 leads at up to 2 credits each */
+const DEEP_SCAN_APOLLO_CREDITS = 40;
+
+/**
+ * Estimated USD cost of a model call
+ */
+export function estimateTokenCost(provider: Exclude<UsageProvider, 'APOLLO'>, model: string | undefined, inputTokens: number, outputTokens: number): number {
+  const price = MODEL_PRICING.find(p => model?.startsWith(p.prefix)) || PROVIDER_PRICING[provider];
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Price a reported call and turn it into a ledger entry
+ */
+export function createUsageEntry(report: UsageReport, budget: UsageBudget): UsageEntry {
+  const estimatedCost = report.provider === 'APOLLO'
+    ? (report.credits || 0) * budget.apolloCreditCost
+    : estimateTokenCost(report.provider, report.model, report.inputTokens || 0, report.outputTokens || 0);
+
+  return {
+    ...report,
+    id: `use_${crypto.randomUUID()}`,
+    at: new Date().toISOString(),
+    estimatedCost,
+  };
+}
+
+const listeners = new Set<(report: UsageReport) => void>();
+
+/**
+ * Listen for billable calls made by any provider
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToUsage(listener: (report: UsageReport) => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/**
+ * Record a billable call (called by the provider clients)
+ */
+export function reportUsage(report: UsageReport): void {
+  listeners.forEach(listener => listener(report));
+}
+
+export const startOfDay = (now: Date) => new Date(now.getFullYear(), now.getMonth(), now.getDate());
+export const startOfMonth = (now: Date) => new Date(now.getFullYear(), now.getMonth(), 1);
+
+export interface UsageSummary {
+  cost: number;
+  calls: number;
+  tokens: number;
+  credits: number;
+  byOperation: Partial<Record<UsageOperation, number>>;
+  byProvider: Partial<Record<UsageProvider, number>>;
+}
+
+/**
+ * Totals for every entry at or after `since`
+ */
+export function summarizeUsage(ledger: UsageEntry[], since: Date): UsageSummary {
+  const summary: UsageSummary = { cost: 0, calls: 0, tokens: 0, credits: 0, byOperation: {}, byProvider: {} };
+  const from = since.getTime();
+
+  ledger.forEach(entry => {
+    if (Date.parse(entry.at) < from) return;
+    summary.cost += entry.estimatedCost;
+    summary.calls++;
+    summary.tokens += (entry.inputTokens || 0) + (entry.outputTokens || 0);
+    summary.credits += entry.credits || 0;
+    summary.byOperation[entry.operation] = (summary.byOperation[entry.operation] || 0) + entry.estimatedCost;
+    summary.byProvider[entry.provider] = (summary.byProvider[entry.provider] || 0) + entry.estimatedCost;
+  });
+
+  return summary;
+}
+
+/**
+ * Worst-case cost of a DEEP scan with the given discovery provider and model
+ *
+ * @param withApollo - Whether Apollo enrichment will run (it is skipped when unconfigured)
+ */
+export function estimateDeepScanCost(provider: LlmProviderId, model: string, budget: UsageBudget, withApollo: boolean): number {
+  const discovery = provider === 'FAKE'
+    ? 0
+    : estimateTokenCost(provider, model, DISCOVERY_TOKEN_ESTIMATE.input, DISCOVERY_TOKEN_ESTIMATE.output);
+  return discovery + (withApollo ? DEEP_SCAN_APOLLO_CREDITS * budget.apolloCreditCost : 0);
+}
+
+export const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(3) : usd.toFixed(2)}`;
+
+/**
+ * Check whether spending `estimate` more would exceed the daily or monthly budget
+ *
+ * @returns A description of the exceeded budget, or null when within limits
+ */
+export function checkBudget(ledger: UsageEntry[], budget: UsageBudget, estimate: number, now: Date = new Date()): string | null {
+  const today = summarizeUsage(ledger, startOfDay(now)).cost;
+  if (budget.dailyLimit > 0 && today + estimate > budget.dailyLimit) {
+    return `This scan (~${formatCost(estimate)}) would exceed today's budget: ${formatCost(today)} of ${formatCost(budget.dailyLimit)} already spent.`;
+  }
+
+  const month = summarizeUsage(ledger, startOfMonth(now)).cost;
+  if (budget.monthlyLimit > 0 && month + estimate > budget.monthlyLimit) {
+    return `This scan (~${formatCost(estimate)}) would exceed this month's budget: ${formatCost(month)} of ${formatCost(budget.monthlyLimit)} already spent.`;
+  }
+
+  return null;
+}
@@ -0,0 +1,208 @@
+/**
+ * Forensic Verification Queue
+ *
+ * Applies verification results to leads (shared by the single-lead and
+ * "Verify all" paths) and runs a batch of audits with bounded concurrency.
+ * The verifier's corrected contact data is not written straight onto the
+ * lead: each changed field is held as a pending correction until the user
+ * accepts it (updating the value, its ContactField evidence and
+ * enrichedContacts) or rejects it.
+ */
+
+import { ContactIntelligence, ContactMethodType, CorrectableField, DiscoveredLead, FieldCorrection, FieldEvidence, Sponsor } from '../types';
+import { ForensicVerificationResult, verifyLeadForensically } from './gemini';
+import { applyWebsiteContacts } from './website-contacts';
+
+/** Audits in flight at once; each is a scrape plus a search-grounded model call */
+export const VERIFY_ALL_CONCURRENCY = 3;
+
+/** Evidence for corrections the model proposed without a matching scrape */
+const MODEL_CORRECTION_EVIDENCE: FieldEvidence = { source: 'unknown', confidence: 0.7 };
+
+export const CORRECTION_FIELD_LABELS: Record<CorrectableField, string> = {
+  website: 'Website',
+  email: 'Email',
+  instagram: 'Instagram',
+  linkedIn: 'LinkedIn',
+  facebook: 'Facebook',
+  twitter: 'X / Twitter',
+};
+
+type ShadowField = 'websiteField' | 'emailField' | 'instagramField' | 'linkedInField' | 'twitterField';
+
+/** Where an accepted correction is written besides the plain field */
+const CORRECTION_TARGETS: Record<CorrectableField, { shadow?: ShadowField; contactType?: ContactMethodType }> = {
+  website: { shadow: 'websiteField', contactType: 'OTHER' },
+  email: { shadow: 'emailField', contactType: 'EMAIL' },
+  instagram: { shadow: 'instagramField', contactType: 'INSTAGRAM' },
+  linkedIn: { shadow: 'linkedInField', contactType: 'LINKEDIN' },
+  facebook: {},
+  twitter: { shadow: 'twitterField', contactType: 'TWITTER' },
+};
+
+export interface LeadVerificationOutcome {
+  leadId: string;
+  companyName: string;
+  status: ForensicVerificationResult['status'] | 'ERROR';
+  corrections: FieldCorrection[];
+  error?: string;
+}
+
+export interface VerificationSummary {
+  total: number;
+  outcomes: LeadVerificationOutcome[];
+  counts: Record<LeadVerificationOutcome['status'], number>;
+  /** Leads never started because the batch was stopped */
+  skipped: number;
+  cancelled: boolean;
+}
+
+const SOCIAL_FIELDS = ['instagram', 'linkedIn', 'facebook', 'twitter'] as const;
+
+const sameValue = (a?: string, b?: string) => (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+/**
+ * Fields the verification would change on the lead
+ */
+export function findCorrections(lead: DiscoveredLead, result: ForensicVerificationResult): FieldCorrection[] {
+  const corrected = result.correctedData;
+  if (!corrected) return [];
+
+  const candidates: [CorrectableField, string | undefined, string | undefined][] = [
+    ['website', lead.website, corrected.website],
+    ['email', lead.email, corrected.email],
+    ...SOCIAL_FIELDS.map(field => [field, lead.socialLinks?.[field], corrected.socialLinks?.[field]] as [CorrectableField, string | undefined, string | undefined]),
+  ];
+
+  return candidates
+    .filter(([, from, to]) => !!to && !sameValue(from, to))
+    .map(([field, from, to]) => ({
+      field,
+      from: from || undefined,
+      to: to!,
+      evidence: result.correctionEvidence?.[field] || MODEL_CORRECTION_EVIDENCE,
+    }));
+}
+
+/**
+ * Merge a verification result into the lead; corrections are queued for review
+ */
+export function applyVerificationResult(lead: DiscoveredLead, result: ForensicVerificationResult): DiscoveredLead {
+  // Crawled phones, addresses and staff are facts from the company's own pages, not model suggestions
+  const crawled = result.websiteContacts ? applyWebsiteContacts(lead, result.websiteContacts) : lead;
+  return {
+    ...crawled,
+    // The scrape and audit were just re-run, so earlier hits for those sources no longer apply
+    cacheHits: [
+      ...(lead.cacheHits || []).filter(hit => hit.source !== 'VERIFICATION' && hit.source !== 'SCRAPER'),
+      ...(result.cacheHits || [])
+    ],
+    verificationStatus: result.status,
+    verificationReasoning: result.reasoning,
+    forensicAuditTrail: result.auditTrail,
+    pendingCorrections: findCorrections(crawled, result),
+  };
+}
+
+const upsertContact = (
+  contacts: ContactIntelligence[],
+  type: ContactMethodType,
+  { from, to, evidence }: FieldCorrection
+): ContactIntelligence[] => {
+  const verified: Omit<ContactIntelligence, 'id'> = {
+    type,
+    value: to,
+    confidence: evidence.confidence,
+    source: `Forensic Verification (${evidence.source.replace(/_/g, ' ')})`,
+    lastVerified: new Date().toISOString(),
+    isPrimary: true,
+  };
+  const replaced = contacts.find(c => c.type === type && !!from && sameValue(c.value, from));
+  // The verified value becomes the primary contact of its type
+  const others = contacts
+    .filter(c => c !== replaced)
+    .map(c => c.type === type ? { ...c, isPrimary: false } : c);
+  return [{ id: replaced?.id || `intel_${crypto.randomUUID()}`, ...verified }, ...others];
+};
+
+/**
+ * Write an accepted correction onto a lead or board sponsor
+ */
+export function acceptCorrection<T extends DiscoveredLead | Sponsor>(record: T, correction: FieldCorrection): T {
+  const { field, to, evidence } = correction;
+  const { shadow, contactType } = CORRECTION_TARGETS[field];
+  const patch: Partial<DiscoveredLead & Sponsor> = {};
+
+  if (field === 'website' || field === 'email') {
+    patch[field] = to;
+  } else {
+    patch.socialLinks = { ...record.socialLinks, [field]: to } as DiscoveredLead['socialLinks'];
+  }
+  if (shadow) patch[shadow] = { value: to, evidence };
+  if (contactType) patch.enrichedContacts = upsertContact(record.enrichedContacts || [], contactType, correction);
+
+  const pending = (record as Partial<DiscoveredLead>).pendingCorrections;
+  if (pending) patch.pendingCorrections = pending.filter(c => c.field !== field);
+
+  return { ...record, ...patch };
+}
+
+/**
+ * Drop a correction the user rejected; the claimed value stays
+ */
+export function rejectCorrection(lead: DiscoveredLead, field: CorrectableField): DiscoveredLead {
+  return { ...lead, pendingCorrections: lead.pendingCorrections?.filter(c => c.field !== field) };
+}
+
+export interface VerifyLeadsOptions {
+  concurrency?: number;
+  forceRefresh?: boolean;
+  /** Stops starting new audits and aborts those in flight */
+  signal?: AbortSignal;
+  onStart?: (lead: DiscoveredLead) => void;
+  onVerified?: (lead: DiscoveredLead, result: ForensicVerificationResult) => void;
+  /** The audit failed or was aborted; the lead keeps its previous status */
+  onFailed?: (lead: DiscoveredLead, error: unknown) => void;
+}
+
+/**
+ * Verify a batch of leads, at most `concurrency` at a time
+ */
+export async function verifyLeads(
+  leads: DiscoveredLead[],
+  { concurrency = VERIFY_ALL_CONCURRENCY, forceRefresh, signal, onStart, onVerified, onFailed }: VerifyLeadsOptions = {}
+): Promise<VerificationSummary> {
+  const queue = [...leads];
+  const outcomes: LeadVerificationOutcome[] = [];
+
+  const worker = async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      const lead = queue.shift()!;
+      onStart?.(lead);
+      try {
+        const result = await verifyLeadForensically(lead, { forceRefresh, signal });
+        outcomes.push({ leadId: lead.id, companyName: lead.companyName, status: result.status, corrections: findCorrections(lead, result) });
+        onVerified?.(lead, result);
+      } catch (error) {
+        onFailed?.(lead, error);
+        if (signal?.aborted) continue;
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ Verification: ${lead.companyName} failed`, error);
+        outcomes.push({ leadId: lead.id, companyName: lead.companyName, status: 'ERROR', corrections: [], error: message });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, leads.length) }, worker));
+
+  const counts: VerificationSummary['counts'] = { VERIFIED: 0, FAILED: 0, COLLISION_DETECTED: 0, ERROR: 0 };
+  outcomes.forEach(outcome => { counts[outcome.status]++; });
+
+  return {
+    total: leads.length,
+    outcomes,
+    counts,
+    skipped: queue.length,
+    cancelled: !!signal?.aborted,
+  };
+}
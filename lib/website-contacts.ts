@@ -0,0 +1,107 @@
+/**
+ * Website Contacts
+ *
+ * Writes what the crawler found on a company's own pages onto a lead or
+ * sponsor without losing where it came from. A phone or address the site
+ * declares in structured data replaces a weaker value from the model or a
+ * directory; otherwise the strongest crawled value only fills an empty field,
+ * or backs a matching value with its page evidence. The remaining phones are
+ * kept as secondary enrichedContacts, and staff members are kept with the
+ * page that named them.
+ */
+
+import { ContactField, ContactIntelligence, DiscoveredLead, Sponsor, StaffMember } from '../types';
+import { DeclaredContacts } from './scraper';
+
+/** The parts of a website crawl that are stored on a record */
+export interface WebsiteContacts {
+  phones: ContactField[];
+  addresses: ContactField[];
+  staff: StaffMember[];
+  declared: DeclaredContacts;
+  openingHours: string[];
+}
+
+const phoneKey = (phone: string) => phone.replace(/\D/g, '').slice(-10);
+const addressKey = (address: string) => address.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Value and shadow field for one contact slot: a declared value replaces a
+ * different, weaker one; an empty slot takes the declared value or else the
+ * strongest crawled one; a filled slot keeps its value and takes the evidence
+ * of a matching field when that evidence is stronger
+ */
+function pickField(
+  value: string | undefined,
+  field: ContactField | undefined,
+  declared: ContactField | undefined,
+  found: ContactField[],
+  key: (value: string) => string
+): { value?: string; field?: ContactField } {
+  // Values typed in by hand, or without evidence to weigh, are never replaced
+  const weaker = !!field && key(field.value) === key(value || '') && field.evidence.source !== 'manual'
+    && field.evidence.confidence < (declared?.evidence.confidence ?? 0);
+  if (declared && value && weaker && key(declared.value) !== key(value)) return { value: declared.value, field: declared };
+
+  const crawled = declared ? [declared, ...found] : found;
+  if (!value) return crawled[0] ? { value: crawled[0].value, field: crawled[0] } : { value, field };
+
+  const match = crawled.find(c => key(c.value) === key(value));
+  if (match && (!field || key(field.value) !== key(value) || field.evidence.confidence < match.evidence.confidence)) {
+    return { value, field: { value, evidence: match.evidence } };
+  }
+  return { value, field };
+}
+
+/**
+ * Apply crawled phones, addresses, staff and opening hours to a lead or sponsor
+ */
+export function applyWebsiteContacts<T extends DiscoveredLead | Sponsor>(record: T, contacts: WebsiteContacts): T {
+  const phone = pickField(record.phone, record.phoneField, contacts.declared.phone, contacts.phones, phoneKey);
+  const address = pickField(record.address, record.addressField, contacts.declared.address, contacts.addresses, addressKey);
+
+  // Phones other than the primary one stay reachable as secondary contacts
+  const contactsList = record.enrichedContacts || [];
+  const known = new Set(contactsList.filter(c => c.type === 'PHONE').map(c => phoneKey(c.value)));
+  if (phone.value) known.add(phoneKey(phone.value));
+  const extraPhones: ContactIntelligence[] = [];
+  contacts.phones.forEach(crawled => {
+    const key = phoneKey(crawled.value);
+    if (known.has(key)) return;
+    known.add(key);
+    extraPhones.push({
+      id: `intel_${crypto.randomUUID()}`,
+      type: 'PHONE',
+      value: crawled.value,
+      confidence: crawled.evidence.confidence,
+      source: `Website (${crawled.evidence.sourceUrl || 'official site'})`,
+      lastVerified: new Date().toISOString(),
+      isPrimary: false,
+    });
+  });
+
+  return {
+    ...record,
+    phone: phone.value,
+    phoneField: phone.field,
+    address: address.value,
+    addressField: address.field,
+    enrichedContacts: extraPhones.length > 0 ? [...contactsList, ...extraPhones] : record.enrichedContacts,
+    websiteStaff: contacts.staff.length > 0 ? contacts.staff : record.websiteStaff,
+    openingHours: contacts.openingHours.length > 0 ? contacts.openingHours : record.openingHours,
+  };
+}
+
+/**
+ * Website-backed contacts already on a lead, for passing on to its board sponsor
+ */
+export function websiteContactsOf(lead: DiscoveredLead): WebsiteContacts {
+  const fromWebsite = (field?: ContactField) => field?.evidence.source === 'official_website' ? field : undefined;
+  return {
+    phones: [],
+    addresses: [],
+    staff: lead.websiteStaff || [],
+    declared: { phone: fromWebsite(lead.phoneField), address: fromWebsite(lead.addressField) },
+    openingHours: lead.openingHours || [],
+  };
+}
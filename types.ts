@@ -24,6 +24,28 @@ export interface ContactField {
 
 export type LegacyOrForensicField = string | ContactField;
 
+/**
+ * A person named on a company's own website, with the page they appear on
+ */
+export interface StaffMember {
+  name: string;
+  title: string;
+  evidence: FieldEvidence;
+}
+
+/** Contact fields the forensic verifier can propose corrections for */
+export type CorrectableField = 'website' | 'email' | 'instagram' | 'linkedIn' | 'facebook' | 'twitter';
+
+/**
+ * A verifier correction awaiting review: the claimed value and the verified replacement
+ */
+export interface FieldCorrection {
+  field: CorrectableField;
+  from?: string;
+  to: string;
+  evidence: FieldEvidence;
+}
+
 export interface SenderProfile {
   orgName: string;
   role?: string;
@@ -85,6 +107,19 @@ export interface Persona {
   };
 }
 
+/**
+ * Board contact data that no longer matches what the sponsor's website publishes
+ */
+export interface DataDecayAlert {
+  field: CorrectableField;
+  kind: 'CHANGED' | 'MISSING' | 'DOWN' | 'PARKED';
+  stored: string;
+  /** Value the website publishes now, when there is one */
+  found?: string;
+  message: string;
+  detectedAt: string;
+}
+
 export interface Sponsor {
   id: string;
   companyName: string;
@@ -106,8 +141,20 @@ export interface Sponsor {
   lastIntelligenceRefresh?: string;
   latestSignal?: string;
   primarySignalSource?: string;
+  /** ISO timestamp; set when the sponsor's last active deal is archived */
+  archivedAt?: string;
   /** Enriched contact metadata with confidence scores and sources */
   enrichedContacts?: ContactIntelligence[];
+  /** ISO timestamp of the last background website re-check */
+  contactsCheckedAt?: string;
+  /** Mismatches found by the last re-check */
+  dataAlerts?: DataDecayAlert[];
+  /** Consecutive re-checks that could not reach the website; cleared by any conclusive check */
+  contactCheckRetry?: { failures: number; lastAttemptAt: string };
+  /** People listed on the company's own website */
+  websiteStaff?: StaffMember[];
+  /** Opening hours the website declares in structured data */
+  openingHours?: string[];
 
   // Forensic Shadow Fields
   emailField?: ContactField;
@@ -130,6 +177,13 @@ export interface ForensicDossier {
   createdAt?: string;               // ISO timestamp
 }
 
+export type CacheSource = 'DISCOVERY' | 'VERIFICATION' | 'APOLLO' | 'SCRAPER';
+
+export interface CacheHit {
+  source: CacheSource;
+  cachedAt: string; // When the cached response was fetched
+}
+
 export interface DiscoveredLead {
   id: string;
   companyName: string;
@@ -149,10 +203,20 @@ export interface DiscoveredLead {
   matchReasoning: string;
   savedAt?: string;
   latestSignal?: string;
+  /** Publication date of latestSignal, when the model could find one */
+  latestSignalDate?: string;
+  /** Approximate distance from the searched location */
+  distanceMiles?: number;
+  /** Company size and industry from Apollo enrichment */
+  firmographics?: { employeeCount?: number; industry?: string };
   /** Grounding metadata from Maps or Search */
   groundingSources?: GroundingLink[];
   /** Enriched contact metadata with confidence scores and sources */
   enrichedContacts?: ContactIntelligence[];
+  /** People listed on the company's own website */
+  websiteStaff?: StaffMember[];
+  /** Opening hours the website declares in structured data */
+  openingHours?: string[];
 
   // Forensic Shadow Fields
   emailField?: ContactField;
@@ -173,6 +237,11 @@ export interface DiscoveredLead {
   verificationStatus?: 'PENDING' | 'VERIFYING' | 'VERIFIED' | 'FAILED' | 'COLLISION_DETECTED';
   verificationReasoning?: string;
   forensicAuditTrail?: string[];
+  /** Verifier corrections not yet accepted or rejected */
+  pendingCorrections?: FieldCorrection[];
+
+  /** Lookups served from the response cache rather than a fresh call */
+  cacheHits?: CacheHit[];
 }
 
 export interface DiscoverySession {
@@ -183,6 +252,28 @@ export interface DiscoverySession {
   depth: 'STANDARD' | 'DEEP';
   date: string;
   leads: DiscoveredLead[];
+  /** Scheduled job that produced this session */
+  jobId?: string;
+}
+
+/**
+ * Saved discovery search re-run on AutomationSettings.agentFrequency while autonomy is enabled
+ */
+export interface DiscoveryJob {
+  id: string;
+  name: string;
+  description: string;
+  location: string;
+  radius: string;
+  depth: 'STANDARD' | 'DEEP';
+  personaId?: string;
+  enabled: boolean;
+  createdAt: string;
+  lastRunAt?: string;
+  /** Outcome of the last run (error or skip reason when not OK) */
+  lastResult?: { status: 'OK' | 'ERROR' | 'SKIPPED'; message: string; newLeads: number };
+  /** Identity keys found by earlier runs; only leads outside this set are announced */
+  knownKeys: string[];
 }
 
 export interface Deal {
@@ -195,18 +286,27 @@ export interface Deal {
   notes: string;
   currentSequenceStep: number;
   contractEndDate?: string;
+  season?: string;       // Sponsorship season, e.g. "2026" or "2025-26"
+  renewedFromDealId?: string; // Previous season's deal this one renews
   forensicDossier?: ForensicDossier;
   followUpNote?: string; // Triage intent note
   emailDraft?: string;   // Generated email copy
   dmDraft?: string;      // Generated social DM copy
   valueProp?: string;    // Customized value proposition
+  archivedAt?: string;   // ISO timestamp; archived deals leave the board but keep their history
+}
+
+export interface AgentLogEntry {
+  at: string; // ISO timestamp
+  message: string;
 }
 
 export interface AgentTask {
-  status: 'IDLE' | 'SEARCHING' | 'COMPLETED' | 'ERROR';
+  status: 'IDLE' | 'SEARCHING' | 'COMPLETED' | 'ERROR' | 'CANCELLED';
   phase: string;
   query?: string;
   location?: string;
+  log?: AgentLogEntry[]; // Progress events from the running pipeline, newest last
 }
 
 export interface WorkflowStep {
@@ -223,12 +323,81 @@ export interface Workflow {
   steps: WorkflowStep[];
 }
 
+export type LlmProviderId = 'GEMINI' | 'OPENAI' | 'FAKE';
+
+/** Model-backed operations that can each be routed to a different provider */
+export type LlmTask = 'DISCOVERY' | 'VERIFICATION' | 'OUTREACH' | 'VALUE_PROP' | 'WEBSITE_INTEL' | 'SIGNALS';
+
+export interface LlmTaskSetting {
+  provider: LlmProviderId;
+  /** Overrides the provider's default model for this task */
+  model?: string;
+}
+
+export interface LlmSettings {
+  tasks: Record<LlmTask, LlmTaskSetting>;
+  /** Any OpenAI-compatible Chat Completions endpoint (OpenAI, Azure proxy, Ollama, ...) */
+  openAiBaseUrl: string;
+  openAiApiKey: string;
+}
+
+export type UsageProvider = 'GEMINI' | 'OPENAI' | 'APOLLO';
+
+export type UsageOperation = LlmTask | 'ENRICHMENT';
+
+/**
+ * One billable API call recorded in the usage ledger
+ */
+export interface UsageEntry {
+  id: string;
+  at: string; // ISO timestamp
+  provider: UsageProvider;
+  model?: string;
+  operation: UsageOperation;
+  inputTokens?: number;
+  outputTokens?: number;
+  credits?: number; // Apollo credits
+  estimatedCost: number; // USD
+}
+
+export interface UsageBudget {
+  /** USD per day; 0 = no limit */
+  dailyLimit: number;
+  /** USD per calendar month; 0 = no limit */
+  monthlyLimit: number;
+  /** WARN asks for confirmation, BLOCK refuses to start the scan */
+  enforcement: 'WARN' | 'BLOCK';
+  /** USD charged per Apollo credit on your plan */
+  apolloCreditCost: number;
+}
+
+export type ScoreComponentId = 'FIT' | 'COMPLETENESS' | 'CONFIDENCE' | 'VERIFICATION' | 'FIRMOGRAPHICS' | 'DISTANCE' | 'RECENCY';
+
+/**
+ * Weights and targets for the composite lead score (see lib/scoring.ts)
+ */
+export interface ScoringSettings {
+  /** Relative weight per component; 0 leaves the component out */
+  weights: Record<ScoreComponentId, number>;
+  /** Leads at or beyond this distance get no distance credit */
+  maxDistanceMiles: number;
+  /** Apollo industries that count as a match (case-insensitive substring) */
+  preferredIndustries: string[];
+}
+
 export interface AutomationSettings {
   n8nWebhookUrl: string;
   apolloApiKey: string;
   autoSignalRefresh: boolean;
   notifyOnDeploy: boolean;
   agentFrequency: 'HOURLY' | 'DAILY' | 'WEEKLY';
+  /** Days an archived deal is kept before permanent purge (0 = keep forever) */
+  archiveRetentionDays: number;
+  llm: LlmSettings;
+  usageBudget: UsageBudget;
+  scoring: ScoringSettings;
+  /** Days between background website re-checks of board sponsors (0 = off) */
+  sponsorRecheckDays: number;
 }
 
 export interface AppState {
@@ -237,6 +406,7 @@ export interface AppState {
   activities: Activity[];
   vault: DiscoveredLead[];
   discoveryHistory: DiscoverySession[];
+  discoveryJobs: DiscoveryJob[];
   currentDiscoveryLeads: DiscoveredLead[];
   activeTask: AgentTask;
   automationSettings: AutomationSettings;
@@ -246,6 +416,7 @@ export interface AppState {
   senderProfile: SenderProfile;
   personas: Persona[];
   theme: 'light' | 'dark';
+  usageLedger: UsageEntry[];
 }
 
 export interface Activity {